@@ -0,0 +1,57 @@
+import { performance } from 'perf_hooks';
+
+import type { IrisTypeRef } from '../src/types/definition';
+import { buildSchema } from '../src/types/schema';
+import { compileDataType } from '../src/validation/compileDataType';
+import { typeCheckValue } from '../src/validation/typeCheckValue';
+
+const { types } = buildSchema(`
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  data Deity = {
+    name: String
+    lifespan: Lifespan
+    titles: [String]
+    parent: Deity?
+  }
+
+  resolver Query = {
+    deities: [Deity]
+  }
+`);
+
+const typeRef = types.Query.variantBy().fields?.deities
+  .type as IrisTypeRef<'data'>;
+
+const payload = Array.from({ length: 10000 }, (_, i) => ({
+  name: `Deity ${i}`,
+  lifespan: i % 2 ? 'Immortal' : { __typename: 'Limited', max: i },
+  titles: ['Olympian', 'Titan'],
+  parent: { name: 'Cronos', lifespan: 'Immortal', titles: [] },
+}));
+
+const measure = (name: string, serialize: (value: unknown) => unknown) => {
+  // warm up the JIT before measuring.
+  for (let i = 0; i < 5; i++) {
+    serialize(payload);
+  }
+
+  const iterations = 50;
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    serialize(payload);
+  }
+  const duration = (performance.now() - start) / iterations;
+
+  console.log(`${name.padEnd(16)} ${duration.toFixed(2)} ms/op`);
+  return duration;
+};
+
+const interpreted = measure('typeCheckValue', (value) =>
+  typeCheckValue(value, typeRef),
+);
+const compiled = measure('compileDataType', compileDataType(typeRef));
+
+console.log(`speedup          ${(interpreted / compiled).toFixed(2)}x`);
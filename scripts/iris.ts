@@ -0,0 +1,37 @@
+import { readdirSync, readFileSync } from 'fs';
+
+import { runCLI } from '../src/cli/runCLI';
+
+const readStdin = async () => {
+  let text = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    text += chunk;
+  }
+  return text;
+};
+
+runCLI(process.argv.slice(2), {
+  readFile: (path) => readFileSync(path, 'utf8'),
+  readDirectory: (path) => {
+    try {
+      return readdirSync(path, { withFileTypes: true }).map((entry) => ({
+        name: entry.name,
+        isDirectory: entry.isDirectory(),
+      }));
+    } catch (_error) {
+      return [];
+    }
+  },
+  readStdin,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    process.stderr.write(`${error.stack}\n`);
+    process.exitCode = 1;
+  },
+);
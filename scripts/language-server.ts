@@ -0,0 +1,8 @@
+import { startLanguageServer } from '../src/lsp/stdio';
+
+startLanguageServer(process.stdin, process.stdout, {
+  onExit: (code) => process.exit(code),
+}).catch((error) => {
+  process.stderr.write(`${error.stack}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,210 @@
+import type { ObjMap } from '../../utils/ObjMap';
+
+import { expandGlob } from '../glob';
+import type { CLIEnvironment } from '../runCLI';
+import { runCLI } from '../runCLI';
+
+const files: ObjMap<string> = {
+  'schema/query.iris': `
+    import { Lifespan } from "./types/lifespan.iris"
+
+    resolver Query = {
+      "All gods"
+      gods(lifespan: Lifespan? = Immortal): [String]
+    }
+  `,
+  'schema/types/lifespan.iris': `
+    "lifespan of a deity"
+    data Lifespan = Immortal {} | Limited { max: Int? }
+  `,
+  'schema/types/.hidden.iris': 'data Hidden = {}',
+  'schema/invalid.iris': 'data Invalid = { name: Name }',
+};
+
+const readDirectory = (path: string) => {
+  const prefix = path === '.' ? '' : `${path}/`;
+  const names = new Map<string, boolean>();
+
+  for (const file of Object.keys(files)) {
+    if (file.startsWith(prefix)) {
+      const [name, ...rest] = file.slice(prefix.length).split('/');
+      names.set(name, rest.length !== 0);
+    }
+  }
+
+  return [...names].map(([name, isDirectory]) => ({ name, isDirectory }));
+};
+
+const run = async (args: ReadonlyArray<string>, stdin = '') => {
+  let stdout = '';
+  let stderr = '';
+  const env: CLIEnvironment = {
+    readFile: (path) => {
+      if (files[path] === undefined) {
+        throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+      }
+      return files[path];
+    },
+    readDirectory,
+    readStdin: () => Promise.resolve(stdin),
+    stdout: (text) => {
+      stdout += text;
+    },
+    stderr: (text) => {
+      stderr += text;
+    },
+  };
+
+  const exitCode = await runCLI(args, env);
+  return { exitCode, stdout, stderr };
+};
+
+describe('expandGlob', () => {
+  it('expands patterns to sorted file paths', () => {
+    expect(expandGlob('schema/*.iris', readDirectory)).toEqual([
+      'schema/invalid.iris',
+      'schema/query.iris',
+    ]);
+    expect(expandGlob('schema/**/*.iris', readDirectory)).toEqual([
+      'schema/invalid.iris',
+      'schema/query.iris',
+      'schema/types/lifespan.iris',
+    ]);
+    expect(expandGlob('**/lifespan.?ris', readDirectory)).toEqual([
+      'schema/types/lifespan.iris',
+    ]);
+    expect(expandGlob('schema/types/.*.iris', readDirectory)).toEqual([
+      'schema/types/.hidden.iris',
+    ]);
+    expect(expandGlob('missing.iris', readDirectory)).toEqual(['missing.iris']);
+  });
+});
+
+describe('iris CLI', () => {
+  it('validates files matched by globs', async () => {
+    expect(await run(['validate', 'schema/query.iris'])).toEqual({
+      exitCode: 0,
+      stdout: '1 file(s) are valid.\n',
+      stderr: '',
+    });
+
+    const invalid = await run(['validate', 'schema/*.iris']);
+    expect(invalid.exitCode).toEqual(1);
+    expect(invalid.stderr).toMatchSnapshot();
+  });
+
+  it('reports errors as json', async () => {
+    expect(
+      JSON.parse(
+        (await run(['validate', '--format', 'json', 'schema/invalid.iris']))
+          .stdout,
+      ),
+    ).toEqual({
+      valid: false,
+      files: ['schema/invalid.iris'],
+      errors: [
+        {
+          message: 'Unknown type "Name".',
+          file: 'schema/invalid.iris',
+          line: 1,
+          column: 24,
+        },
+      ],
+    });
+
+    expect(
+      JSON.parse((await run(['print', '--format=json', 'none/*.iris'])).stdout),
+    ).toEqual({ errors: [{ message: 'No files match "none/*.iris".' }] });
+  });
+
+  it('prints the normalized schema from stdin', async () => {
+    expect(
+      await run(['print'], 'data Lifespan =   Immortal {}|Mortal{}'),
+    ).toEqual({
+      exitCode: 0,
+      stdout: 'data Lifespan = Immortal {} | Mortal {}\n',
+      stderr: '',
+    });
+  });
+
+  it('transpiles to GraphQL and JSON Schema', async () => {
+    expect(
+      (await run(['transpile', '--to', 'graphql', 'schema/query.iris'])).stdout,
+    ).toMatchSnapshot();
+    expect(
+      JSON.parse(
+        (await run(['transpile', '--to', 'json-schema', 'schema/query.iris']))
+          .stdout,
+      ),
+    ).toHaveProperty('$defs.Lifespan');
+  });
+
+  it('generates TypeScript and JSDoc', async () => {
+    expect(
+      (await run(['codegen', '--target', 'ts', 'schema/query.iris'])).stdout,
+    ).toContain(
+      'export type Lifespan = "Immortal" | { __typename: "Immortal" } | "Limited" | Lifespan_Limited;',
+    );
+    expect(
+      (await run(['codegen', '--target', 'jsdoc', 'schema/query.iris'])).stdout,
+    ).toMatchSnapshot();
+  });
+
+  it('finds breaking changes', async () => {
+    const newSchema = files['schema/types/lifespan.iris'].replace(
+      '| Limited { max: Int? }',
+      '',
+    );
+
+    expect(
+      await run(['diff', 'schema/types/lifespan.iris', '-'], newSchema),
+    ).toEqual({
+      exitCode: 1,
+      stdout:
+        'BREAKING VARIANT_REMOVED: Variant "Limited" was removed from data "Lifespan". (schema/types/lifespan.iris:3:35)\n',
+      stderr: '',
+    });
+
+    expect(
+      JSON.parse(
+        (
+          await run([
+            'diff',
+            '--format',
+            'json',
+            'schema/types/lifespan.iris',
+            'schema/types/lifespan.iris',
+          ])
+        ).stdout,
+      ),
+    ).toEqual({ breaking: [], dangerous: [] });
+  });
+
+  it('rejects invalid usage', async () => {
+    const usageError = async (args: ReadonlyArray<string>) => {
+      const { exitCode, stderr } = await run(args);
+      return [exitCode, stderr.split('\n')[0]];
+    };
+
+    expect(await usageError(['build'])).toEqual([
+      2,
+      'Unknown command "build".',
+    ]);
+    expect(await usageError(['transpile', 'schema/query.iris'])).toEqual([
+      2,
+      'Missing option "--to".',
+    ]);
+    expect(await usageError(['codegen', '--target', 'flow'])).toEqual([
+      2,
+      'Option "--target" must be one of ts, jsdoc, got "flow".',
+    ]);
+    expect(await usageError(['print', '--watch', 'true'])).toEqual([
+      2,
+      'Unknown option "--watch".',
+    ]);
+    expect(await usageError(['diff', '-', '-'])).toEqual([
+      2,
+      'Only one of the schemas can be read from stdin.',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+export type DirectoryEntry = {
+  name: string;
+  isDirectory: boolean;
+};
+
+/**
+ * Lists the entries of a directory, or an empty list if it does not exist.
+ */
+export type ReadDirectory = (path: string) => ReadonlyArray<DirectoryEntry>;
+
+const isPattern = (segment: string) => /[*?]/.test(segment);
+
+const segmentPattern = (segment: string) =>
+  new RegExp(
+    '^' +
+      segment
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]') +
+      '$',
+  );
+
+const joinPath = (dir: string, name: string) =>
+  dir === '' ? name : dir.endsWith('/') ? dir + name : `${dir}/${name}`;
+
+/**
+ * Expands `*`, `?` and `**` (any number of directories) in the pattern to
+ * the sorted paths of matching files. Hidden files are only matched by
+ * patterns starting with a dot. Paths without patterns are returned as they
+ * are.
+ */
+export const expandGlob = (
+  pattern: string,
+  readDirectory: ReadDirectory,
+): Array<string> => {
+  const segments = pattern.split('/');
+  const firstPattern = segments.findIndex(isPattern);
+
+  if (firstPattern === -1) {
+    return [pattern];
+  }
+
+  const base = segments.slice(0, firstPattern).join('/');
+  const matches = new Set<string>();
+
+  const walk = (dir: string, [segment, ...rest]: ReadonlyArray<string>) => {
+    if (segment === undefined) {
+      return;
+    }
+
+    const entries = readDirectory(dir === '' ? '.' : dir).filter(
+      ({ name }) => !name.startsWith('.') || segment.startsWith('.'),
+    );
+
+    if (segment === '**') {
+      walk(dir, rest);
+      for (const entry of entries) {
+        if (entry.isDirectory) {
+          walk(joinPath(dir, entry.name), [segment, ...rest]);
+        }
+      }
+      return;
+    }
+
+    const matcher = segmentPattern(segment);
+    for (const entry of entries) {
+      if (!matcher.test(entry.name)) {
+        continue;
+      }
+
+      const path = joinPath(dir, entry.name);
+      if (rest.length === 0) {
+        if (!entry.isDirectory) {
+          matches.add(path);
+        }
+      } else if (entry.isDirectory) {
+        walk(path, rest);
+      }
+    }
+  };
+
+  walk(
+    base === '' && pattern.startsWith('/') ? '/' : base,
+    segments.slice(firstPattern),
+  );
+  return [...matches].sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,347 @@
+import type { IrisError } from '../error';
+import { irisError } from '../error';
+import type { LoadSchemaResult } from '../loading/buildSchemaFromFiles';
+import { loadSchemaFromFiles } from '../loading/buildSchemaFromFiles';
+import { printJSDoc } from '../printing/jsDoc';
+import { printSchema } from '../printing/printSchema';
+import { printTypeScript } from '../printing/printTypeScript';
+import { printSchemaWithDirectives } from '../transpiling/directives';
+import { toGQLSchema } from '../transpiling/toGQLSchema';
+import { toJSONSchema } from '../transpiling/toJSONSchema';
+import type { IrisSchema } from '../types/schema';
+import type { SchemaChangeLocation } from '../utils/findBreakingChanges';
+import {
+  findBreakingChanges,
+  findDangerousChanges,
+} from '../utils/findBreakingChanges';
+import type { ObjMap } from '../utils/ObjMap';
+
+import type { ReadDirectory } from './glob';
+import { expandGlob } from './glob';
+
+export type CLIEnvironment = {
+  readFile: (path: string) => string;
+  readDirectory: ReadDirectory;
+  readStdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+/**
+ * Path of the schema read from stdin, which is used in error locations.
+ */
+export const STDIN_PATH = '<stdin>';
+
+export const usage = `Usage: iris <command> [options] [files...]
+
+Commands:
+  validate <files>                    Validates the schema
+  print <files>                       Prints the normalized schema
+  transpile --to graphql <files>      Prints the GraphQL SDL of the schema,
+                                      or its JSON Schema by --to json-schema
+  codegen --target ts|jsdoc <files>   Prints TypeScript types or JSDoc typedefs
+  diff <old> <new>                    Prints breaking and dangerous changes
+
+Options:
+  --format text|json                  Output format, default: text
+  --mode scalar|oneOf                 Transpile mode of data types
+  --help                              Shows this message
+
+Files can be glob patterns (e.g. 'schema/**/*.iris'), without files or by
+"-" the schema is read from stdin.`;
+
+type Options = ObjMap<string>;
+
+type CommandResult = {
+  exitCode: number;
+  text: string;
+  json: unknown;
+  isError?: boolean;
+};
+
+type Command = {
+  options: ObjMap<ReadonlyArray<string> | undefined>;
+  required?: ReadonlyArray<string>;
+  run: (
+    files: ReadonlyArray<string>,
+    options: Options,
+    env: CLIEnvironment,
+  ) => Promise<CommandResult>;
+};
+
+class UsageError extends Error {}
+
+const formatOptions = { format: ['text', 'json'] };
+
+const parseArgs = (args: ReadonlyArray<string>) => {
+  const files: Array<string> = [];
+  const options: Options = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!arg.startsWith('--')) {
+      files.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/[=](.*)/s);
+    const value = name === 'help' ? 'true' : inlineValue ?? args[++i];
+
+    if (value === undefined) {
+      throw new UsageError(`Missing value of option "--${name}".`);
+    }
+
+    options[name] = value;
+  }
+
+  return { files, options };
+};
+
+const checkOptions = (
+  options: Options,
+  { options: allowed, required = [] }: Command,
+) => {
+  for (const name of required) {
+    if (options[name] === undefined) {
+      throw new UsageError(`Missing option "--${name}".`);
+    }
+  }
+
+  for (const [name, value] of Object.entries(options)) {
+    if (!(name in allowed)) {
+      throw new UsageError(`Unknown option "--${name}".`);
+    }
+
+    const values = allowed[name];
+    if (values && !values.includes(value)) {
+      const expected = values.join(', ');
+      throw new UsageError(
+        `Option "--${name}" must be one of ${expected}, got "${value}".`,
+      );
+    }
+  }
+};
+
+const errorJSON = (error: IrisError) => {
+  const [location] = error.locations ?? [];
+
+  return {
+    message: error.message,
+    ...(location
+      ? {
+          file: error.source?.name,
+          line: location.line,
+          column: location.column,
+        }
+      : {}),
+  };
+};
+
+const failure = (errors: ReadonlyArray<IrisError>): CommandResult => ({
+  exitCode: 1,
+  text: errors.map(String).join('\n\n'),
+  json: { errors: errors.map(errorJSON) },
+  isError: true,
+});
+
+const output = (text: string): CommandResult => ({
+  exitCode: 0,
+  text,
+  json: { output: text },
+});
+
+const loadSchema = async (
+  patterns: ReadonlyArray<string>,
+  env: CLIEnvironment,
+): Promise<LoadSchemaResult & { files: ReadonlyArray<string> }> => {
+  const inputs = patterns.length === 0 ? ['-'] : patterns;
+  const errors: Array<IrisError> = [];
+  const files = inputs.flatMap((pattern) => {
+    if (pattern === '-') {
+      return [STDIN_PATH];
+    }
+
+    const matches = expandGlob(pattern, env.readDirectory);
+    if (matches.length === 0) {
+      errors.push(irisError(`No files match "${pattern}".`));
+    }
+    return matches;
+  });
+
+  if (errors.length !== 0) {
+    return { files, errors };
+  }
+
+  const stdin = files.includes(STDIN_PATH) ? await env.readStdin() : '';
+
+  try {
+    const result = loadSchemaFromFiles(files, {
+      readFile: (path) => (path === STDIN_PATH ? stdin : env.readFile(path)),
+    });
+    return { ...result, files };
+  } catch (error) {
+    return { files, errors: [irisError(error.message)] };
+  }
+};
+
+const schemaCommand =
+  (print: (schema: IrisSchema, options: Options) => string) =>
+  async (
+    files: ReadonlyArray<string>,
+    options: Options,
+    env: CLIEnvironment,
+  ): Promise<CommandResult> => {
+    const { schema, errors } = await loadSchema(files, env);
+    return schema ? output(print(schema, options)) : failure(errors);
+  };
+
+const transpile = (schema: IrisSchema, options: Options) => {
+  const mode = options.mode === 'oneOf' ? 'oneOf' : 'scalar';
+
+  return options.to === 'graphql'
+    ? printSchemaWithDirectives(toGQLSchema(schema, {}, { mode }))
+    : JSON.stringify(toJSONSchema(schema), null, 2);
+};
+
+const codegen = (schema: IrisSchema, options: Options) =>
+  options.target === 'ts' ? printTypeScript(schema) : printJSDoc(schema);
+
+const locationText = (location?: SchemaChangeLocation) =>
+  location ? ` (${location.source}:${location.line}:${location.column})` : '';
+
+const commands: ObjMap<Command> = {
+  validate: {
+    options: formatOptions,
+    run: async (patterns, _options, env) => {
+      const { schema, errors, files } = await loadSchema(patterns, env);
+
+      return schema
+        ? {
+            exitCode: 0,
+            text: `${files.length} file(s) are valid.`,
+            json: { valid: true, files, errors: [] },
+          }
+        : {
+            ...failure(errors),
+            json: { valid: false, files, errors: errors.map(errorJSON) },
+          };
+    },
+  },
+  print: {
+    options: formatOptions,
+    run: schemaCommand(printSchema),
+  },
+  transpile: {
+    options: {
+      ...formatOptions,
+      to: ['graphql', 'json-schema'],
+      mode: ['scalar', 'oneOf'],
+    },
+    required: ['to'],
+    run: schemaCommand(transpile),
+  },
+  codegen: {
+    options: { ...formatOptions, target: ['ts', 'jsdoc'] },
+    required: ['target'],
+    run: schemaCommand(codegen),
+  },
+  diff: {
+    options: formatOptions,
+    run: async (files, _options, env) => {
+      if (files.length !== 2) {
+        throw new UsageError('Expected the old and the new schema.');
+      }
+
+      if (files[0] === '-' && files[1] === '-') {
+        throw new UsageError('Only one of the schemas can be read from stdin.');
+      }
+
+      const [oldResult, newResult] = [
+        await loadSchema([files[0]], env),
+        await loadSchema([files[1]], env),
+      ];
+
+      if (!oldResult.schema || !newResult.schema) {
+        return failure([...oldResult.errors, ...newResult.errors]);
+      }
+
+      const breaking = findBreakingChanges(oldResult.schema, newResult.schema);
+      const dangerous = findDangerousChanges(
+        oldResult.schema,
+        newResult.schema,
+      );
+      const lines = [
+        ...breaking.map(
+          ({ type, description, location }) =>
+            `BREAKING ${type}: ${description}${locationText(location)}`,
+        ),
+        ...dangerous.map(
+          ({ type, description, location }) =>
+            `DANGEROUS ${type}: ${description}${locationText(location)}`,
+        ),
+      ];
+
+      return {
+        exitCode: breaking.length === 0 ? 0 : 1,
+        text:
+          lines.length === 0
+            ? 'No breaking or dangerous changes.'
+            : lines.join('\n'),
+        json: { breaking, dangerous },
+      };
+    },
+  },
+};
+
+/**
+ * Runs the `iris` command with the arguments after the program name and
+ * returns the exit code: 0 on success, 1 on schema errors or breaking
+ * changes and 2 on invalid usage. File system and streams are provided by the
+ * environment.
+ */
+export const runCLI = async (
+  args: ReadonlyArray<string>,
+  env: CLIEnvironment,
+): Promise<number> => {
+  const [commandName, ...rest] = args;
+
+  if (!commandName || commandName === '--help' || commandName === 'help') {
+    env.stdout(`${usage}\n`);
+    return commandName ? 0 : 2;
+  }
+
+  const command = commands[commandName];
+
+  try {
+    if (!command) {
+      throw new UsageError(`Unknown command "${commandName}".`);
+    }
+
+    const { files, options } = parseArgs(rest);
+
+    if (options.help) {
+      env.stdout(`${usage}\n`);
+      return 0;
+    }
+
+    checkOptions(options, command);
+    const result = await command.run(files, options, env);
+
+    if (options.format === 'json') {
+      env.stdout(`${JSON.stringify(result.json, null, 2)}\n`);
+    } else if (result.isError) {
+      env.stderr(`${result.text}\n`);
+    } else {
+      env.stdout(`${result.text}\n`);
+    }
+
+    return result.exitCode;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      env.stderr(`${error.message}\n\n${usage}\n`);
+      return 2;
+    }
+    throw error;
+  }
+};
@@ -3,16 +3,47 @@
  *
  * @packageDocumentation
  */
-import type { ResolverMap } from './transpiling/toGQLSchema';
+import type { ResolverMap, TranspileOptions } from './transpiling/toGQLSchema';
 import { toGQLSchema } from './transpiling/toGQLSchema';
+import type { IrisScalarMap } from './types/definition';
 import { buildSchema } from './types/schema';
 
 export { graphql } from 'graphql';
 export { version, versionInfo } from './version';
 
-type Options = {
+type Options = TranspileOptions & {
   resolvers?: ResolverMap;
+  scalars?: IrisScalarMap;
 };
 
-export const irisSchema = (src: string, { resolvers }: Options = {}) =>
-  toGQLSchema(buildSchema(src), resolvers);
+export const irisSchema = (
+  src: string,
+  { resolvers, scalars, ...options }: Options = {},
+) => toGQLSchema(buildSchema(src, { scalars }), resolvers, options);
+
+export { buildSchema };
+export {
+  buildSchemaFromFiles,
+  loadSchemaFromFiles,
+} from './loading/buildSchemaFromFiles';
+export { introspectionFromIrisSchema } from './types/introspection';
+export { buildClientIrisSchema } from './utils/buildClientIrisSchema';
+export { mapIrisSchema } from './utils/mapIrisSchema';
+export { validateDataValue } from './validation/typeCheckValue';
+export { printTypeScript } from './printing/printTypeScript';
+export { printSchemaWithDirectives } from './transpiling/directives';
+export { fromGQLSchema } from './transpiling/fromGQLSchema';
+export { validateResolverMap } from './validation/validateResolverMap';
+export { toJSONSchema } from './transpiling/toJSONSchema';
+export { compileDataType } from './validation/compileDataType';
+export { printOperation } from './printing/printOperation';
+export {
+  findBreakingChanges,
+  findDangerousChanges,
+} from './utils/findBreakingChanges';
+export { mockIrisSchema } from './mocking/mockIrisSchema';
+export { createRPCHandler } from './rpc/createRPCHandler';
+export { executeRPC, parseRPCRequest } from './rpc/executeRPC';
+export { lintSDL } from './linting/lintSDL';
+export { createLanguageServer } from './lsp/server';
+export { startLanguageServer } from './lsp/stdio';
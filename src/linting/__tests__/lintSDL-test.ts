@@ -0,0 +1,190 @@
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { ASTVisitor } from '../../types/visitor';
+
+import type { LintConfig } from '../lintSDL';
+import { lintSDL } from '../lintSDL';
+
+const only = (rule: string): LintConfig => ({
+  'naming-convention': 'off',
+  'root-field-descriptions': 'off',
+  'single-variant-name': 'off',
+  'no-unused-directives': 'off',
+  'deprecation-reason': 'off',
+  [rule]: 'warn',
+});
+
+const messages = (source: string, rule: string) =>
+  lintSDL(source, { rules: only(rule) }).map(({ message }) => message);
+
+describe('lintSDL', () => {
+  it('returns no diagnostics for a conventional schema', () => {
+    expect(
+      lintSDL(`
+        data Lifespan
+          = Immortal {}
+          | Limited { max: Int? }
+
+        resolver God = {
+          name: String @deprecated(reason: "Use title")
+          lifespan: Lifespan
+        }
+
+        resolver Query = {
+          "All known gods"
+          gods(limit: Int = 10): [God]
+        }
+      `),
+    ).toEqual([]);
+  });
+
+  it('reports diagnostics with rules, severities and locations', () => {
+    expect(
+      lintSDL(
+        `
+        resolver Query = {
+          gods: [String] @deprecated
+        }
+      `,
+        { rules: { 'naming-convention': 'off' } },
+      ),
+    ).toMatchSnapshot();
+  });
+
+  it('checks naming conventions', () => {
+    expect(
+      messages(
+        `
+        data lifespan
+          = IMMORTAL {}
+          | Limited { Max: Int? }
+
+        resolver Query = {
+          gods(max_age: Int): [String]
+        }
+
+        extend resolver Query = {
+          all_gods: [String]
+        }
+      `,
+        'naming-convention',
+      ),
+    ).toEqual([
+      'Type name "lifespan" should be in PascalCase.',
+      'Variant name "IMMORTAL" of "lifespan" should be in PascalCase.',
+      'Field name "Limited.Max" should be in camelCase.',
+      'Argument name "Query.gods(max_age:)" should be in camelCase.',
+      'Field name "Query.all_gods" should be in camelCase.',
+    ]);
+  });
+
+  it('requires descriptions on resolver root fields', () => {
+    expect(
+      messages(
+        `
+        data Filter = { name: String }
+
+        resolver Query = {
+          "Documented"
+          gods: [String]
+          titans(filter: Filter): [String]
+        }
+
+        resolver Mutation = {
+          """  """
+          createGod: String
+        }
+      `,
+        'root-field-descriptions',
+      ),
+    ).toEqual([
+      'Field "Query.titans" should have a description.',
+      'Field "Mutation.createGod" should have a description.',
+    ]);
+  });
+
+  it('reports single variants named differently from data types', () => {
+    expect(
+      messages(
+        `
+        data Name = String
+        data Filter = Options { name: String }
+        data Empty = Nothing {}
+        data Lifespan = Immortal {} | Mortal {}
+      `,
+        'single-variant-name',
+      ),
+    ).toEqual([
+      'Data "Filter" has a single variant "Options", which should be named like the type.',
+      'Data "Empty" has a single variant "Nothing", which should be named like the type.',
+    ]);
+  });
+
+  it('reports unused directives', () => {
+    expect(
+      messages(
+        `
+        directive @unused on FIELD_DEFINITION
+        directive @onVariant on VARIANT_DEFINITION
+
+        data Lifespan = Immortal @onVariant {} | Mortal {}
+      `,
+        'no-unused-directives',
+      ),
+    ).toEqual(['Directive "@unused" is never used.']);
+  });
+
+  it('requires reasons for deprecations', () => {
+    expect(
+      messages(
+        `
+        data Lifespan = Immortal @deprecated {} | Mortal {}
+
+        resolver Query = {
+          gods(limit: Int? @deprecated(reason: "")): [String]
+          titans: [String] @deprecated(reason: "Use gods")
+        }
+      `,
+        'deprecation-reason',
+      ),
+    ).toEqual([
+      'Deprecation of "Immortal" should have a reason.',
+      'Deprecation of "limit" should have a reason.',
+    ]);
+  });
+
+  it('runs custom rules', () => {
+    const NoQueryRule = (ctx: IrisValidationContext): ASTVisitor => ({
+      TypeDefinition(type) {
+        if (type.name.value === 'Query') {
+          ctx.reportError(irisError('No queries.', { nodes: type.name }));
+        }
+      },
+    });
+
+    expect(
+      lintSDL('resolver Query = { "Gods" gods: [String] }', {
+        rules: { 'no-query': 'error' },
+        customRules: { 'no-query': NoQueryRule },
+      }),
+    ).toEqual([
+      {
+        rule: 'no-query',
+        severity: 'error',
+        message: 'No queries.',
+        location: { source: 'GraphQL request', line: 1, column: 10 },
+      },
+    ]);
+  });
+
+  it('rejects unknown rules', () => {
+    expect(() =>
+      lintSDL('resolver Query = {}', {
+        rules: { 'naming-conventions': 'off' },
+      }),
+    ).toThrow(
+      'Unknown lint rule "naming-conventions". Did you mean "naming-convention"?',
+    );
+  });
+});
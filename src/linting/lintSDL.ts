@@ -0,0 +1,132 @@
+import type { Source } from 'graphql';
+
+import type { SDLValidationRule } from '../validation/ValidationContext';
+import { IrisValidationContext } from '../validation/ValidationContext';
+
+import { irisError } from '../error';
+import { parse } from '../parsing';
+import type { IrisScalarMap } from '../types/definition';
+import { visit, visitInParallel } from '../types/visitor';
+import { didYouMean, suggestionList } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+
+import { DeprecationReasonRule } from './rules/DeprecationReasonRule';
+import { NamingConventionRule } from './rules/NamingConventionRule';
+import { NoUnusedDirectivesRule } from './rules/NoUnusedDirectivesRule';
+import { RootFieldDescriptionsRule } from './rules/RootFieldDescriptionsRule';
+import { SingleVariantNameRule } from './rules/SingleVariantNameRule';
+
+/**
+ * Lint rules are written like SDL validation rules, they report their
+ * findings as errors of the validation context.
+ */
+export type LintRule = SDLValidationRule;
+
+export type LintSeverity = 'off' | 'warn' | 'error';
+
+export type LintConfig = ObjMap<LintSeverity>;
+
+export type LintLocation = {
+  source: string;
+  line: number;
+  column: number;
+};
+
+export type LintDiagnostic = {
+  rule: string;
+  severity: Exclude<LintSeverity, 'off'>;
+  message: string;
+  location?: LintLocation;
+};
+
+export type LintOptions = {
+  /**
+   * Severities of rules by their names, merged into the recommended config.
+   */
+  rules?: LintConfig;
+  /**
+   * Additional rules by their names, which can be enabled in `rules`.
+   */
+  customRules?: ObjMap<LintRule>;
+  scalars?: IrisScalarMap;
+};
+
+export const specifiedLintRules: ObjMap<LintRule> = Object.freeze({
+  'naming-convention': NamingConventionRule,
+  'root-field-descriptions': RootFieldDescriptionsRule,
+  'single-variant-name': SingleVariantNameRule,
+  'no-unused-directives': NoUnusedDirectivesRule,
+  'deprecation-reason': DeprecationReasonRule,
+});
+
+export const recommendedLintConfig: LintConfig = Object.freeze({
+  'naming-convention': 'warn',
+  'root-field-descriptions': 'warn',
+  'single-variant-name': 'warn',
+  'no-unused-directives': 'warn',
+  'deprecation-reason': 'error',
+});
+
+/**
+ * Lints an Iris source by the enabled rules. Unlike validation, findings
+ * do not make the schema invalid, they are returned as diagnostics sorted
+ * by their location.
+ */
+export const lintSDL = (
+  source: string | Source,
+  { rules = {}, customRules = {}, scalars }: LintOptions = {},
+): ReadonlyArray<LintDiagnostic> => {
+  const availableRules = { ...specifiedLintRules, ...customRules };
+  const config = { ...recommendedLintConfig, ...rules };
+
+  for (const name of Object.keys(config)) {
+    if (!availableRules[name]) {
+      throw irisError(
+        `Unknown lint rule "${name}".` +
+          didYouMean(suggestionList(name, Object.keys(availableRules))),
+      );
+    }
+  }
+
+  const document = parse(source);
+  const enabled = Object.entries(config).flatMap(([name, severity]) =>
+    severity === 'off'
+      ? []
+      : [
+          {
+            name,
+            severity,
+            context: new IrisValidationContext(document, { scalars }),
+          },
+        ],
+  );
+
+  visit(
+    document,
+    visitInParallel(
+      enabled.map(({ name, context }) => availableRules[name](context)),
+    ),
+  );
+
+  const diagnostics = enabled.flatMap(({ name, severity, context }) =>
+    context.errors.map((error) => {
+      const [location] = error.locations ?? [];
+
+      return {
+        diagnostic: {
+          rule: name,
+          severity,
+          message: error.message,
+          ...(location && error.source
+            ? { location: { source: error.source.name, ...location } }
+            : {}),
+        },
+        position: error.positions?.[0] ?? -1,
+      };
+    }),
+  );
+
+  return diagnostics
+    .sort((a, b) => a.position - b.position)
+    .map(({ diagnostic }) => diagnostic);
+};
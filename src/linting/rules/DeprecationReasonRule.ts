@@ -0,0 +1,42 @@
+import { Kind } from 'graphql';
+
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { ASTVisitor } from '../../types/visitor';
+
+/**
+ * `@deprecated` directives should explain the deprecation by a non-empty
+ * `reason`.
+ */
+export const DeprecationReasonRule = (
+  ctx: IrisValidationContext,
+): ASTVisitor => ({
+  enter(node) {
+    if (!('directives' in node) || !node.directives || !('name' in node)) {
+      return;
+    }
+
+    for (const directive of node.directives) {
+      if (directive.name.value !== 'deprecated') {
+        continue;
+      }
+
+      const reason = directive.arguments?.find(
+        (arg) => arg.name.value === 'reason',
+      );
+
+      if (
+        reason?.value.kind !== Kind.STRING ||
+        reason.value.value.trim() === ''
+      ) {
+        ctx.reportError(
+          irisError(
+            `Deprecation of "${node.name.value}" should have a reason.`,
+            { nodes: directive },
+          ),
+        );
+      }
+    }
+  },
+});
@@ -0,0 +1,72 @@
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { TypeDefinitionNode, TypeExtensionNode } from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+
+// upper case names like `IMMORTAL` are not PascalCase.
+const isPascalCase = (name: string) =>
+  /^[A-Z][A-Za-z0-9]*$/.test(name) && (name.length === 1 || /[a-z]/.test(name));
+
+const isCamelCase = (name: string) => /^[a-z][A-Za-z0-9]*$/.test(name);
+
+/**
+ * Type and variant names are PascalCase, field and argument names are
+ * camelCase.
+ */
+export function NamingConventionRule(ctx: IrisValidationContext): ASTVisitor {
+  const checkVariants = (type: TypeDefinitionNode | TypeExtensionNode) => {
+    for (const variant of type.variants) {
+      const variantName = variant.name.value;
+
+      if (variantName !== type.name.value && !isPascalCase(variantName)) {
+        ctx.reportError(
+          irisError(
+            `Variant name "${variantName}" of "${type.name.value}" should be in PascalCase.`,
+            { nodes: variant.name },
+          ),
+        );
+      }
+
+      for (const field of variant.fields ?? []) {
+        const fieldPath = `${variantName}.${field.name.value}`;
+
+        if (!isCamelCase(field.name.value)) {
+          ctx.reportError(
+            irisError(`Field name "${fieldPath}" should be in camelCase.`, {
+              nodes: field.name,
+            }),
+          );
+        }
+
+        for (const arg of field.arguments ?? []) {
+          if (!isCamelCase(arg.name.value)) {
+            ctx.reportError(
+              irisError(
+                `Argument name "${fieldPath}(${arg.name.value}:)" should be in camelCase.`,
+                { nodes: arg.name },
+              ),
+            );
+          }
+        }
+      }
+    }
+
+    return false;
+  };
+
+  return {
+    TypeDefinition(type) {
+      if (!isPascalCase(type.name.value)) {
+        ctx.reportError(
+          irisError(`Type name "${type.name.value}" should be in PascalCase.`, {
+            nodes: type.name,
+          }),
+        );
+      }
+
+      return checkVariants(type);
+    },
+    TypeExtension: checkVariants,
+  };
+}
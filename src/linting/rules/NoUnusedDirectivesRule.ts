@@ -0,0 +1,42 @@
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { DirectiveDefinitionNode } from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+
+/**
+ * Directives defined in the document should be used at least once.
+ */
+export function NoUnusedDirectivesRule(ctx: IrisValidationContext): ASTVisitor {
+  const definitions: Array<DirectiveDefinitionNode> = [];
+  const usedNames = new Set<string>();
+
+  return {
+    // variants are not visited by their directives, so every node is checked
+    // like in UniqueDirectivesPerLocationRule.
+    enter(node) {
+      if ('directives' in node && node.directives) {
+        for (const directive of node.directives) {
+          usedNames.add(directive.name.value);
+        }
+      }
+    },
+    DirectiveDefinition(node) {
+      definitions.push(node);
+    },
+    Document: {
+      leave() {
+        for (const definition of definitions) {
+          if (!usedNames.has(definition.name.value)) {
+            ctx.reportError(
+              irisError(
+                `Directive "@${definition.name.value}" is never used.`,
+                { nodes: definition.name },
+              ),
+            );
+          }
+        }
+      },
+    },
+  };
+}
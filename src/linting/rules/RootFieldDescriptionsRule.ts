@@ -0,0 +1,41 @@
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { TypeDefinitionNode, TypeExtensionNode } from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription'];
+
+/**
+ * Fields of the resolver root types are the entry points of the API, so they
+ * should be documented.
+ */
+export function RootFieldDescriptionsRule(
+  ctx: IrisValidationContext,
+): ASTVisitor {
+  const checkFields = (type: TypeDefinitionNode | TypeExtensionNode) => {
+    if (type.role !== 'resolver' || !rootTypeNames.includes(type.name.value)) {
+      return false;
+    }
+
+    for (const variant of type.variants) {
+      for (const field of variant.fields ?? []) {
+        if (!field.description?.value.trim()) {
+          ctx.reportError(
+            irisError(
+              `Field "${variant.name.value}.${field.name.value}" should have a description.`,
+              { nodes: field.name },
+            ),
+          );
+        }
+      }
+    }
+
+    return false;
+  };
+
+  return {
+    TypeDefinition: checkFields,
+    TypeExtension: checkFields,
+  };
+}
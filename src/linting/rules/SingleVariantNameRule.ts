@@ -0,0 +1,33 @@
+import type { IrisValidationContext } from '../../validation/ValidationContext';
+
+import { irisError } from '../../error';
+import type { ASTVisitor } from '../../types/visitor';
+
+/**
+ * Data types with a single variant should use the type name for it, i.e.
+ * `data Filter = { ... }` instead of `data Filter = Options { ... }`.
+ * Variants including other types are not renamed.
+ */
+export const SingleVariantNameRule = (
+  ctx: IrisValidationContext,
+): ASTVisitor => ({
+  TypeDefinition(type) {
+    const [variant, ...rest] = type.variants;
+
+    if (
+      type.role === 'data' &&
+      variant?.fields &&
+      rest.length === 0 &&
+      variant.name.value !== type.name.value
+    ) {
+      ctx.reportError(
+        irisError(
+          `Data "${type.name.value}" has a single variant "${variant.name.value}", which should be named like the type.`,
+          { nodes: variant.name },
+        ),
+      );
+    }
+
+    return false;
+  },
+});
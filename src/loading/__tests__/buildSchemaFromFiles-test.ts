@@ -0,0 +1,234 @@
+import { printSchema } from '../../printing/printSchema';
+import { dedent } from '../../utils/dedent';
+import type { ObjMap } from '../../utils/ObjMap';
+
+import {
+  buildSchemaFromFiles,
+  loadSchemaFromFiles,
+} from '../buildSchemaFromFiles';
+
+const fileLoader = (files: ObjMap<string>) => ({
+  readFile: (path: string) => {
+    const content = files[path];
+    if (content === undefined) {
+      throw new Error(`file "${path}" does not exist`);
+    }
+    return content;
+  },
+});
+
+const buildFromFiles = (files: ObjMap<string>, entry = 'schema.iris') =>
+  buildSchemaFromFiles(entry, fileLoader(files));
+
+const expectBuildError = (files: ObjMap<string>) =>
+  expect(() => buildFromFiles(files));
+
+describe('buildSchemaFromFiles', () => {
+  it('resolves imports relative to the importing file', () => {
+    const schema = buildFromFiles({
+      'schema.iris': dedent`
+        import { Deity } from "./types/deities.iris"
+
+        resolver Query = {
+          deities: [Deity]
+        }
+      `,
+      'types/deities.iris': dedent`
+        import { Lifespan } from "../lifespan.iris"
+
+        resolver Deity = {
+          name: String
+          lifespan: Lifespan
+        }
+      `,
+      'lifespan.iris': 'data Lifespan = Immortal {} | Mortal {}',
+    });
+
+    expect(printSchema(schema)).toEqual(dedent`
+      data Lifespan = Immortal {} | Mortal {}
+
+      resolver Deity = {
+        name: String
+        lifespan: Lifespan
+      }
+
+      resolver Query = {
+        deities: [Deity]
+      }
+    `);
+  });
+
+  it('loads shared imports only once', () => {
+    const schema = buildFromFiles({
+      'schema.iris': dedent`
+        import { A } from "./a.iris"
+        import { B } from "./b.iris"
+
+        resolver Query = { a: A, b: B }
+      `,
+      'a.iris': dedent`
+        import { Shared } from "./shared.iris"
+        data A = { shared: Shared }
+      `,
+      'b.iris': dedent`
+        import { Shared } from "./shared.iris"
+        data B = { shared: Shared }
+      `,
+      'shared.iris': 'data Shared = String',
+    });
+
+    expect(Object.keys(schema.types)).toEqual(
+      expect.arrayContaining(['Query', 'A', 'B', 'Shared']),
+    );
+  });
+
+  it('accepts multiple entry files', () => {
+    const schema = buildSchemaFromFiles(
+      ['query.iris', 'mutation.iris'],
+      fileLoader({
+        'query.iris': 'resolver Query = { a: String }',
+        'mutation.iris': 'resolver Mutation = { b: String }',
+      }),
+    );
+
+    expect(Object.keys(schema.types)).toEqual(
+      expect.arrayContaining(['Query', 'Mutation']),
+    );
+  });
+
+  it('reports import cycles', () => {
+    expectBuildError({
+      'schema.iris': 'import { A } from "./a.iris"',
+      'a.iris': dedent`
+        import { B } from "./b.iris"
+        data A = { b: B? }
+      `,
+      'b.iris': dedent`
+        import { A } from "./a.iris"
+        data B = { a: A? }
+      `,
+    }).toThrow(
+      dedent`
+        Import cycle detected: a.iris -> b.iris -> a.iris.
+
+        b.iris:1:1
+        1 | import { A } from "./a.iris"
+          | ^
+        2 | data B = { a: A? }
+      `,
+    );
+  });
+
+  it('reports unknown imported names', () => {
+    expectBuildError({
+      'schema.iris': dedent`
+        import { LifeSpan } from "./lifespan.iris"
+      `,
+      'lifespan.iris': 'data Lifespan = Immortal {}',
+    }).toThrow(
+      dedent`
+        "lifespan.iris" has no definition named "LifeSpan". Did you mean "Lifespan"?
+
+        schema.iris:1:10
+        1 | import { LifeSpan } from "./lifespan.iris"
+          |          ^
+      `,
+    );
+  });
+
+  it('reports missing files', () => {
+    expectBuildError({
+      'schema.iris': 'import { A } from "./a.iris"',
+    }).toThrow(
+      dedent`
+        Cannot load "a.iris": file "a.iris" does not exist
+
+        schema.iris:1:19
+        1 | import { A } from "./a.iris"
+          |                   ^
+      `,
+    );
+  });
+
+  it('reports definitions declared by multiple files', () => {
+    expectBuildError({
+      'schema.iris': dedent`
+        import { A } from "./a.iris"
+        data A = String
+      `,
+      'a.iris': 'data A = Int',
+    }).toThrow(
+      dedent`
+        "A" is defined in both "a.iris" and "schema.iris".
+
+        a.iris:1:6
+        1 | data A = Int
+          |      ^
+
+        schema.iris:2:6
+        1 | import { A } from "./a.iris"
+        2 | data A = String
+          |      ^
+      `,
+    );
+  });
+
+  it('reports names used without importing them', () => {
+    expectBuildError({
+      'schema.iris': dedent`
+        import { A } from "./a.iris"
+        resolver Query = { a: A, b: B }
+      `,
+      'a.iris': dedent`
+        import { B } from "./b.iris"
+        data A = { b: B }
+      `,
+      'b.iris': 'data B = String',
+    }).toThrow(
+      dedent`
+        "B" is defined in "b.iris", but not imported by "schema.iris".
+
+        schema.iris:2:29
+        1 | import { A } from "./a.iris"
+        2 | resolver Query = { a: A, b: B }
+          |                             ^
+      `,
+    );
+  });
+
+  it('reports validation errors with source of definitions', () => {
+    expectBuildError({
+      'schema.iris': dedent`
+        import { A } from "./a.iris"
+        resolver Query = { a: A }
+      `,
+      'a.iris': 'data A = { b: Missing }',
+    }).toThrow(
+      dedent`
+        Unknown type "Missing".
+
+        a.iris:1:15
+        1 | data A = { b: Missing }
+          |               ^
+      `,
+    );
+  });
+
+  it('returns errors of all files without throwing', () => {
+    const { schema, errors } = loadSchemaFromFiles(
+      ['a.iris', 'b.iris'],
+      fileLoader({
+        'a.iris': 'data A = { b: Missing }',
+        'b.iris': 'data B = { a: Unknown }',
+      }),
+    );
+
+    expect(schema).toBeUndefined();
+    expect(
+      errors.map(({ message, source }) => [source?.name, message]),
+    ).toEqual([
+      ['a.iris', 'Unknown type "Missing".'],
+      ['b.iris', 'Unknown type "Unknown".'],
+    ]);
+  });
+});
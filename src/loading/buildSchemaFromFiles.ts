@@ -0,0 +1,324 @@
+import { Source } from 'graphql';
+
+import { validateSDL } from '../validation/validate';
+
+import type { IrisError } from '../error';
+import { irisError } from '../error';
+import { parse } from '../parsing';
+import type {
+  DefinitionNode,
+  DocumentNode,
+  ImportDefinitionNode,
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+} from '../types/ast';
+import {
+  getTypeParameters,
+  isImportDefinitionNode,
+  isTypeSystemDefinitionNode,
+} from '../types/ast';
+import { IrisKind } from '../types/kinds';
+import type { IrisSchema } from '../types/schema';
+import { buildASTSchema } from '../types/schema';
+import { visit } from '../types/visitor';
+import { didYouMean, suggestionList } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+
+export type SchemaFileLoader = {
+  /**
+   * Returns the content of the file with the given path.
+   */
+  readFile: (path: string) => string;
+  /**
+   * Resolves the path of the imported file relative to the importing file.
+   * By default relative paths (e.g. `./deities.iris`) are resolved from the
+   * directory of the importing file, other paths are used as they are.
+   */
+  resolvePath?: (importPath: string, importer: string) => string;
+};
+
+type LoadedFile = {
+  path: string;
+  document: DocumentNode;
+};
+
+const defaultResolvePath = (importPath: string, importer: string): string => {
+  if (!importPath.startsWith('.')) {
+    return importPath;
+  }
+
+  const segments = importer.split('/').slice(0, -1);
+  for (const segment of importPath.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.' && segment !== '') {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+};
+
+const printErrors = (errors: ReadonlyArray<IrisError>): string =>
+  errors.map(String).join('\n\n');
+
+export type LoadSchemaResult = {
+  schema?: IrisSchema;
+  errors: ReadonlyArray<IrisError>;
+};
+
+/**
+ * Loads entry files with all of their (transitive) imports and builds a single
+ * schema of all loaded definitions.
+ *
+ * Throws an error if some files could not be loaded, imports are cyclic,
+ * imported names are not defined in the imported file, a definition is
+ * declared by multiple files or the merged schema is not valid. Error messages
+ * contain the locations in the originating files.
+ */
+export function buildSchemaFromFiles(
+  entries: string | ReadonlyArray<string>,
+  loader: SchemaFileLoader,
+): IrisSchema {
+  const { schema, errors } = loadSchemaFromFiles(entries, loader);
+
+  if (!schema) {
+    throw new Error(printErrors(errors));
+  }
+
+  return schema;
+}
+
+/**
+ * Like `buildSchemaFromFiles`, but returns the errors instead of throwing
+ * them. The schema is only returned, if there are no errors.
+ */
+export function loadSchemaFromFiles(
+  entries: string | ReadonlyArray<string>,
+  loader: SchemaFileLoader,
+): LoadSchemaResult {
+  const resolvePath = loader.resolvePath ?? defaultResolvePath;
+  const errors: Array<IrisError> = [];
+  const files: ObjMap<LoadedFile> = {};
+  const loadOrder: Array<LoadedFile> = [];
+
+  const loadFile = (
+    path: string,
+    importers: ReadonlyArray<string>,
+    importNode?: ImportDefinitionNode,
+  ): LoadedFile | undefined => {
+    if (importers.includes(path)) {
+      const cycle = [...importers.slice(importers.indexOf(path)), path];
+      errors.push(
+        irisError(`Import cycle detected: ${cycle.join(' -> ')}.`, {
+          nodes: importNode,
+        }),
+      );
+      return undefined;
+    }
+
+    if (files[path]) {
+      return files[path];
+    }
+
+    let document: DocumentNode;
+    try {
+      document = parse(new Source(loader.readFile(path), path));
+    } catch (error) {
+      errors.push(
+        importNode
+          ? irisError(`Cannot load "${path}": ${error.message}`, {
+              nodes: importNode.path,
+            })
+          : error,
+      );
+      return undefined;
+    }
+
+    const file = { path, document };
+    files[path] = file;
+
+    for (const def of document.definitions) {
+      if (isImportDefinitionNode(def)) {
+        const imported = loadFile(
+          resolvePath(def.path.value, path),
+          [...importers, path],
+          def,
+        );
+
+        if (imported) {
+          checkImportedNames(imported, def.names);
+        }
+      }
+    }
+
+    loadOrder.push(file);
+    return file;
+  };
+
+  const checkImportedNames = (
+    file: LoadedFile,
+    names: ReadonlyArray<NameNode>,
+  ) => {
+    const definedNames = definitionNames(file.document.definitions);
+
+    for (const name of names) {
+      if (!definedNames.includes(name.value)) {
+        errors.push(
+          irisError(
+            `"${file.path}" has no definition named "${name.value}".` +
+              didYouMean(suggestionList(name.value, definedNames)),
+            { nodes: name },
+          ),
+        );
+      }
+    }
+  };
+
+  for (const entry of typeof entries === 'string' ? [entries] : entries) {
+    loadFile(entry, []);
+  }
+
+  errors.push(...findDuplicateDefinitions(loadOrder));
+
+  if (errors.length !== 0) {
+    return { errors };
+  }
+
+  const documentAST: DocumentNode = {
+    kind: IrisKind.DOCUMENT,
+    definitions: loadOrder.flatMap(({ document }) =>
+      document.definitions.filter((def) => !isImportDefinitionNode(def)),
+    ),
+  };
+
+  // paths of the files defining a name
+  const definedIn: ObjMap<string> = {};
+  for (const { path, document } of loadOrder) {
+    for (const name of definitionNames(document.definitions)) {
+      definedIn[name] = path;
+    }
+  }
+
+  for (const file of loadOrder) {
+    errors.push(...findNamesNotImported(file, definedIn, documentAST));
+  }
+
+  if (errors.length !== 0) {
+    return { errors };
+  }
+
+  const validationErrors = validateSDL(documentAST);
+
+  if (validationErrors.length !== 0) {
+    return { errors: validationErrors };
+  }
+
+  return {
+    schema: buildASTSchema(documentAST, { assumeValidSDL: true }),
+    errors: [],
+  };
+}
+
+const definitionNames = (
+  definitions: ReadonlyArray<DefinitionNode>,
+): Array<string> =>
+  definitions.filter(isTypeSystemDefinitionNode).map((def) => def.name.value);
+
+// files see only their own definitions and the names they import. Names
+// that are not defined by any file are reported by the validation.
+const findNamesNotImported = (
+  file: LoadedFile,
+  definedIn: ObjMap<string>,
+  documentAST: DocumentNode,
+): Array<IrisError> => {
+  const { definitions } = file.document;
+  const visibleNames = new Set([
+    ...definitionNames(definitions),
+    ...definitions
+      .filter(isImportDefinitionNode)
+      .flatMap(({ names }) => names.map(({ value }) => value)),
+  ]);
+  const errors: Array<IrisError> = [];
+
+  // type parameters of the currently visited type definition or extension
+  let parameters: ReadonlyArray<NameNode> = [];
+
+  const checkName = (name: NameNode) => {
+    const path = definedIn[name.value];
+
+    if (
+      path !== undefined &&
+      !visibleNames.has(name.value) &&
+      !parameters.some(({ value }) => value === name.value)
+    ) {
+      errors.push(
+        irisError(
+          `"${name.value}" is defined in "${path}", but not imported by "${file.path}".`,
+          { nodes: name },
+        ),
+      );
+    }
+  };
+
+  const typeVisitor = {
+    enter(type: TypeDefinitionNode | TypeExtensionNode) {
+      parameters = getTypeParameters(documentAST.definitions, type);
+    },
+    leave() {
+      parameters = [];
+    },
+  };
+
+  visit(file.document, {
+    TypeDefinition: typeVisitor,
+    TypeExtension: {
+      enter(extension) {
+        typeVisitor.enter(extension);
+        checkName(extension.name);
+      },
+      leave: typeVisitor.leave,
+    },
+    NamedType: (node) => checkName(node.name),
+    // variants without fields include the type with their name.
+    VariantDefinition: (node) =>
+      node.fields ? undefined : checkName(node.name),
+    Directive: (node) => checkName(node.name),
+  });
+
+  return errors;
+};
+
+// duplicates inside of a single file are reported by the validation.
+const findDuplicateDefinitions = (
+  files: ReadonlyArray<LoadedFile>,
+): Array<IrisError> => {
+  const definedIn: ObjMap<[LoadedFile, NameNode]> = {};
+  const errors: Array<IrisError> = [];
+
+  for (const file of files) {
+    for (const def of file.document.definitions) {
+      if (!isTypeSystemDefinitionNode(def)) {
+        continue;
+      }
+
+      // types and directives have separate namespaces
+      const key = `${def.kind}:${def.name.value}`;
+      const [otherFile, otherName] = definedIn[key] ?? [];
+
+      if (!otherFile || !otherName) {
+        definedIn[key] = [file, def.name];
+      } else if (otherFile !== file) {
+        errors.push(
+          irisError(
+            `"${def.name.value}" is defined in both "${otherFile.path}" and "${file.path}".`,
+            { nodes: [otherName, def.name] },
+          ),
+        );
+      }
+    }
+  }
+
+  return errors;
+};
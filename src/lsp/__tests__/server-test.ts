@@ -0,0 +1,369 @@
+import type {
+  CompletionItem,
+  DocumentSymbol,
+  Message,
+  Position,
+  ResponseMessage,
+} from '../protocol';
+import type { LanguageServerOptions } from '../server';
+import { createLanguageServer } from '../server';
+import {
+  createMessageReader,
+  encodeMessage,
+  startLanguageServer,
+} from '../stdio';
+
+const uri = 'file:///deities.iris';
+
+const source = `"""
+lifespan of a deity
+"""
+data Lifespan
+  = Immortal {}
+  | Limited { max: Int? }
+
+directive @legacy(reason: String) on FIELD_DEFINITION
+
+resolver God = {
+  "name of the god"
+  name: String
+  lifespan: Lifespan @legacy(reason: "Use age")
+}
+
+resolver Deity = God | Titan { name: String }
+
+resolver Query = {
+  "All deities"
+  deities(lifespan: Lifespan = Immortal): [Deity]
+}
+`;
+
+const positionOf = (text: string, search: string, occurrence = 0) => {
+  let offset = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    offset = text.indexOf(search, offset + 1);
+  }
+  const lines = text.slice(0, offset).split('\n');
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+};
+
+const startServer = (options: Partial<LanguageServerOptions> = {}) => {
+  const sent: Array<Message> = [];
+  const server = createLanguageServer({
+    send: (message) => sent.push(message),
+    ...options,
+  });
+  let id = 0;
+
+  const notify = (method: string, params?: unknown) =>
+    server.handleMessage({ jsonrpc: '2.0', method, params });
+
+  const request = (method: string, params?: unknown) => {
+    const requestId = ++id;
+    server.handleMessage({ jsonrpc: '2.0', id: requestId, method, params });
+    return sent.find(
+      (message): message is ResponseMessage =>
+        'id' in message && message.id === requestId,
+    );
+  };
+
+  const open = (text: string) =>
+    notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'iris', version: 1, text },
+    });
+
+  const at = (method: string, position: Position, params = {}) =>
+    request(method, { textDocument: { uri }, position, ...params })?.result;
+
+  const diagnostics = () =>
+    sent.flatMap((message) =>
+      'method' in message &&
+      message.method === 'textDocument/publishDiagnostics'
+        ? [message.params]
+        : [],
+    );
+
+  return { sent, notify, request, open, at, diagnostics };
+};
+
+const labels = (items: unknown) =>
+  (items as Array<CompletionItem>).map(({ label }) => label);
+
+describe('Language Server', () => {
+  it('initializes with its capabilities', () => {
+    expect(startServer().request('initialize', {})).toMatchObject({
+      id: 1,
+      result: {
+        capabilities: {
+          hoverProvider: true,
+          definitionProvider: true,
+          referencesProvider: true,
+          documentSymbolProvider: true,
+        },
+        serverInfo: { name: 'iris' },
+      },
+    });
+  });
+
+  it('publishes diagnostics on open and change', () => {
+    const server = startServer();
+    server.open(source);
+    server.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [
+        { text: 'resolver Query = {\n  "All gods"\n  gods: [God]\n}' },
+      ],
+    });
+    server.notify('textDocument/didChange', {
+      textDocument: { uri, version: 3 },
+      contentChanges: [{ text: 'resolver Query = {\n  gods: [String\n}' }],
+    });
+    server.notify('textDocument/didClose', { textDocument: { uri } });
+
+    expect(server.diagnostics()).toMatchSnapshot();
+  });
+
+  it('publishes schema build errors at their locations', () => {
+    const server = startServer({ lint: false });
+    server.open(
+      'data Lifespan = Immortal {} | Limited {}\n' +
+        'resolver Query = {\n  gods(lifespan: Lifespan = Mortal): [String]\n}',
+    );
+
+    expect(server.diagnostics()).toMatchObject([
+      {
+        diagnostics: [
+          {
+            range: {
+              start: { line: 2, character: 28 },
+              end: { line: 2, character: 34 },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('publishes lint findings as warnings', () => {
+    const server = startServer({
+      lint: { rules: { 'root-field-descriptions': 'error' } },
+    });
+    server.open('resolver Query = {\n  all_gods: [String]\n}');
+
+    expect(server.diagnostics()).toMatchSnapshot();
+  });
+
+  it('shows descriptions and JSDoc on hover', () => {
+    const server = startServer();
+    server.open(source);
+    const hover = (search: string, occurrence?: number) =>
+      server.at(
+        'textDocument/hover',
+        positionOf(source, search, occurrence),
+      ) as { contents: { value: string } } | null;
+
+    expect(hover('Lifespan', 1)).toMatchSnapshot();
+    expect(hover('name: String')?.contents.value).toEqual(
+      '```iris\nGod.name: String\n```\n\nname of the god',
+    );
+    expect(hover('legacy(reason: "')?.contents.value).toEqual(
+      '```iris\ndirective @legacy\n```',
+    );
+    expect(hover('Limited')?.contents.value).toEqual(
+      '```iris\nLifespan.Limited\n```',
+    );
+    expect(hover('String')?.contents.value).toContain('data String');
+    expect(hover('lifespan of')).toEqual(null);
+  });
+
+  it('completes types, variants, directives and locations', () => {
+    const text = [
+      'directive @legacy on FIELD_DEFINITION',
+      'directive @other on FIELD_DEFINITION | ',
+      'data Lifespan = Immortal {} | Limited {}',
+      'resolver Query = {',
+      '  deities(lifespan: Lifespan = ',
+      '  gods: String @',
+      '  titans: ',
+    ].join('\n');
+    const server = startServer();
+    server.open(text);
+    const complete = (line: number, character: number) =>
+      labels(server.at('textDocument/completion', { line, character }) ?? []);
+
+    expect(complete(1, 40)).toContain('VARIANT_DEFINITION');
+    expect(complete(4, 31)).toEqual(['Immortal', 'Limited']);
+    expect(complete(5, 16)).toEqual(['deprecated', 'legacy']);
+    // the unfinished Query is not part of the recovered document
+    expect(complete(6, 10)).toEqual([
+      'String',
+      'Int',
+      'Float',
+      'Boolean',
+      'ID',
+      'Lifespan',
+    ]);
+    expect(complete(3, 10)).toEqual([]);
+  });
+
+  it('finds definitions and references of types', () => {
+    const server = startServer();
+    server.open(source);
+    const lines = (locations: unknown) =>
+      (locations as Array<{ range: { start: Position } }>).map(
+        ({ range }) => range.start,
+      );
+
+    expect(
+      server.at('textDocument/definition', positionOf(source, 'Deity]')),
+    ).toEqual([
+      {
+        uri,
+        range: {
+          start: { line: 15, character: 9 },
+          end: { line: 15, character: 14 },
+        },
+      },
+    ]);
+    expect(
+      lines(server.at('textDocument/references', positionOf(source, 'God |'))),
+    ).toEqual([{ line: 15, character: 17 }]);
+    expect(
+      lines(
+        server.at('textDocument/references', positionOf(source, 'Lifespan'), {
+          context: { includeDeclaration: true },
+        }),
+      ),
+    ).toEqual([
+      { line: 3, character: 5 },
+      { line: 12, character: 12 },
+      { line: 19, character: 20 },
+    ]);
+    expect(
+      lines(
+        server.at(
+          'textDocument/references',
+          positionOf(source, 'legacy(reason: String)'),
+        ),
+      ),
+    ).toEqual([{ line: 12, character: 22 }]);
+  });
+
+  it('outlines types, variants and fields', () => {
+    const server = startServer();
+    server.open(source);
+    const outline = (symbols: ReadonlyArray<DocumentSymbol> = []): unknown =>
+      symbols.map(({ name, detail, children }) =>
+        children?.length ? [name, detail, outline(children)] : [name, detail],
+      );
+
+    expect(
+      outline(
+        server.request('textDocument/documentSymbol', {
+          textDocument: { uri },
+        })?.result as Array<DocumentSymbol>,
+      ),
+    ).toEqual([
+      [
+        'Lifespan',
+        'data',
+        [
+          ['Immortal', undefined],
+          ['Limited', undefined, [['max', 'Int?']]],
+        ],
+      ],
+      [
+        'God',
+        'resolver',
+        [
+          ['name', 'String'],
+          ['lifespan', 'Lifespan'],
+        ],
+      ],
+      [
+        'Deity',
+        'resolver',
+        [
+          ['God', undefined],
+          ['Titan', undefined, [['name', 'String']]],
+        ],
+      ],
+      ['Query', 'resolver', [['deities', '[Deity]']]],
+    ]);
+  });
+
+  it('rejects unknown methods and exits after shutdown', () => {
+    const onExit = jest.fn();
+    const server = startServer({ onExit });
+
+    expect(server.request('textDocument/rename', {})).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: {
+        code: -32601,
+        message: 'Unknown method "textDocument/rename".',
+      },
+    });
+    expect(server.request('shutdown')).toEqual({
+      jsonrpc: '2.0',
+      id: 2,
+      result: null,
+    });
+    server.notify('exit');
+    expect(onExit).toHaveBeenCalledWith(0);
+  });
+
+  it('reads and writes messages framed by Content-Length', async () => {
+    const messages = [
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} },
+      {
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: {
+          textDocument: {
+            uri,
+            version: 1,
+            text: 'resolver Query = {\n  "Gods — all of them"\n  gods: [Giant]\n}',
+          },
+        },
+      },
+    ] as const;
+    const input = messages.map(encodeMessage).join('');
+    const chunks = [input.slice(0, 30), input.slice(30, 190), input.slice(190)];
+
+    let output = '';
+    await startLanguageServer(
+      {
+        setEncoding: () => undefined,
+        async *[Symbol.asyncIterator]() {
+          await Promise.resolve();
+          yield* chunks;
+        },
+      },
+      { write: (chunk: string) => (output += chunk) },
+    );
+
+    const received: Array<Message> = [];
+    createMessageReader(
+      (message) => received.push(message),
+      (error) => {
+        throw error;
+      },
+    )(output);
+
+    expect(received).toMatchObject([
+      { id: 1, result: { serverInfo: { name: 'iris' } } },
+      {
+        method: 'textDocument/publishDiagnostics',
+        params: {
+          diagnostics: [
+            {
+              message: 'Unknown type "Giant". Did you mean "Int"?',
+              severity: 1,
+            },
+          ],
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { IrisScalars } from '../types/definition';
+import { IrisDirectiveLocation } from '../types/directiveLocation';
+import { specifiedDirectives } from '../types/directives';
+import { IrisKind } from '../types/kinds';
+
+import { findTypeDefinition } from './findSymbol';
+import type { CompletionItem, Position } from './protocol';
+import { CompletionItemKind } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { offsetAt } from './textDocument';
+
+const directiveNames = ({
+  document,
+}: IrisTextDocument): Array<CompletionItem> => [
+  ...specifiedDirectives.map(({ name, description }) => ({
+    label: name,
+    kind: CompletionItemKind.Function,
+    detail: `@${name}`,
+    documentation: description ?? undefined,
+  })),
+  ...document.definitions.flatMap((definition) =>
+    definition.kind === IrisKind.DIRECTIVE_DEFINITION
+      ? [
+          {
+            label: definition.name.value,
+            kind: CompletionItemKind.Function,
+            detail: `@${definition.name.value}`,
+            documentation: definition.description?.value,
+          },
+        ]
+      : [],
+  ),
+];
+
+const directiveLocations = (): Array<CompletionItem> =>
+  Object.values(IrisDirectiveLocation).map((location) => ({
+    label: location,
+    kind: CompletionItemKind.EnumMember,
+  }));
+
+const typeNames = ({ document }: IrisTextDocument): Array<CompletionItem> => [
+  ...Object.values(IrisScalars).map(({ name, description }) => ({
+    label: name,
+    kind: CompletionItemKind.Struct,
+    detail: `data ${name}`,
+    documentation: description ?? undefined,
+  })),
+  ...document.definitions.flatMap((definition) =>
+    definition.kind === IrisKind.TYPE_DEFINITION
+      ? [
+          {
+            label: definition.name.value,
+            kind:
+              definition.role === 'data'
+                ? CompletionItemKind.Struct
+                : CompletionItemKind.Class,
+            detail: `${definition.role} ${definition.name.value}`,
+            documentation: definition.description?.value,
+          },
+        ]
+      : [],
+  ),
+];
+
+const variantNames = (
+  { document }: IrisTextDocument,
+  typeName: string,
+): Array<CompletionItem> =>
+  (findTypeDefinition(document, typeName)?.variants ?? []).map(
+    ({ name, description }) => ({
+      label: name.value,
+      kind: CompletionItemKind.EnumMember,
+      detail: `${typeName}.${name.value}`,
+      documentation: description?.value,
+    }),
+  );
+
+/**
+ * Completes names by the text before the cursor: directive names after `@`,
+ * locations in directive definitions, variants in default values of
+ * arguments and type names in type positions.
+ */
+export const getCompletions = (
+  textDocument: IrisTextDocument,
+  position: Position,
+): Array<CompletionItem> => {
+  const before = textDocument.text.slice(0, offsetAt(textDocument, position));
+  const line = before.slice(before.lastIndexOf('\n') + 1);
+
+  if (/@\w*$/.test(line)) {
+    return directiveNames(textDocument);
+  }
+
+  const directiveDefinition = before.slice(before.lastIndexOf('directive'));
+  if (
+    /^directive\s+@\w+\s*(\([^)]*\))?\s*(repeatable\s+)?on\s+(\|\s*)?(\w+\s*\|\s*)*\w*$/.test(
+      directiveDefinition,
+    )
+  ) {
+    return directiveLocations();
+  }
+
+  const defaultValue = /(\w+)\s*\??\s*=\s*\w*$/.exec(line);
+  if (defaultValue && line.lastIndexOf('(') > line.lastIndexOf(')')) {
+    return variantNames(textDocument, defaultValue[1]);
+  }
+
+  if (/(\bextend\s+(data|resolver)\s|[:[|=])\s*\w*$/.test(line)) {
+    return typeNames(textDocument);
+  }
+
+  return [];
+};
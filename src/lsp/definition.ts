@@ -0,0 +1,73 @@
+import type { NameNode } from '../types/ast';
+import type { Maybe } from '../utils/type-level';
+
+import {
+  collectSymbols,
+  findDirectiveDefinition,
+  findSymbolAt,
+  findTypeDefinition,
+} from './findSymbol';
+import type { Location, Position } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { offsetAt, rangeOf } from './textDocument';
+
+const locationOf = (
+  textDocument: IrisTextDocument,
+  name: Maybe<NameNode>,
+): Array<Location> =>
+  name?.loc
+    ? [{ uri: textDocument.uri, range: rangeOf(textDocument, name.loc) }]
+    : [];
+
+/**
+ * Locates the definition of the type or directive at the position.
+ */
+export const getDefinition = (
+  textDocument: IrisTextDocument,
+  position: Position,
+): Array<Location> => {
+  const { document } = textDocument;
+  const symbol = findSymbolAt(document, offsetAt(textDocument, position));
+
+  switch (symbol?.kind) {
+    case 'type':
+      return locationOf(
+        textDocument,
+        findTypeDefinition(document, symbol.name.value)?.name,
+      );
+    case 'directive':
+      return locationOf(
+        textDocument,
+        findDirectiveDefinition(document, symbol.name.value)?.name,
+      );
+    default:
+      return [];
+  }
+};
+
+/**
+ * Locates all usages of the type or directive at the position.
+ */
+export const getReferences = (
+  textDocument: IrisTextDocument,
+  position: Position,
+  includeDeclaration: boolean,
+): Array<Location> => {
+  const symbol = findSymbolAt(
+    textDocument.document,
+    offsetAt(textDocument, position),
+  );
+
+  if (symbol?.kind !== 'type' && symbol?.kind !== 'directive') {
+    return [];
+  }
+
+  return collectSymbols(textDocument.document)
+    .filter(
+      (other) =>
+        other.kind === symbol.kind &&
+        other.name.value === symbol.name.value &&
+        (includeDeclaration || !other.isDefinition),
+    )
+    .flatMap(({ name }) => locationOf(textDocument, name));
+};
@@ -0,0 +1,72 @@
+import { Source } from 'graphql';
+
+import type { IrisError } from '../error';
+import type { LintOptions } from '../linting/lintSDL';
+import { lintSDL } from '../linting/lintSDL';
+
+import type { Diagnostic, Range } from './protocol';
+import { DiagnosticSeverity } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { offsetAt, rangeAt, rangeOf, wordRangeAt } from './textDocument';
+
+const errorRange = (
+  textDocument: IrisTextDocument,
+  error: IrisError,
+): Range => {
+  const loc = error.nodes?.[0]?.loc;
+
+  if (loc) {
+    return rangeOf(textDocument, loc);
+  }
+
+  const position = error.positions?.[0];
+
+  return position === undefined
+    ? rangeAt(textDocument, 0, 0)
+    : wordRangeAt(textDocument, position);
+};
+
+const lintDiagnostics = (
+  textDocument: IrisTextDocument,
+  options: LintOptions,
+): Array<Diagnostic> =>
+  lintSDL(new Source(textDocument.text, textDocument.uri), options).map(
+    ({ rule, severity, message, location }) => ({
+      range: location
+        ? wordRangeAt(
+            textDocument,
+            offsetAt(textDocument, {
+              line: location.line - 1,
+              character: location.column - 1,
+            }),
+          )
+        : rangeAt(textDocument, 0, 0),
+      severity:
+        severity === 'error'
+          ? DiagnosticSeverity.Error
+          : DiagnosticSeverity.Warning,
+      source: 'iris',
+      message,
+      code: rule,
+    }),
+  );
+
+/**
+ * Syntax, validation and schema errors of the document, followed by lint
+ * findings if the document could be parsed. Linting is disabled by `false`.
+ */
+export const getDiagnostics = (
+  textDocument: IrisTextDocument,
+  lint: LintOptions | false = {},
+): Array<Diagnostic> => {
+  const errors = textDocument.errors.map((error) => ({
+    range: errorRange(textDocument, error),
+    severity: DiagnosticSeverity.Error,
+    source: 'iris',
+    message: error.message,
+  }));
+
+  return lint && !textDocument.hasSyntaxErrors
+    ? [...errors, ...lintDiagnostics(textDocument, lint)]
+    : errors;
+};
@@ -0,0 +1,91 @@
+import type {
+  FieldDefinitionNode,
+  NameNode,
+  TypeDefinitionNode,
+  VariantDefinitionNode,
+} from '../types/ast';
+import { isTypeVariantNode } from '../types/ast';
+import { IrisKind } from '../types/kinds';
+
+import type { DocumentSymbol } from './protocol';
+import { SymbolKind } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { rangeOf } from './textDocument';
+
+type NamedNode = {
+  readonly name: NameNode;
+  readonly loc?: TypeDefinitionNode['loc'];
+};
+
+const documentSymbol = (
+  textDocument: IrisTextDocument,
+  node: NamedNode,
+  kind: number,
+  detail?: string,
+  children?: Array<DocumentSymbol>,
+): Array<DocumentSymbol> =>
+  node.loc && node.name.loc
+    ? [
+        {
+          name: node.name.value,
+          detail,
+          kind,
+          range: rangeOf(textDocument, node.loc),
+          selectionRange: rangeOf(textDocument, node.name.loc),
+          children,
+        },
+      ]
+    : [];
+
+const fieldSymbols = (
+  textDocument: IrisTextDocument,
+  fields: ReadonlyArray<FieldDefinitionNode> = [],
+) =>
+  fields.flatMap((field) =>
+    documentSymbol(
+      textDocument,
+      field,
+      SymbolKind.Field,
+      field.type.loc &&
+        textDocument.text.slice(field.type.loc.start, field.type.loc.end),
+    ),
+  );
+
+const variantSymbol = (
+  textDocument: IrisTextDocument,
+  variant: VariantDefinitionNode,
+) =>
+  documentSymbol(
+    textDocument,
+    variant,
+    SymbolKind.EnumMember,
+    undefined,
+    fieldSymbols(textDocument, variant.fields),
+  );
+
+// fields of variant types (e.g. `data Filter = { ... }`) are listed directly
+// under the type.
+const typeSymbol = (textDocument: IrisTextDocument, type: TypeDefinitionNode) =>
+  documentSymbol(
+    textDocument,
+    type,
+    type.role === 'data' ? SymbolKind.Struct : SymbolKind.Class,
+    type.role,
+    isTypeVariantNode(type)
+      ? fieldSymbols(textDocument, type.variants[0]?.fields)
+      : type.variants.flatMap((variant) =>
+          variantSymbol(textDocument, variant),
+        ),
+  );
+
+/**
+ * Outlines type definitions with their variants and fields.
+ */
+export const getDocumentSymbols = (
+  textDocument: IrisTextDocument,
+): Array<DocumentSymbol> =>
+  textDocument.document.definitions.flatMap((definition) =>
+    definition.kind === IrisKind.TYPE_DEFINITION
+      ? typeSymbol(textDocument, definition)
+      : [],
+  );
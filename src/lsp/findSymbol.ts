@@ -0,0 +1,146 @@
+import type {
+  ConstDirectiveNode,
+  DirectiveDefinitionNode,
+  DocumentNode,
+  FieldDefinitionNode,
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+  TypeNode,
+  VariantDefinitionNode,
+} from '../types/ast';
+import { IrisKind } from '../types/kinds';
+import type { Maybe } from '../utils/type-level';
+
+/**
+ * Named parts of a document, which can be hovered or referenced. Types are
+ * referenced by `NamedTypeNode`s, included variants, extensions and imports.
+ */
+export type IrisSymbol =
+  | { kind: 'type'; name: NameNode; isDefinition: boolean }
+  | { kind: 'directive'; name: NameNode; isDefinition: boolean }
+  | {
+      kind: 'variant';
+      name: NameNode;
+      type: TypeDefinitionNode | TypeExtensionNode;
+      variant: VariantDefinitionNode;
+    }
+  | {
+      kind: 'field';
+      name: NameNode;
+      variant: VariantDefinitionNode;
+      field: FieldDefinitionNode;
+    };
+
+const typeRefSymbols = (type: TypeNode): Array<IrisSymbol> => {
+  switch (type.kind) {
+    case IrisKind.NAMED_TYPE:
+      return [
+        { kind: 'type', name: type.name, isDefinition: false },
+        ...(type.arguments ?? []).flatMap(typeRefSymbols),
+      ];
+    default:
+      return typeRefSymbols(type.type);
+  }
+};
+
+const directiveSymbols = (
+  directives: Maybe<ReadonlyArray<ConstDirectiveNode>>,
+): Array<IrisSymbol> =>
+  (directives ?? []).map(({ name }) => ({
+    kind: 'directive',
+    name,
+    isDefinition: false,
+  }));
+
+const fieldSymbols = (
+  variant: VariantDefinitionNode,
+  field: FieldDefinitionNode,
+): Array<IrisSymbol> => [
+  { kind: 'field', name: field.name, variant, field },
+  ...typeRefSymbols(field.type),
+  ...directiveSymbols(field.directives),
+  ...(field.arguments ?? []).flatMap((arg) => [
+    ...typeRefSymbols(arg.type),
+    ...directiveSymbols(arg.directives),
+  ]),
+];
+
+const variantSymbols = (
+  type: TypeDefinitionNode | TypeExtensionNode,
+  variant: VariantDefinitionNode,
+): Array<IrisSymbol> => [
+  variant.fields
+    ? { kind: 'variant', name: variant.name, type, variant }
+    : { kind: 'type', name: variant.name, isDefinition: false },
+  ...directiveSymbols(variant.directives),
+  ...(variant.fields ?? []).flatMap((field) => fieldSymbols(variant, field)),
+];
+
+/**
+ * Collects all symbols of the document in the order of their appearance.
+ */
+export const collectSymbols = (document: DocumentNode): Array<IrisSymbol> =>
+  document.definitions.flatMap((definition): Array<IrisSymbol> => {
+    switch (definition.kind) {
+      case IrisKind.TYPE_DEFINITION:
+      case IrisKind.TYPE_EXTENSION:
+        return [
+          {
+            kind: 'type',
+            name: definition.name,
+            isDefinition: definition.kind === IrisKind.TYPE_DEFINITION,
+          },
+          ...directiveSymbols(definition.directives),
+          ...definition.variants.flatMap((variant) =>
+            variantSymbols(definition, variant),
+          ),
+        ];
+      case IrisKind.DIRECTIVE_DEFINITION:
+        return [
+          { kind: 'directive', name: definition.name, isDefinition: true },
+          ...(definition.arguments ?? []).flatMap((arg) =>
+            typeRefSymbols(arg.type),
+          ),
+        ];
+      case IrisKind.IMPORT_DEFINITION:
+        return definition.names.map((name) => ({
+          kind: 'type',
+          name,
+          isDefinition: false,
+        }));
+      default:
+        return [];
+    }
+  });
+
+/**
+ * Finds the symbol, whose name contains the offset.
+ */
+export const findSymbolAt = (
+  document: DocumentNode,
+  offset: number,
+): IrisSymbol | undefined =>
+  collectSymbols(document).find(
+    ({ name: { loc } }) => loc && loc.start <= offset && offset <= loc.end,
+  );
+
+export const findTypeDefinition = (
+  document: DocumentNode,
+  name: string,
+): TypeDefinitionNode | undefined =>
+  document.definitions.find(
+    (definition): definition is TypeDefinitionNode =>
+      definition.kind === IrisKind.TYPE_DEFINITION &&
+      definition.name.value === name,
+  );
+
+export const findDirectiveDefinition = (
+  document: DocumentNode,
+  name: string,
+): DirectiveDefinitionNode | undefined =>
+  document.definitions.find(
+    (definition): definition is DirectiveDefinitionNode =>
+      definition.kind === IrisKind.DIRECTIVE_DEFINITION &&
+      definition.name.value === name,
+  );
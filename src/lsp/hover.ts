@@ -0,0 +1,121 @@
+import { toJSODoc } from '../printing/jsDoc';
+import type { Location } from '../types/ast';
+import type { IrisTypeDefinition } from '../types/definition';
+import { IrisScalars } from '../types/definition';
+import { specifiedDirectives } from '../types/directives';
+import type { Maybe } from '../utils/type-level';
+
+import type { IrisSymbol } from './findSymbol';
+import {
+  findDirectiveDefinition,
+  findSymbolAt,
+  findTypeDefinition,
+} from './findSymbol';
+import type { Hover, Position } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { offsetAt, rangeOf } from './textDocument';
+
+const codeBlock = (language: string, code: string) =>
+  ['```' + language, code, '```'].join('\n');
+
+const jsDocComment = (doc: string) =>
+  ['/**', ...doc.split('\n').map((line) => ` * ${line}`), ' */'].join('\n');
+
+const sourceText = (
+  { text }: IrisTextDocument,
+  start: Maybe<Location>,
+  end: Maybe<Location>,
+) =>
+  start && end ? text.slice(start.start, end.end).replace(/\s+/g, ' ') : '';
+
+const hoverSections = (
+  textDocument: IrisTextDocument,
+  symbol: IrisSymbol,
+): Array<Maybe<string>> => {
+  const { document, schema } = textDocument;
+
+  switch (symbol.kind) {
+    case 'type': {
+      const name = symbol.name.value;
+      const definition = findTypeDefinition(document, name);
+      const type = schema?.types[name] ?? IrisScalars[name];
+      const role = definition?.role ?? type?.role;
+
+      if (!role) {
+        return [];
+      }
+
+      return [
+        codeBlock('iris', `${role} ${name}`),
+        definition?.description?.value ?? type?.description,
+        type?.role === 'data'
+          ? codeBlock(
+              'js',
+              jsDocComment(toJSODoc(type as IrisTypeDefinition<'data'>)),
+            )
+          : undefined,
+      ];
+    }
+    case 'directive': {
+      const name = symbol.name.value;
+      const definition = findDirectiveDefinition(document, name);
+      const specified = specifiedDirectives.find((d) => d.name === name);
+
+      if (!definition && !specified) {
+        return [];
+      }
+
+      return [
+        codeBlock('iris', `directive @${name}`),
+        definition ? definition.description?.value : specified?.description,
+      ];
+    }
+    case 'variant':
+      return [
+        codeBlock('iris', `${symbol.type.name.value}.${symbol.name.value}`),
+        symbol.variant.description?.value,
+      ];
+    case 'field': {
+      const { field, variant } = symbol;
+      const signature = sourceText(
+        textDocument,
+        field.name.loc,
+        field.type.loc,
+      );
+
+      return [
+        codeBlock('iris', `${variant.name.value}.${signature}`),
+        field.description?.value,
+      ];
+    }
+  }
+};
+
+/**
+ * Shows the definition of the hovered symbol with its description. Data
+ * types additionally show their JSDoc, if the schema could be built.
+ */
+export const getHover = (
+  textDocument: IrisTextDocument,
+  position: Position,
+): Hover | null => {
+  const symbol = findSymbolAt(
+    textDocument.document,
+    offsetAt(textDocument, position),
+  );
+
+  if (!symbol) {
+    return null;
+  }
+
+  const sections = hoverSections(textDocument, symbol).filter(Boolean);
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  return {
+    contents: { kind: 'markdown', value: sections.join('\n\n') },
+    range: symbol.name.loc && rangeOf(textDocument, symbol.name.loc),
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * The subset of the Language Server Protocol used by the Iris language
+ * server, see https://microsoft.github.io/language-server-protocol/.
+ */
+
+export type RequestMessage = {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+};
+
+export type NotificationMessage = {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+};
+
+export type ResponseError = {
+  code: number;
+  message: string;
+};
+
+export type ResponseMessage = {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: ResponseError;
+};
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603,
+} as const;
+
+/** Positions are zero-based, characters are counted in UTF-16 code units. */
+export type Position = {
+  line: number;
+  character: number;
+};
+
+export type Range = {
+  start: Position;
+  end: Position;
+};
+
+export type Location = {
+  uri: string;
+  range: Range;
+};
+
+export const DiagnosticSeverity = {
+  Error: 1,
+  Warning: 2,
+} as const;
+
+export type Diagnostic = {
+  range: Range;
+  severity: number;
+  source: string;
+  message: string;
+  code?: string;
+};
+
+export type MarkupContent = {
+  kind: 'markdown';
+  value: string;
+};
+
+export type Hover = {
+  contents: MarkupContent;
+  range?: Range;
+};
+
+export const CompletionItemKind = {
+  Function: 3,
+  Class: 7,
+  Struct: 22,
+  EnumMember: 20,
+} as const;
+
+export type CompletionItem = {
+  label: string;
+  kind: number;
+  detail?: string;
+  documentation?: string;
+};
+
+export const SymbolKind = {
+  Class: 5,
+  Field: 8,
+  EnumMember: 22,
+  Struct: 23,
+} as const;
+
+export type DocumentSymbol = {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children?: Array<DocumentSymbol>;
+};
+
+export type TextDocumentItem = {
+  uri: string;
+  version: number;
+  text: string;
+};
+
+export type TextDocumentPositionParams = {
+  textDocument: { uri: string };
+  position: Position;
+};
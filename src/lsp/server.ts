@@ -0,0 +1,228 @@
+import type { LintOptions } from '../linting/lintSDL';
+import type { ObjMap } from '../utils/ObjMap';
+import { version } from '../version';
+
+import { getCompletions } from './completion';
+import { getDefinition, getReferences } from './definition';
+import { getDiagnostics } from './diagnostics';
+import { getDocumentSymbols } from './documentSymbols';
+import { getHover } from './hover';
+import type {
+  Message,
+  TextDocumentItem,
+  TextDocumentPositionParams,
+} from './protocol';
+import { ErrorCodes } from './protocol';
+import type { IrisTextDocument } from './textDocument';
+import { createTextDocument } from './textDocument';
+
+export type LanguageServerOptions = {
+  /**
+   * Sends responses and notifications to the client.
+   */
+  send: (message: Message) => void;
+  /**
+   * Called by the `exit` notification, with the exit code 0 if the server
+   * was shut down before.
+   */
+  onExit?: (code: number) => void;
+  /**
+   * Lint options of the diagnostics, `false` disables linting.
+   */
+  lint?: LintOptions | false;
+};
+
+export type LanguageServer = {
+  handleMessage: (message: Message) => void;
+};
+
+type DidChangeParams = {
+  textDocument: { uri: string; version: number };
+  contentChanges: ReadonlyArray<{ text: string }>;
+};
+
+type ReferenceParams = TextDocumentPositionParams & {
+  context?: { includeDeclaration?: boolean };
+};
+
+type Handler<T> = (params: unknown) => T;
+
+// params are sent by the client and are expected to match the protocol.
+const withParams =
+  <P, T>(fn: (params: P) => T): Handler<T> =>
+  (params) =>
+    fn(params as P);
+
+const capabilities = {
+  // documents are synchronized by their full text.
+  textDocumentSync: 1,
+  hoverProvider: true,
+  completionProvider: { triggerCharacters: ['@', ':', '|', '=', '['] },
+  definitionProvider: true,
+  referencesProvider: true,
+  documentSymbolProvider: true,
+};
+
+/**
+ * Creates a language server for `.iris` files, which handles JSON-RPC
+ * messages of the Language Server Protocol independent of their transport.
+ * Every document is handled on its own, imported types are not resolved.
+ */
+export const createLanguageServer = ({
+  send,
+  onExit = () => undefined,
+  lint,
+}: LanguageServerOptions): LanguageServer => {
+  const documents = new Map<string, IrisTextDocument>();
+  let isShutdown = false;
+
+  const publishDiagnostics = (uri: string, textDocument?: IrisTextDocument) =>
+    send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        uri,
+        version: textDocument?.version,
+        diagnostics: textDocument ? getDiagnostics(textDocument, lint) : [],
+      },
+    });
+
+  const updateDocument = (uri: string, docVersion: number, text: string) => {
+    const textDocument = createTextDocument(uri, docVersion, text);
+    documents.set(uri, textDocument);
+    publishDiagnostics(uri, textDocument);
+  };
+
+  const withDocument =
+    <P extends { textDocument: { uri: string } }, T>(
+      fallback: T,
+      fn: (textDocument: IrisTextDocument, params: P) => T,
+    ) =>
+    (params: P): T => {
+      const textDocument = documents.get(params.textDocument.uri);
+      return textDocument ? fn(textDocument, params) : fallback;
+    };
+
+  const requests: ObjMap<Handler<unknown>> = {
+    initialize: () => ({
+      capabilities,
+      serverInfo: { name: 'iris', version },
+    }),
+    shutdown: () => {
+      isShutdown = true;
+      return null;
+    },
+    'textDocument/hover': withParams(
+      withDocument(
+        null,
+        (textDocument, { position }: TextDocumentPositionParams) =>
+          getHover(textDocument, position),
+      ),
+    ),
+    'textDocument/completion': withParams(
+      withDocument(
+        [],
+        (textDocument, { position }: TextDocumentPositionParams) =>
+          getCompletions(textDocument, position),
+      ),
+    ),
+    'textDocument/definition': withParams(
+      withDocument(
+        [],
+        (textDocument, { position }: TextDocumentPositionParams) =>
+          getDefinition(textDocument, position),
+      ),
+    ),
+    'textDocument/references': withParams(
+      withDocument([], (textDocument, { position, context }: ReferenceParams) =>
+        getReferences(
+          textDocument,
+          position,
+          context?.includeDeclaration ?? false,
+        ),
+      ),
+    ),
+    'textDocument/documentSymbol': withParams(
+      withDocument(
+        [],
+        (textDocument, _params: { textDocument: { uri: string } }) =>
+          getDocumentSymbols(textDocument),
+      ),
+    ),
+  };
+
+  const notifications: ObjMap<Handler<void>> = {
+    'textDocument/didOpen': withParams(
+      ({ textDocument }: { textDocument: TextDocumentItem }) =>
+        updateDocument(
+          textDocument.uri,
+          textDocument.version,
+          textDocument.text,
+        ),
+    ),
+    'textDocument/didChange': withParams(
+      ({ textDocument, contentChanges }: DidChangeParams) => {
+        const change = contentChanges[contentChanges.length - 1];
+
+        if (change) {
+          updateDocument(textDocument.uri, textDocument.version, change.text);
+        }
+      },
+    ),
+    'textDocument/didClose': withParams(({ textDocument }: DidChangeParams) => {
+      documents.delete(textDocument.uri);
+      publishDiagnostics(textDocument.uri);
+    }),
+    exit: () => onExit(isShutdown ? 0 : 1),
+  };
+
+  const handleMessage = (message: Message) => {
+    // responses to requests of the server are not expected.
+    if (!('method' in message)) {
+      return;
+    }
+
+    if (!('id' in message)) {
+      try {
+        notifications[message.method]?.(message.params);
+      } catch (error) {
+        send({
+          jsonrpc: '2.0',
+          method: 'window/logMessage',
+          params: { type: 1, message: error.message },
+        });
+      }
+      return;
+    }
+
+    const handler = requests[message.method];
+
+    if (!handler) {
+      send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: ErrorCodes.MethodNotFound,
+          message: `Unknown method "${message.method}".`,
+        },
+      });
+      return;
+    }
+
+    try {
+      send({
+        jsonrpc: '2.0',
+        id: message.id,
+        result: handler(message.params) ?? null,
+      });
+    } catch (error) {
+      send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: ErrorCodes.InternalError, message: error.message },
+      });
+    }
+  };
+
+  return { handleMessage };
+};
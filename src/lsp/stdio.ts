@@ -0,0 +1,125 @@
+import type { Message } from './protocol';
+import { ErrorCodes } from './protocol';
+import type { LanguageServerOptions } from './server';
+import { createLanguageServer } from './server';
+
+/**
+ * A readable stream like `process.stdin`.
+ */
+export type LanguageServerInput = AsyncIterable<string> & {
+  setEncoding: (encoding: 'utf8') => unknown;
+};
+
+/**
+ * A writable stream like `process.stdout`.
+ */
+export type LanguageServerOutput = {
+  write: (chunk: string) => unknown;
+};
+
+const HEADER_END = '\r\n\r\n';
+
+// Content-Length counts bytes of the UTF-8 encoded body, surrogates of a pair
+// count two bytes each.
+const utf8Length = (code: number) =>
+  code < 0x80 ? 1 : code < 0x800 || (code >= 0xd800 && code <= 0xdfff) ? 2 : 3;
+
+const byteLength = (text: string) => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    length += utf8Length(text.charCodeAt(i));
+  }
+  return length;
+};
+
+export const encodeMessage = (message: Message): string => {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${byteLength(body)}${HEADER_END}${body}`;
+};
+
+/**
+ * Splits decoded chunks of a stream into messages framed by `Content-Length`
+ * headers. Bodies, which are not valid JSON, are passed to `onError`.
+ */
+export const createMessageReader = (
+  onMessage: (message: Message) => void,
+  onError: (error: Error) => void,
+) => {
+  let buffer = '';
+
+  const readMessage = (): boolean => {
+    const headerEnd = buffer.indexOf(HEADER_END);
+
+    if (headerEnd === -1) {
+      return false;
+    }
+
+    const contentLength = /Content-Length: *(\d+)/i.exec(
+      buffer.slice(0, headerEnd),
+    );
+    const bodyStart = headerEnd + HEADER_END.length;
+
+    if (!contentLength) {
+      buffer = buffer.slice(bodyStart);
+      onError(new Error('Missing Content-Length header.'));
+      return true;
+    }
+
+    let bodyEnd = bodyStart;
+    let remaining = Number(contentLength[1]);
+    while (remaining > 0 && bodyEnd < buffer.length) {
+      remaining -= utf8Length(buffer.charCodeAt(bodyEnd));
+      bodyEnd++;
+    }
+
+    if (remaining > 0) {
+      return false;
+    }
+
+    const body = buffer.slice(bodyStart, bodyEnd);
+    buffer = buffer.slice(bodyEnd);
+
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch (error) {
+      onError(error);
+      return true;
+    }
+
+    onMessage(message);
+    return true;
+  };
+
+  return (chunk: string) => {
+    buffer += chunk;
+    while (readMessage()) {
+      // a chunk can contain several messages
+    }
+  };
+};
+
+/**
+ * Runs the language server on streams like stdin and stdout, until the input
+ * is closed.
+ */
+export const startLanguageServer = async (
+  input: LanguageServerInput,
+  output: LanguageServerOutput,
+  options: Omit<LanguageServerOptions, 'send'> = {},
+): Promise<void> => {
+  const send = (message: Message) => output.write(encodeMessage(message));
+  const server = createLanguageServer({ ...options, send });
+  const read = createMessageReader(server.handleMessage, (error) =>
+    send({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: ErrorCodes.ParseError, message: error.message },
+    }),
+  );
+
+  input.setEncoding('utf8');
+  for await (const chunk of input) {
+    read(chunk);
+  }
+};
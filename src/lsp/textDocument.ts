@@ -0,0 +1,146 @@
+import { GraphQLError, Source } from 'graphql';
+
+import { validateSDL } from '../validation/validate';
+
+import type { IrisError } from '../error';
+import { irisError } from '../error';
+import { parseWithRecovery } from '../parsing';
+import type { DocumentNode, Location } from '../types/ast';
+import type { IrisSchema } from '../types/schema';
+import { buildASTSchema } from '../types/schema';
+
+import type { Position, Range } from './protocol';
+
+/**
+ * An open `.iris` file with its parsed document. The schema is only built,
+ * if the document has no syntax or validation errors.
+ */
+export type IrisTextDocument = {
+  uri: string;
+  version: number;
+  text: string;
+  document: DocumentNode;
+  errors: ReadonlyArray<IrisError>;
+  hasSyntaxErrors: boolean;
+  schema?: IrisSchema;
+  lineOffsets: ReadonlyArray<number>;
+};
+
+const computeLineOffsets = (text: string): Array<number> => {
+  const offsets = [0];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      offsets.push(i + 1);
+    } else if (text[i] === '\r' && text[i + 1] !== '\n') {
+      offsets.push(i + 1);
+    }
+  }
+
+  return offsets;
+};
+
+const buildDocumentSchema = (
+  document: DocumentNode,
+): { schema?: IrisSchema; errors: ReadonlyArray<IrisError> } => {
+  try {
+    return {
+      schema: buildASTSchema(document, { assumeValidSDL: true }),
+      errors: [],
+    };
+  } catch (error) {
+    // build errors with nodes keep their locations.
+    return {
+      errors: [
+        error instanceof GraphQLError ? error : irisError(error.message),
+      ],
+    };
+  }
+};
+
+export const createTextDocument = (
+  uri: string,
+  version: number,
+  text: string,
+): IrisTextDocument => {
+  const { document, errors: syntaxErrors } = parseWithRecovery(
+    new Source(text, uri),
+  );
+  const errors = [...syntaxErrors, ...validateSDL(document)];
+  const built =
+    errors.length === 0 ? buildDocumentSchema(document) : { errors: [] };
+
+  return {
+    uri,
+    version,
+    text,
+    document,
+    errors: [...errors, ...built.errors],
+    hasSyntaxErrors: syntaxErrors.length !== 0,
+    schema: built.schema,
+    lineOffsets: computeLineOffsets(text),
+  };
+};
+
+export const offsetAt = (
+  { text, lineOffsets }: IrisTextDocument,
+  { line, character }: Position,
+): number => {
+  if (line >= lineOffsets.length) {
+    return text.length;
+  }
+
+  const lineEnd = lineOffsets[line + 1] ?? text.length;
+  return Math.min(lineOffsets[line] + Math.max(character, 0), lineEnd);
+};
+
+export const positionAt = (
+  { text, lineOffsets }: IrisTextDocument,
+  offset: number,
+): Position => {
+  const target = Math.max(0, Math.min(offset, text.length));
+  let line = 0;
+
+  while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= target) {
+    line++;
+  }
+
+  return { line, character: target - lineOffsets[line] };
+};
+
+export const rangeAt = (
+  textDocument: IrisTextDocument,
+  start: number,
+  end: number,
+): Range => ({
+  start: positionAt(textDocument, start),
+  end: positionAt(textDocument, end),
+});
+
+export const rangeOf = (textDocument: IrisTextDocument, loc: Location): Range =>
+  rangeAt(textDocument, loc.start, loc.end);
+
+const isNameChar = (char: string | undefined) =>
+  char !== undefined && /[_A-Za-z0-9]/.test(char);
+
+/**
+ * Range of the name starting at the offset, or of a single character if
+ * there is no name.
+ */
+export const wordRangeAt = (
+  textDocument: IrisTextDocument,
+  offset: number,
+): Range => {
+  const { text } = textDocument;
+  let end = offset;
+
+  while (isNameChar(text[end])) {
+    end++;
+  }
+
+  return rangeAt(
+    textDocument,
+    offset,
+    end === offset ? Math.min(offset + 1, text.length) : end,
+  );
+};
@@ -0,0 +1,159 @@
+import {
+  execute as executeDocument,
+  graphql,
+  GraphQLScalarType,
+  parse,
+  subscribe,
+} from 'graphql';
+
+import { printOperation } from '../../printing/printOperation';
+import { buildSchema } from '../../types/schema';
+import { toJSONDeep } from '../../utils/toJSONDeep';
+
+import type { MockOptions } from '../mockIrisSchema';
+import { mockIrisSchema } from '../mockIrisSchema';
+
+const schema = buildSchema(
+  `
+  data DateTime
+
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  data Tree
+    = Leaf { value: Int }
+    | Node { left: Tree, right: Tree }
+
+  resolver God = {
+    name: String
+    born: DateTime
+    lifespan: Lifespan
+    children: [Deity]
+  }
+
+  resolver Deity
+    = God
+    | Titan { name: String, tree: Tree }
+
+  resolver Query = {
+    deities: [Deity]
+    god(name: String): God?
+  }
+`,
+  {
+    scalars: {
+      DateTime: new GraphQLScalarType({ name: 'DateTime' }),
+    },
+  },
+);
+
+const overrides = { DateTime: () => '2022-05-01T00:00:00Z' };
+
+const execute = (source: string, options: MockOptions = { overrides }) =>
+  graphql({ schema: mockIrisSchema(schema, options), source }).then(toJSONDeep);
+
+const deities = printOperation(schema, 'Query.deities', { maxDepth: 5 });
+
+describe('mockIrisSchema', () => {
+  it('mocks every field of a query', async () => {
+    expect(await execute(deities)).toMatchSnapshot();
+  });
+
+  it('produces the same values for the same seed', async () => {
+    const options = { overrides, seed: 7 };
+
+    expect(await execute(deities, options)).toEqual(
+      await execute(deities, options),
+    );
+    expect(await execute(deities, options)).not.toEqual(
+      await execute(deities, { overrides, seed: 8 }),
+    );
+  });
+
+  it('produces the same values for each execution of an operation', async () => {
+    const mockedSchema = mockIrisSchema(schema, { overrides });
+    const run = () =>
+      graphql({ schema: mockedSchema, source: deities }).then(toJSONDeep);
+
+    expect(await run()).toEqual(await run());
+  });
+
+  it('produces the same values for each execution of a parsed document', async () => {
+    const mockedSchema = mockIrisSchema(schema, { overrides });
+    const document = parse(deities);
+    const run = () =>
+      Promise.resolve(executeDocument({ schema: mockedSchema, document })).then(
+        toJSONDeep,
+      );
+
+    expect(await run()).toEqual(await run());
+  });
+
+  it('produces values which pass the type check', async () => {
+    for (let seed = 0; seed < 20; seed++) {
+      // eslint-disable-next-line no-await-in-loop
+      const result = await execute(deities, { overrides, seed, maxDepth: 2 });
+      expect(result).not.toHaveProperty('errors');
+    }
+  });
+
+  it('overrides fields of resolver variants', async () => {
+    expect(
+      await execute('{ god(name: "Zeus") { name lifespan } }', {
+        overrides: { ...overrides, God: () => ({ lifespan: 'Immortal' }) },
+        seed: 1,
+      }),
+    ).toEqual({
+      data: { god: { name: expect.any(String), lifespan: 'Immortal' } },
+    });
+  });
+
+  it('requires overrides for custom scalars', async () => {
+    expect(await execute('{ god(name: "Zeus") { born } }', {})).toMatchObject({
+      errors: [
+        {
+          message:
+            'Cannot mock scalar "DateTime", provide a mock in the overrides.',
+        },
+      ],
+    });
+  });
+  it('prefers variants with nested terminal data at the maximum depth', async () => {
+    const nested = buildSchema(`
+      data Wrapper = { value: Int }
+      data Chain = Link { next: Chain } | End { wrapper: Wrapper }
+
+      resolver Query = { chain: Chain }
+    `);
+
+    expect(
+      await graphql({
+        schema: mockIrisSchema(nested, { maxDepth: 0 }),
+        source: '{ chain }',
+      }).then(toJSONDeep),
+    ).toEqual({
+      data: {
+        chain: { __typename: 'End', wrapper: { value: expect.any(Number) } },
+      },
+    });
+  });
+
+  it('mocks fields of subscriptions', async () => {
+    const subscriptions = buildSchema(`
+      resolver Query = { hello: String }
+      resolver Subscription = { ticks: Int }
+    `);
+    const result = await subscribe({
+      schema: mockIrisSchema(subscriptions),
+      document: parse('subscription { ticks }'),
+    });
+
+    if (!('next' in result)) {
+      throw new Error('Expected an async iterator.');
+    }
+
+    const { value } = await result.next();
+    expect(value).toEqual({ data: { ticks: expect.any(Number) } });
+  });
+});
@@ -0,0 +1,357 @@
+import type { GraphQLResolveInfo, GraphQLSchema } from 'graphql';
+
+import { irisError } from '../error';
+import type { ResolverMap, TranspileOptions } from '../transpiling/toGQLSchema';
+import { toGQLSchema } from '../transpiling/toGQLSchema';
+import type {
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+import type { ObjMap } from '../utils/ObjMap';
+import { isObjectLike } from '../utils/ObjMap';
+
+/**
+ * Overrides mocks of data types and scalars by their values, e.g.
+ * `{ DateTime: () => '2022-01-01T00:00:00Z' }`, and fields of resolver
+ * variants by partial objects, e.g. `{ God: () => ({ name: 'Zeus' }) }`.
+ */
+export type MockOverrides = ObjMap<() => unknown>;
+
+export type MockOptions = TranspileOptions & {
+  /**
+   * Seed of the random generator, the same seed produces the same values.
+   * Each executed operation starts with this seed, so executing the same
+   * operation again produces the same values.
+   *
+   * Default: 0
+   */
+  seed?: number;
+  overrides?: MockOverrides;
+  /**
+   * Depth of nested values, below which optional values are null, lists are
+   * empty and variants with the least nested required data are preferred.
+   *
+   * Default: 3
+   */
+  maxDepth?: number;
+};
+
+type Mocker = {
+  random: () => number;
+  overrides: MockOverrides;
+  maxDepth: number;
+  ranks: ReadonlyMap<string, number>;
+};
+
+// data types without a terminating variant cannot be mocked, so the depth
+// of required values is limited.
+const MAX_REQUIRED_DEPTH = 32;
+
+const MAX_LIST_LENGTH = 3;
+
+const words = ['Iris', 'Zeus', 'Hera', 'Athena', 'Apollo', 'Artemis'];
+
+// mulberry32, a small deterministic generator of numbers in [0, 1).
+const randomGenerator = (seed: number) => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomInt = (mocker: Mocker, max: number): number =>
+  Math.floor(mocker.random() * max);
+
+const pick = <T>(mocker: Mocker, items: ReadonlyArray<T>): T =>
+  items[randomInt(mocker, items.length)];
+
+const stdScalarMocks: ObjMap<(mocker: Mocker) => unknown> = {
+  String: (mocker) => `${pick(mocker, words)} ${randomInt(mocker, 100)}`,
+  ID: (mocker) => String(randomInt(mocker, 10000)),
+  Int: (mocker) => randomInt(mocker, 100),
+  Float: (mocker) => Math.round(mocker.random() * 10000) / 100,
+  Boolean: (mocker) => mocker.random() < 0.5,
+};
+
+const mockScalar = (mocker: Mocker, name: string): unknown => {
+  const override = mocker.overrides[name];
+
+  if (override) {
+    return override();
+  }
+
+  const mock = stdScalarMocks[name];
+
+  if (!mock) {
+    throw irisError(
+      `Cannot mock scalar "${name}", provide a mock in the overrides.`,
+    );
+  }
+
+  return mock(mocker);
+};
+
+const mockTypeRef = <T>(
+  mocker: Mocker,
+  type: IrisTypeRef,
+  depth: number,
+  mockNamed: (named: IrisTypeDefinition) => T,
+): T | Array<unknown> | null => {
+  switch (type.kind) {
+    case 'MAYBE':
+      return depth >= mocker.maxDepth || mocker.random() < 0.2
+        ? null
+        : mockTypeRef(mocker, type.ofType, depth, mockNamed);
+    case 'LIST': {
+      const length =
+        depth >= mocker.maxDepth ? 0 : 1 + randomInt(mocker, MAX_LIST_LENGTH);
+
+      return Array.from({ length }, () =>
+        mockTypeRef(mocker, type.ofType, depth, mockNamed),
+      );
+    }
+    case 'NAMED':
+      return mockNamed(type.ofType);
+  }
+};
+
+const variantFields = (variant: IrisVariant): ReadonlyArray<IrisField> =>
+  Object.values(
+    (variant.type ? variant.type.variantBy() : variant).fields ?? {},
+  );
+
+// data types are ranked by the depth of required data, which is nested in
+// their shallowest variant. Types without a rank cannot be mocked.
+const typeRank = (
+  ranks: ReadonlyMap<string, number>,
+  type: IrisTypeDefinition,
+): number =>
+  type.scalar != null || type.boxedScalar != null
+    ? 0
+    : (ranks.get(type.name) ?? Infinity) + 1;
+
+const variantRank = (
+  ranks: ReadonlyMap<string, number>,
+  variant: IrisVariant,
+): number =>
+  Math.max(
+    0,
+    ...variantFields(variant).map(({ type }) =>
+      type.kind === 'NAMED' ? typeRank(ranks, type.ofType) : 0,
+    ),
+  );
+
+// ranks of types are lowered until no rank changes.
+const rankDataTypes = (schema: IrisSchema): ReadonlyMap<string, number> => {
+  const ranks = new Map<string, number>();
+  const dataTypes = Object.values(schema.types).filter(
+    (type) => type.role === 'data' && !type.scalar && !type.boxedScalar,
+  );
+
+  let isChanged = true;
+  while (isChanged) {
+    isChanged = false;
+
+    for (const type of dataTypes) {
+      const rank = Math.min(
+        ...type.variants().map((variant) => variantRank(ranks, variant)),
+      );
+
+      if (rank < (ranks.get(type.name) ?? Infinity)) {
+        ranks.set(type.name, rank);
+        isChanged = true;
+      }
+    }
+  }
+
+  return ranks;
+};
+
+const mockDataFields = (
+  mocker: Mocker,
+  variant: IrisVariant,
+  depth: number,
+): ObjMap<unknown> =>
+  Object.fromEntries(
+    variantFields(variant).map(({ name, type }) => [
+      name,
+      mockTypeRef(mocker, type, depth + 1, (named) =>
+        mockData(mocker, named, depth + 1),
+      ),
+    ]),
+  );
+
+const mockData = (
+  mocker: Mocker,
+  type: IrisTypeDefinition,
+  depth: number,
+): unknown => {
+  const override = mocker.overrides[type.name];
+
+  if (override) {
+    return override();
+  }
+
+  if (type.boxedScalar) {
+    return mockScalar(mocker, type.boxedScalar.name);
+  }
+
+  if (depth > MAX_REQUIRED_DEPTH) {
+    throw irisError(
+      `Cannot mock data "${type.name}", it has no variant without nested required data.`,
+    );
+  }
+
+  const variants = type.variants();
+
+  if (type.isVariantType) {
+    return mockDataFields(mocker, variants[0], depth);
+  }
+
+  const rank = mocker.ranks.get(type.name);
+  const shallowVariants = variants.filter(
+    (variant) => variantRank(mocker.ranks, variant) === rank,
+  );
+  const variant = pick(
+    mocker,
+    depth >= mocker.maxDepth && shallowVariants.length !== 0
+      ? shallowVariants
+      : variants,
+  );
+
+  const fields = mockDataFields(mocker, variant, depth);
+
+  return !variant.type && Object.keys(fields).length === 0
+    ? variant.name
+    : { __typename: variant.name, ...fields };
+};
+
+type MockObject = {
+  fields: ObjMap<unknown>;
+  depth: number;
+};
+
+/**
+ * Builds an executable schema like `toGQLSchema`, which resolves every field
+ * with random values of its type. Values of data types pass `typeCheckValue`,
+ * values of resolver types pick a random variant and mock their fields on
+ * demand. Subscription fields emit a single mocked value.
+ */
+export const mockIrisSchema = (
+  schema: IrisSchema,
+  { seed = 0, overrides = {}, maxDepth = 3, ...options }: MockOptions = {},
+): GraphQLSchema => {
+  const ranks = rankDataTypes(schema);
+  const mockers = new WeakMap<object, Mocker>();
+  const mockObjects = new WeakMap<object, MockObject>();
+
+  // every execution gets its own random generator. Variable values are
+  // coerced for each execution, while parsed operations may be cached.
+  const operationMocker = ({ variableValues }: GraphQLResolveInfo): Mocker => {
+    const mocker = mockers.get(variableValues) ?? {
+      random: randomGenerator(seed),
+      overrides,
+      maxDepth,
+      ranks,
+    };
+    mockers.set(variableValues, mocker);
+    return mocker;
+  };
+
+  const overrideFields = (variantName: string): ObjMap<unknown> => {
+    const fields = overrides[variantName]?.();
+    return isObjectLike(fields) ? fields : {};
+  };
+
+  // objects only carry their GraphQL type name, fields are mocked by their
+  // resolvers, so that recursive types are mocked as deep as they are queried.
+  const mockObject = (
+    mocker: Mocker,
+    type: IrisTypeDefinition,
+    depth: number,
+  ): object => {
+    const variant = pick(mocker, type.variants());
+    const objectName = type.isVariantType
+      ? type.name
+      : variant.type?.name ?? `${type.name}_${variant.name}`;
+
+    const value = { __typename: objectName };
+    mockObjects.set(value, {
+      fields: overrideFields(variant.type?.name ?? variant.name),
+      depth,
+    });
+    return value;
+  };
+
+  const mockField =
+    (variantName: string, { name, type }: IrisField) =>
+    (
+      parent: unknown,
+      _args: unknown,
+      _context: unknown,
+      info: GraphQLResolveInfo,
+    ) => {
+      const mocker = operationMocker(info);
+      const parentMock = isObjectLike(parent)
+        ? mockObjects.get(parent)
+        : undefined;
+      const depth = (parentMock?.depth ?? 0) + 1;
+      const fields = parentMock?.fields ?? overrideFields(variantName);
+
+      if (name in fields) {
+        return fields[name];
+      }
+
+      return mockTypeRef(mocker, type, depth, (named) =>
+        named.role === 'data'
+          ? mockData(mocker, named, depth)
+          : mockObject(mocker, named, depth),
+      );
+    };
+
+  const mockSubscriptionField = (variantName: string, field: IrisField) => {
+    const resolve = mockField(variantName, field);
+
+    return {
+      async *subscribe(
+        parent: unknown,
+        args: unknown,
+        context: unknown,
+        info: GraphQLResolveInfo,
+      ) {
+        yield await Promise.resolve(resolve(parent, args, context, info));
+      },
+      resolve: (payload: unknown) => payload,
+    };
+  };
+
+  const resolvers: ResolverMap = {};
+  for (const type of Object.values(schema.types)) {
+    if (type.role !== 'resolver') {
+      continue;
+    }
+
+    for (const variant of type.variants()) {
+      if (variant.fields) {
+        resolvers[variant.name] = Object.fromEntries(
+          Object.values(variant.fields).map((field) => [
+            field.name,
+            variant.name === 'Subscription'
+              ? mockSubscriptionField(variant.name, field)
+              : mockField(variant.name, field),
+          ]),
+        );
+      }
+    }
+  }
+
+  return toGQLSchema(schema, resolvers, options);
+};
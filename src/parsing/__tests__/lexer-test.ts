@@ -26,6 +26,8 @@ describe('isPunctuatorTokenKind', () => {
     expect(isPunctuatorToken('{')).toEqual(true);
     expect(isPunctuatorToken('|')).toEqual(true);
     expect(isPunctuatorToken('}')).toEqual(true);
+    expect(isPunctuatorToken('<')).toEqual(true);
+    expect(isPunctuatorToken('>')).toEqual(true);
   });
 
   it('returns false for non-punctuator tokens', () => {
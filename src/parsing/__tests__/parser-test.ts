@@ -1,9 +1,10 @@
 import { Kind, Source } from 'graphql';
 
+import { isTypeSystemDefinitionNode } from '../../types/ast';
 import { dedent } from '../../utils/dedent';
 import { toJSONDeep, toJSONError } from '../../utils/toJSONDeep';
 
-import { parse } from '../index';
+import { parse, parseWithRecovery } from '../index';
 import { parseConstValue, parseType, parseValue } from '../parser';
 
 export function expectJSON(actual: unknown) {
@@ -246,3 +247,118 @@ describe('Parser', () => {
     });
   });
 });
+
+describe('parseWithRecovery', () => {
+  const parseAll = (text: string) => {
+    const { document, errors } = parseWithRecovery(text);
+    return {
+      definitions: document.definitions
+        .filter(isTypeSystemDefinitionNode)
+        .map((def) => def.name.value),
+      errors: toJSONDeep(errors),
+    };
+  };
+
+  it('parses valid documents without errors', () => {
+    expect(
+      parseAll(dedent`
+        data A = { a: Int }
+        resolver Query = { a: A }
+      `),
+    ).toEqual({ definitions: ['A', 'Query'], errors: [] });
+  });
+
+  it('reports all syntax errors', () => {
+    expect(
+      parseAll(dedent`
+        data A = { a: }
+
+        """
+        description
+        """
+        data B = { data: Int }
+
+        resolver C = { c Int }
+
+        directive @d on UNKNOWN
+
+        resolver Query = { b: B }
+      `),
+    ).toEqual({
+      definitions: ['B', 'Query'],
+      errors: [
+        {
+          message: 'Syntax Error: Expected Name, found "}".',
+          locations: [{ line: 1, column: 15 }],
+        },
+        {
+          message: 'Syntax Error: Expected ":", found Name "Int".',
+          locations: [{ line: 8, column: 18 }],
+        },
+        {
+          message: 'Syntax Error: Unexpected Name "UNKNOWN".',
+          locations: [{ line: 10, column: 17 }],
+        },
+      ],
+    });
+  });
+
+  it('keeps descriptions of recovered definitions', () => {
+    const { document } = parseWithRecovery(dedent`
+      data A = 
+
+      "B type"
+      data B
+    `);
+
+    expectJSON(document.definitions[0]).toMatchObject({
+      name: { value: 'B' },
+      description: { value: 'B type' },
+    });
+  });
+
+  it('recovers from lexer errors', () => {
+    expect(
+      parseAll(dedent`
+        data A = { a: Int ~ }
+        data B = { b: "unterminated }
+        data C
+      `),
+    ).toEqual({
+      definitions: ['C'],
+      errors: [
+        {
+          message: 'Syntax Error: Unexpected character: "~".',
+          locations: [{ line: 1, column: 19 }],
+        },
+        {
+          message: 'Syntax Error: Unterminated string.',
+          locations: [{ line: 2, column: 30 }],
+        },
+      ],
+    });
+  });
+
+  it('keeps definitions followed by lexer errors', () => {
+    expect(
+      parseAll(dedent`
+        data A = { x: Int }
+         ~
+        data B = Int | ~
+        data C
+      `),
+    ).toEqual({
+      definitions: ['A', 'C'],
+      errors: [
+        {
+          message: 'Syntax Error: Unexpected character: "~".',
+          locations: [{ line: 2, column: 2 }],
+        },
+        {
+          message: 'Syntax Error: Unexpected character: "~".',
+          locations: [{ line: 3, column: 16 }],
+        },
+      ],
+    });
+  });
+});
@@ -153,6 +153,57 @@ describe('Schema Parser', () => {
     });
   });
 
+  it('Import definition', () => {
+    snapshot('import { Lifespan, Deity } from "./deities.iris"');
+  });
+
+  it('Import definition requires names and path', () => {
+    expectSyntaxError('import {} from "./deities.iris"').toEqual({
+      message: 'Syntax Error: Expected Name, found "}".',
+      locations: [{ line: 1, column: 9 }],
+    });
+
+    expectSyntaxError('import { Deity } from deities').toEqual({
+      message: 'Syntax Error: Expected import path, found Name "deities".',
+      locations: [{ line: 1, column: 23 }],
+    });
+  });
+
+  it('Type extensions', () => {
+    snapshot(`
+      extend resolver Query = { deities: [Deity] }
+      extend data Deity = | Giant {} | Nymph {}
+      extend data Lifespan @deprecated
+    `);
+  });
+
+  it('Type extension requires directives or variants', () => {
+    expectSyntaxError('extend data Deity').toEqual({
+      message: 'Syntax Error: Unexpected <EOF>.',
+      locations: [{ line: 1, column: 18 }],
+    });
+
+    expectSyntaxError('extend directive @foo on FIELD').toEqual({
+      message: 'Syntax Error: Unexpected Name "directive".',
+      locations: [{ line: 1, column: 8 }],
+    });
+  });
+
+  it('Generic type definition', () => {
+    snapshot('data Result<E, A> = Ok { value: A } | Err { error: E }');
+  });
+
+  it('Type arguments', () => {
+    snapshot('resolver Query = { user: Result<String, [User]?> }');
+  });
+
+  it('Type parameters require names', () => {
+    expectSyntaxError('data Result<> = Ok {}').toEqual({
+      message: 'Syntax Error: Expected Name, found ">".',
+      locations: [{ line: 1, column: 13 }],
+    });
+  });
+
   describe('reject reserved names', () => {
     it('rejects an Enum type with incorrectly named values', () => {
       expectSyntaxError(`
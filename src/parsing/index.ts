@@ -1,14 +1,17 @@
-import type { ParseOptions, Source } from 'graphql';
-import { syntaxError, TokenKind } from 'graphql';
+import type { ParseOptions, Token } from 'graphql';
+import { GraphQLError, Source, syntaxError, TokenKind } from 'graphql';
 
+import type { IrisError } from '../error';
 import type {
   ArgumentsDefinitionNode,
   DefinitionNode,
   DocumentNode,
   FieldDefinitionNode,
+  ImportDefinitionNode,
   NameNode,
   Role,
   TypeDefinitionNode,
+  TypeExtensionNode,
   VariantDefinitionNode,
 } from '../types/ast';
 import { IrisKind } from '../types/kinds';
@@ -22,6 +25,177 @@ export const parse = (
   options?: ParseOptions,
 ): DocumentNode => parseDocument(new Parser(source, options));
 
+export type ParseResult = {
+  document: DocumentNode;
+  errors: ReadonlyArray<IrisError>;
+};
+
+/**
+ * Given a Iris source, parses it into a Document without throwing on syntax
+ * errors. After an error the parser skips to the next `data`, `resolver`,
+ * `directive`, `import` or `extend` definition, so the returned document
+ * contains only definitions which could be parsed, and errors contain all
+ * syntax errors of the source.
+ */
+export const parseWithRecovery = (
+  source: string | Source,
+  options?: ParseOptions,
+): ParseResult => {
+  const parser = new Parser(source, options);
+  const errors: Array<IrisError> = [];
+  const definitions: Array<DefinitionNode> = [];
+  const documentStart = parser.lookAhead();
+
+  const recover = (error: unknown, start: Token) => {
+    reportSyntaxError(errors, error);
+    skipToNextDefinition(parser, start, errors);
+  };
+
+  try {
+    parser.expectToken(TokenKind.SOF);
+  } catch (error) {
+    recover(error, documentStart);
+  }
+
+  while (!parser.peek(TokenKind.EOF)) {
+    const start = parser.lookAhead();
+    try {
+      definitions.push(parseDefinition(parser));
+    } catch (error) {
+      const definition = closeDefinition(parser, start, error, options);
+
+      if (definition) {
+        definitions.push(definition);
+      }
+
+      recover(error, definition ? parser._lexer.token : start);
+    }
+  }
+
+  const document = parser.node<DocumentNode>(documentStart, {
+    kind: IrisKind.DOCUMENT,
+    definitions,
+  });
+
+  return { document, errors };
+};
+
+const definitionKeywords: Record<string, TokenKind> = {
+  data: TokenKind.NAME,
+  resolver: TokenKind.NAME,
+  directive: TokenKind.AT,
+  import: TokenKind.BRACE_L,
+  extend: TokenKind.NAME,
+};
+
+const reportSyntaxError = (errors: Array<IrisError>, error: unknown) => {
+  if (!(error instanceof GraphQLError)) {
+    throw error;
+  }
+
+  const position = error.positions?.[0];
+  const isReported = errors.some(
+    (e) => e.message === error.message && e.positions?.[0] === position,
+  );
+
+  if (!isReported) {
+    errors.push(error);
+  }
+};
+
+// a lexer error can occur while the parser looks ahead after the last token
+// of a valid definition (e.g. for a next variant), in which case the
+// definition is parsed again from the source cut off at the error. Parsing
+// continues at the error afterwards.
+const closeDefinition = (
+  parser: Parser,
+  start: Token,
+  error: unknown,
+  options?: ParseOptions,
+): DefinitionNode | undefined => {
+  const position = error instanceof GraphQLError && error.positions?.[0];
+  const { source, token } = parser._lexer;
+
+  // parser errors are located at tokens, which were already read.
+  if (typeof position !== 'number' || position < token.end) {
+    return undefined;
+  }
+
+  const cutParser = new Parser(
+    new Source(
+      source.body.slice(0, position),
+      source.name,
+      source.locationOffset,
+    ),
+    options,
+  );
+  cutParser._lexer.resetAt(start.start);
+
+  try {
+    cutParser.expectToken(TokenKind.SOF);
+    const definition = parseDefinition(cutParser);
+
+    if (!cutParser.peek(TokenKind.EOF)) {
+      return undefined;
+    }
+
+    parser._lexer.resetAt(position);
+    return definition;
+  } catch (_error) {
+    return undefined;
+  }
+};
+
+const skipToNextDefinition = (
+  parser: Parser,
+  start: Token,
+  errors: Array<IrisError>,
+): void => {
+  const lexer = parser._lexer;
+  lexer.rewind(start);
+
+  do {
+    try {
+      lexer.advance();
+    } catch (error) {
+      // the lexer can not read over invalid characters, therefore it
+      // continues reading after the position of the error.
+      reportSyntaxError(errors, error);
+      lexer.resetAt((error.positions?.[0] ?? lexer.token.end) + 1);
+    }
+  } while (
+    lexer.token.kind !== TokenKind.EOF &&
+    !isDefinitionStart(parser, lexer.token)
+  );
+
+  const { prev } = lexer.token;
+  if (
+    prev?.kind === TokenKind.STRING ||
+    prev?.kind === TokenKind.BLOCK_STRING
+  ) {
+    // includes description of the definition
+    lexer.rewind(prev);
+  }
+};
+
+// keywords are accepted as definition start only if they are not used as
+// field names or types (e.g `data: String`, `field: data`).
+const isDefinitionStart = (parser: Parser, token: Token): boolean => {
+  if (
+    token.kind !== TokenKind.NAME ||
+    !definitionKeywords[token.value] ||
+    token.prev?.kind === TokenKind.COLON
+  ) {
+    return false;
+  }
+
+  try {
+    return parser._lexer.lookahead().kind === definitionKeywords[token.value];
+  } catch (_error) {
+    return true;
+  }
+};
+
 export const parseDocument: FParser<DocumentNode> = (parser) =>
   parser.node<DocumentNode>(parser._lexer.token, {
     kind: IrisKind.DOCUMENT,
@@ -32,6 +206,8 @@ export const parseDocument: FParser<DocumentNode> = (parser) =>
     ),
   });
 
+const describableKeywords = ['data', 'resolver', 'directive'];
+
 export const parseDefinition: FParser<DefinitionNode> = (parser) => {
   // Many definitions begin with a description and require a lookahead.
   const hasDescription = parser.peekDescription();
@@ -40,7 +216,10 @@ export const parseDefinition: FParser<DefinitionNode> = (parser) => {
     : parser._lexer.token;
 
   if (keywordToken.kind === TokenKind.NAME) {
-    const x = parseDefinitions(parser, keywordToken.value);
+    const x =
+      !hasDescription || describableKeywords.includes(keywordToken.value)
+        ? parseDefinitions(parser, keywordToken.value)
+        : undefined;
     if (x) {
       return x;
     }
@@ -68,11 +247,43 @@ export const parseDefinitions = (
       return parseTypeDefinition('data', parser);
     case 'directive':
       return parser.parseDirectiveDefinition();
+    case 'import':
+      return parseImportDefinition(parser);
+    case 'extend':
+      return parseTypeExtension(parser);
   }
 
   return undefined;
 };
 
+/**
+ * ```
+ * ImportDefinition :
+ *   - import { Name+ } from StringValue
+ * ```
+ */
+const parseImportDefinition = (parser: Parser): ImportDefinitionNode => {
+  const start = parser.lookAhead();
+  parser.expectKeyword('import');
+  const names = parser.many(
+    TokenKind.BRACE_L,
+    () => parser.parseName(),
+    TokenKind.BRACE_R,
+  );
+  parser.expectKeyword('from');
+
+  if (!parser.peek(TokenKind.STRING)) {
+    parser.throwExpected('import path');
+  }
+
+  const path = parser.parseStringLiteral();
+  return parser.node<ImportDefinitionNode>(start, {
+    kind: IrisKind.IMPORT_DEFINITION,
+    names,
+    path,
+  });
+};
+
 const parseTypeDefinition = <R extends Role>(
   role: R,
   parser: Parser,
@@ -81,6 +292,7 @@ const parseTypeDefinition = <R extends Role>(
   const description = parser.parseDescription();
   parser.expectKeyword(role);
   const name = parser.parseName();
+  const parameters = parser.parseTypeParameters();
   const directives = parser.parseConstDirectives();
   const variants: ReadonlyArray<VariantDefinitionNode<R>> =
     parseVariantsDefinition(role, name, parser);
@@ -89,6 +301,52 @@ const parseTypeDefinition = <R extends Role>(
     role,
     description,
     name,
+    parameters,
+    directives,
+    variants,
+  });
+};
+
+/**
+ * ```
+ * TypeExtension :
+ *   - extend data Name Directives[Const]? VariantsDefinition
+ *   - extend resolver Name Directives[Const]? VariantsDefinition
+ * ```
+ */
+const parseTypeExtension = (parser: Parser): TypeExtensionNode => {
+  const start = parser.lookAhead();
+  parser.expectKeyword('extend');
+  const keywordToken = parser.lookAhead();
+
+  switch (keywordToken.value) {
+    case 'data':
+      return parseTypeExtensionOf('data', parser, start);
+    case 'resolver':
+      return parseTypeExtensionOf('resolver', parser, start);
+  }
+
+  throw parser.unexpected(keywordToken);
+};
+
+const parseTypeExtensionOf = <R extends Role>(
+  role: R,
+  parser: Parser,
+  start: Token,
+): TypeExtensionNode<R> => {
+  parser.expectKeyword(role);
+  const name = parser.parseName();
+  const directives = parser.parseConstDirectives();
+  const variants = parseVariantsDefinition(role, name, parser, true);
+
+  if (directives.length === 0 && variants.length === 0) {
+    throw parser.unexpected();
+  }
+
+  return parser.node<TypeExtensionNode<R>>(start, {
+    kind: IrisKind.TYPE_EXTENSION,
+    role,
+    name,
     directives,
     variants,
   });
@@ -98,23 +356,28 @@ const parseVariantsDefinition = <R extends Role>(
   role: R,
   name: NameNode,
   parser: Parser,
+  isExtension = false,
 ): ReadonlyArray<VariantDefinitionNode<R>> => {
   const equal = parser.expectOptionalToken(TokenKind.EQUALS);
   if (!equal) {
     return [];
   }
 
-  switch (parser.lookAhead().kind) {
-    case TokenKind.NAME:
-      return parser.delimitedMany(TokenKind.PIPE, () =>
-        parseVariantDefinition(role, parser),
-      );
-    case TokenKind.BRACE_L:
-      return [parseVariantDefinition(role, parser, name)];
-    default:
-      parser.throwExpected('Variant');
-      return [];
+  const { kind } = parser.lookAhead();
+
+  // only extensions can start with a pipe: `extend data Deity = | Giant {}`
+  if (kind === TokenKind.NAME || (isExtension && kind === TokenKind.PIPE)) {
+    return parser.delimitedMany(TokenKind.PIPE, () =>
+      parseVariantDefinition(role, parser),
+    );
   }
+
+  if (kind === TokenKind.BRACE_L) {
+    return [parseVariantDefinition(role, parser, name)];
+  }
+
+  parser.throwExpected('Variant');
+  return [];
 };
 
 const parseVariantDefinition = <R extends Role>(
@@ -1,5 +1,5 @@
 import type { Source } from 'graphql';
-import { Token } from 'graphql';
+import { getLocation, Token, TokenKind as GQLTokenKind } from 'graphql';
 import { syntaxError } from 'graphql/error/syntaxError';
 import { dedentBlockStringLines } from 'graphql/language/blockString';
 
@@ -62,6 +62,29 @@ export class Lexer {
     return token;
   }
 
+  /**
+   * Moves the focus back to an already read token.
+   */
+  rewind(token: Token): void {
+    this.lastToken = token.prev ?? token;
+    this.token = token;
+  }
+
+  /**
+   * Restarts reading of tokens at the given position of the source.
+   * Tokens which were read after this position are discarded.
+   */
+  resetAt(offset: number): void {
+    const position = Math.min(offset, this.source.body.length);
+    const { line, column } = getLocation(this.source, position);
+    const token = new Token(GQLTokenKind.SOF, position, position, line, column);
+
+    this.line = line;
+    this.lineStart = position - column + 1;
+    this.lastToken = this.token;
+    this.token = token;
+  }
+
   /**
    * Looks ahead and returns the next non-ignored token, but does not change
    * the state of Lexer.
@@ -104,7 +127,9 @@ export function isPunctuatorTokenKind(kind: TokenKind): boolean {
     kind === TokenKind.BRACKET_R ||
     kind === TokenKind.BRACE_L ||
     kind === TokenKind.PIPE ||
-    kind === TokenKind.BRACE_R
+    kind === TokenKind.BRACE_R ||
+    kind === TokenKind.ANGLE_L ||
+    kind === TokenKind.ANGLE_R
   );
 }
 
@@ -247,7 +272,7 @@ function readNextToken(lexer: Lexer, start: number): Token {
       //   - FloatValue
       //   - StringValue
       //
-      // Punctuator :: one of ! $ & ( ) ... : = @ [ ] { | } ?
+      // Punctuator :: one of ! $ & ( ) ... : = @ [ ] { | } ? < >
       case 0x003f: // ?
         return createToken(
           lexer,
@@ -257,6 +282,10 @@ function readNextToken(lexer: Lexer, start: number): Token {
         );
       case 0x0024: // $
         return createToken(lexer, TokenKind.DOLLAR, position, position + 1);
+      case 0x003c: // <
+        return createToken(lexer, TokenKind.ANGLE_L, position, position + 1);
+      case 0x003e: // >
+        return createToken(lexer, TokenKind.ANGLE_R, position, position + 1);
       case 0x0026: // &
         return createToken(lexer, TokenKind.AMP, position, position + 1);
       case 0x0028: // (
@@ -415,13 +415,41 @@ export class Parser {
   }
 
   /**
-   * NamedType : Name
+   * ```
+   * NamedType : Name TypeArguments?
+   *
+   * TypeArguments : < Type+ >
+   * ```
    */
   parseNamedType(): NamedTypeNode {
-    return this.node<NamedTypeNode>(this._lexer.token, {
-      kind: IrisKind.NAMED_TYPE,
-      name: this.parseName(),
-    });
+    const start = this._lexer.token;
+    const name = this.parseName();
+    const args = this.optionalMany(
+      TokenKind.ANGLE_L,
+      this.parseTypeReference,
+      TokenKind.ANGLE_R,
+    );
+
+    // arguments are omitted for plain names, like in GraphQL named types.
+    return this.node<NamedTypeNode>(
+      start,
+      args.length !== 0
+        ? { kind: IrisKind.NAMED_TYPE, name, arguments: args }
+        : { kind: IrisKind.NAMED_TYPE, name },
+    );
+  }
+
+  /**
+   * ```
+   * TypeParameters : < Name+ >
+   * ```
+   */
+  parseTypeParameters(): Array<NameNode> {
+    return this.optionalMany(
+      TokenKind.ANGLE_L,
+      this.parseName,
+      TokenKind.ANGLE_R,
+    );
   }
 
   // Implements the parsing rules in the Type Definition section.
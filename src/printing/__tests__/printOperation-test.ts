@@ -0,0 +1,93 @@
+import { parse, validate } from 'graphql';
+
+import type { TranspileOptions } from '../../transpiling/toGQLSchema';
+import { toGQLSchema } from '../../transpiling/toGQLSchema';
+import { buildSchema } from '../../types/schema';
+
+import type { OperationOptions } from '../printOperation';
+import { printOperation } from '../printOperation';
+
+const schema = buildSchema(`
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+    children(limit: Int = 3, lifespan: Lifespan?): [Deity]
+  }
+
+  resolver Deity
+    = God
+    | Titan { name: String }
+
+  resolver Query = {
+    deities(lifespan: Lifespan?, limit: Int = 10): [Deity]
+    god(name: String): God?
+    count: Int
+  }
+
+  resolver Mutation = {
+    rename(name: String, to: String): God
+  }
+`);
+
+const validationErrors = (operation: string, mode: TranspileOptions['mode']) =>
+  validate(toGQLSchema(schema, {}, { mode }), parse(operation)).map(
+    ({ message }) => message,
+  );
+
+const matchOperation = (coordinate: string, options?: OperationOptions) => {
+  const operation = printOperation(schema, coordinate, options);
+
+  expect(validationErrors(operation, options?.mode)).toEqual([]);
+  expect(operation).toMatchSnapshot();
+};
+
+describe('printOperation', () => {
+  it('selects all fields and variants', () => {
+    matchOperation('Query.deities');
+  });
+
+  it('selects fields of resolver types up to the max depth', () => {
+    matchOperation('Query.god', { maxDepth: 1 });
+    matchOperation('Mutation.rename', { maxDepth: 2 });
+  });
+
+  it('prints fields of scalar types without selection', () => {
+    matchOperation('Query.count');
+  });
+
+  it('selects data objects and declares input variables in oneOf mode', () => {
+    matchOperation('Query.deities', { mode: 'oneOf', maxDepth: 2 });
+  });
+
+  it('aliases fields of variants with conflicting types', () => {
+    const conflicting = buildSchema(`
+      resolver X = { v: Int, w: String }
+      resolver A = X | Y { v(limit: Int): String?, w: String }
+
+      resolver Query = {
+        a: A
+      }
+    `);
+    const operation = printOperation(conflicting, 'Query.a');
+
+    expect(
+      validate(toGQLSchema(conflicting), parse(operation)).map(
+        ({ message }) => message,
+      ),
+    ).toEqual([]);
+    expect(operation).toMatchSnapshot();
+  });
+
+  it('rejects unknown root fields', () => {
+    expect(() => printOperation(schema, 'Queries.god')).toThrow(
+      'Unknown root type "Queries". Did you mean "Query"?',
+    );
+    expect(() => printOperation(schema, 'Query.gods')).toThrow(
+      'Unknown field "Query.gods". Did you mean "god"?',
+    );
+  });
+});
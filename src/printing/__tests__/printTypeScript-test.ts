@@ -0,0 +1,54 @@
+import { buildSchema } from '../../types/schema';
+
+import { printTypeScript } from '../printTypeScript';
+
+const matchTSSnapshot = (src: string) =>
+  expect(printTypeScript(buildSchema(src))).toMatchSnapshot();
+
+describe('printTypeScript', () => {
+  it('data types as discriminated unions', () => {
+    matchTSSnapshot(`
+      data Era = { name: String }
+
+      data Name = String
+
+      data Lifespan
+        = Immortal {}
+        | Limited { max: Int? }
+        | Era
+
+      data Result<E, A> = Ok { value: A } | Err { error: E }
+
+      resolver Query = {
+        lifespan(name: Name): Lifespan
+        age: Result<String, Int>
+      }
+    `);
+  });
+
+  it('resolver map with field arguments', () => {
+    matchTSSnapshot(`
+      resolver God = {
+        name: String
+        friends(limit: Int? = 3, name: String): [God]
+      }
+
+      resolver Deity = God | Titan { name: String }
+
+      resolver Query = {
+        deities: [Deity]
+        god(name: String): God?
+      }
+    `);
+  });
+
+  it('subscribe resolvers of Subscription fields', () => {
+    matchTSSnapshot(`
+      resolver Query = { hello: String }
+
+      resolver Subscription = {
+        ticks(interval: Int): Int
+      }
+    `);
+  });
+});
@@ -6,6 +6,12 @@ import type {
   IrisTypeRef,
   IrisVariant,
 } from '../types/definition';
+import { isSpecifiedScalarType } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+
+type RenderName = (name: string) => string;
+
+const sameName: RenderName = (name) => name;
 
 const variantTypeName = (typeName: string, name: string) =>
   `${typeName}_${name}`;
@@ -27,36 +33,46 @@ const renderVariant =
 const isStandaloneVariantType = ({ type, fields }: IrisVariant<'data'>) =>
   !isEmpty(fields) && !type;
 
-const renderTypeRef = (type: IrisTypeRef<'data'>): string => {
+const renderTypeRef = (
+  type: IrisTypeRef<'data'>,
+  renderName: RenderName,
+): string => {
   switch (type.kind) {
     case 'MAYBE':
-      return `?${renderTypeRef(type.ofType)}`;
+      return `?${renderTypeRef(type.ofType, renderName)}`;
 
     case 'LIST':
-      return `${renderTypeRef(type.ofType)}[]`;
+      return `${renderTypeRef(type.ofType, renderName)}[]`;
     case 'NAMED':
-      return type.ofType.name;
+      return renderName(type.ofType.name);
   }
 };
 
-const renderField = (name: string, { type }: IrisField<'data'>) =>
-  `${name}: ${renderTypeRef(type)}`;
+const renderField =
+  (renderName: RenderName) =>
+  ([name, { type }]: [string, IrisField<'data'>]) =>
+    `${name}: ${renderTypeRef(type, renderName)}`;
 
 const renderVariantType =
-  (typeName: string) =>
+  (typeName: string, renderName: RenderName = sameName) =>
   ({ name, fields }: IrisVariant<'data'>) => {
     const fieldEntries = Object.entries(fields ?? {});
     const defName = variantTypeName(typeName, name);
 
     const fieldDefs = [
       `__typename: "${name}"`,
-      ...fieldEntries.map((arg) => renderField(...arg)),
+      ...fieldEntries.map(renderField(renderName)),
     ];
 
     return `@typedef {{ ${fieldDefs.join(', ')} }} ${defName}`;
   };
 
 export const toJSODoc = (type: IrisTypeDefinition<'data'>) => {
+  // values of scalars are described by their own implementation
+  if (type.scalar) {
+    return `@type {${type.name}}`;
+  }
+
   const variants = type.variants();
   const variantTypes = variants
     .filter(isStandaloneVariantType)
@@ -65,3 +81,64 @@ export const toJSODoc = (type: IrisTypeDefinition<'data'>) => {
   const variantRefs = variants.map(renderVariant(type.name)).join(' | ');
   return [...variantTypes, `@type {(${variantRefs})}`].join('\n');
 };
+
+const jsScalarTypes: Record<string, string> = {
+  String: 'string',
+  ID: 'string',
+  Int: 'number',
+  Float: 'number',
+  Boolean: 'boolean',
+};
+
+const jsScalarName: RenderName = (name) => jsScalarTypes[name] ?? name;
+
+const printComment = (lines: ReadonlyArray<string>) =>
+  ['/**', ...lines.map((line) => ` * ${line}`.trimEnd()), ' */'].join('\n');
+
+const printTypedefs = (type: IrisTypeDefinition<'data'>): string => {
+  const { name, scalar, boxedScalar } = type;
+  const description = type.description?.split('\n') ?? [];
+  const typedef = (value: string) =>
+    printComment([...description, `@typedef {${value}} ${name}`]);
+
+  // custom scalars accept values of their own implementation
+  if (scalar) {
+    return typedef('*');
+  }
+
+  if (boxedScalar) {
+    return typedef(jsScalarName(boxedScalar.name));
+  }
+
+  const variants = type.variants();
+
+  if (type.isVariantType) {
+    const fields = Object.entries(variants[0]?.fields ?? {});
+    return typedef(`{ ${fields.map(renderField(jsScalarName)).join(', ')} }`);
+  }
+
+  const variantTypes = variants
+    .filter(isStandaloneVariantType)
+    .map((variant) =>
+      printComment([renderVariantType(name, jsScalarName)(variant)]),
+    );
+
+  return [
+    ...variantTypes,
+    typedef(`(${variants.map(renderVariant(name)).join(' | ')})`),
+  ].join('\n\n');
+};
+
+/**
+ * Prints JSDoc typedefs of all data types, which describe the values checked
+ * by `typeCheckValue` in JavaScript files. Standard scalars are replaced by
+ * their JavaScript types.
+ */
+export const printJSDoc = (schema: IrisSchema): string =>
+  Object.values(schema.types)
+    .filter(
+      (type): type is IrisTypeDefinition<'data'> =>
+        type.role === 'data' && !isSpecifiedScalarType(type),
+    )
+    .map(printTypedefs)
+    .join('\n\n');
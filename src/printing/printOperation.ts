@@ -0,0 +1,287 @@
+import { parse, print } from 'graphql';
+
+import { irisError } from '../error';
+import { inputTypeName, isDataObjectType } from '../transpiling/dataObjects';
+import type { TranspileOptions } from '../transpiling/toGQLSchema';
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import { getNamedType } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+import { didYouMean, suggestionList } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+
+export type OperationOptions = Pick<TranspileOptions, 'mode'> & {
+  /**
+   * Number of nested object values selected by the operation. Fields of
+   * object types below this depth are omitted.
+   *
+   * Default: 3
+   */
+  maxDepth?: number;
+};
+
+const operationTypes: ObjMap<string> = {
+  Query: 'query',
+  Mutation: 'mutation',
+  Subscription: 'subscription',
+};
+
+type Printer = {
+  mode: NonNullable<TranspileOptions['mode']>;
+  maxDepth: number;
+  variables: Array<string>;
+  variableNames: Set<string>;
+};
+
+// data types are leaves in `scalar` mode, in `oneOf` mode they are leaves
+// only if they are not transpiled to object types.
+const isObjectType = (printer: Printer, type: IrisTypeDefinition): boolean =>
+  type.role === 'resolver' ||
+  (printer.mode === 'oneOf' && isDataObjectType(type));
+
+const printInputTypeRef = (
+  printer: Printer,
+  type: IrisTypeRef<'data'>,
+  isNullable = false,
+): string => {
+  switch (type.kind) {
+    case 'MAYBE':
+      return printInputTypeRef(printer, type.ofType, true);
+    case 'LIST': {
+      const list = `[${printInputTypeRef(printer, type.ofType)}]`;
+      return isNullable ? list : `${list}!`;
+    }
+    case 'NAMED': {
+      const { name } = type.ofType;
+      const gqlName =
+        printer.mode === 'oneOf' && isDataObjectType(type.ofType)
+          ? inputTypeName(name)
+          : name;
+      return isNullable ? gqlName : `${gqlName}!`;
+    }
+  }
+};
+
+// arguments with default values can be omitted, so their variables are
+// nullable.
+const declareVariable = (
+  printer: Printer,
+  name: string,
+  { type, defaultValue }: IrisArgument,
+): string => {
+  let variableName = name;
+  for (let i = 2; printer.variableNames.has(variableName); i++) {
+    variableName = `${name}_${i}`;
+  }
+
+  printer.variableNames.add(variableName);
+  printer.variables.push(
+    `$${variableName}: ${printInputTypeRef(
+      printer,
+      type,
+      defaultValue !== undefined,
+    )}`,
+  );
+
+  return `$${variableName}`;
+};
+
+const printArguments = (
+  printer: Printer,
+  args: ReadonlyArray<IrisArgument> = [],
+  prefix?: string,
+): string => {
+  if (args.length === 0) {
+    return '';
+  }
+
+  const values = args.map(
+    (arg) =>
+      `${arg.name}: ${declareVariable(
+        printer,
+        prefix ? `${prefix}_${arg.name}` : arg.name,
+        arg,
+      )}`,
+  );
+
+  return `(${values.join(', ')})`;
+};
+
+const printField = (
+  printer: Printer,
+  field: IrisField,
+  depth: number,
+  alias?: string,
+): string | undefined => {
+  const type = getNamedType(field.type);
+  const isObject = isObjectType(printer, type);
+
+  if (isObject && depth >= printer.maxDepth) {
+    return undefined;
+  }
+
+  const args = printArguments(printer, field.args, alias ?? field.name);
+  const name = alias ? `${alias}: ${field.name}` : field.name;
+
+  return isObject
+    ? `${name}${args} ${printSelectionSet(printer, type, depth + 1)}`
+    : `${name}${args}`;
+};
+
+const printVariantSelections = (
+  printer: Printer,
+  variant: IrisVariant,
+  depth: number,
+  aliasedFields: ReadonlySet<string> = new Set(),
+): ReadonlyArray<string> => {
+  if (!variant.fields && variant.type) {
+    return variant.type.isVariantType
+      ? printVariantSelections(
+          printer,
+          variant.type.variants()[0],
+          depth,
+          aliasedFields,
+        )
+      : typeSelections(printer, variant.type, depth);
+  }
+
+  return Object.values(variant.fields ?? {}).flatMap(
+    (field) =>
+      printField(
+        printer,
+        field,
+        depth,
+        aliasedFields.has(field.name)
+          ? `${variant.name}_${field.name}`
+          : undefined,
+      ) ?? [],
+  );
+};
+
+const variantFields = (variant: IrisVariant): ReadonlyArray<IrisField> =>
+  variant.fields
+    ? Object.values(variant.fields)
+    : variant.type?.isVariantType
+    ? variantFields(variant.type.variants()[0])
+    : [];
+
+// fields of different variants with the same name, but different types, can
+// not be merged by GraphQL and are aliased by their variant names, e.g.
+// `Titan_name: name`.
+const conflictingFields = (
+  variants: ReadonlyArray<IrisVariant>,
+): ReadonlySet<string> => {
+  const fieldTypes = new Map<string, Set<string>>();
+
+  variants.flatMap(variantFields).forEach(({ name, type }) => {
+    fieldTypes.set(name, (fieldTypes.get(name) ?? new Set()).add(`${type}`));
+  });
+
+  return new Set(
+    [...fieldTypes].filter(([, types]) => types.size > 1).map(([name]) => name),
+  );
+};
+
+// variants are selected on fragments of their GraphQL object types, which
+// are named like in `toGQLSchema`.
+const typeSelections = (
+  printer: Printer,
+  type: IrisTypeDefinition,
+  depth: number,
+): ReadonlyArray<string> => {
+  const variants = type.variants();
+
+  if (type.isVariantType) {
+    return printVariantSelections(printer, variants[0], depth);
+  }
+
+  const aliasedFields = conflictingFields(variants);
+
+  return [
+    '__typename',
+    ...variants.flatMap((variant) => {
+      const selections = printVariantSelections(
+        printer,
+        variant,
+        depth,
+        aliasedFields,
+      );
+      const objectName = variant.type
+        ? variant.type.name
+        : `${type.name}_${variant.name}`;
+
+      return selections.length === 0
+        ? []
+        : [`... on ${objectName} { ${selections.join(' ')} }`];
+    }),
+  ];
+};
+
+const printSelectionSet = (
+  printer: Printer,
+  type: IrisTypeDefinition,
+  depth: number,
+): string => {
+  const selections = typeSelections(printer, type, depth);
+
+  return `{ ${selections.length === 0 ? '__typename' : selections.join(' ')} }`;
+};
+
+/**
+ * Prints a GraphQL operation for a root field, e.g. `Query.deities`, which
+ * selects all fields and variants of its result up to `maxDepth` nested
+ * objects and declares a variable for every argument.
+ */
+export const printOperation = (
+  schema: IrisSchema,
+  coordinate: string,
+  { mode = 'scalar', maxDepth = 3 }: OperationOptions = {},
+): string => {
+  const [typeName, fieldName] = coordinate.split('.');
+  const rootTypes = Object.keys(operationTypes).filter(
+    (name) => schema.types[name]?.role === 'resolver',
+  );
+
+  if (!rootTypes.includes(typeName)) {
+    throw irisError(
+      `Unknown root type "${typeName}".` +
+        didYouMean(suggestionList(typeName, rootTypes)),
+    );
+  }
+
+  const fields = schema.types[typeName].variantBy().fields ?? {};
+  const field = fields[fieldName];
+
+  if (!field) {
+    throw irisError(
+      `Unknown field "${coordinate}".` +
+        didYouMean(suggestionList(fieldName ?? '', Object.keys(fields))),
+    );
+  }
+
+  const printer: Printer = {
+    mode,
+    maxDepth,
+    variables: [],
+    variableNames: new Set(),
+  };
+
+  const args = printArguments(printer, field.args);
+  const type = getNamedType(field.type);
+  const selectionSet = isObjectType(printer, type)
+    ? printSelectionSet(printer, type, 1)
+    : '';
+  const variables =
+    printer.variables.length === 0 ? '' : `(${printer.variables.join(', ')})`;
+
+  return print(
+    parse(
+      `${operationTypes[typeName]} ${field.name}${variables} { ${field.name}${args} ${selectionSet} }`,
+    ),
+  );
+};
@@ -33,7 +33,7 @@ function printType(type: IrisTypeDefinition): string {
   const variants = type.variants();
   const start = printDescription(type) + `${type.role} ${type.name}`;
 
-  if (variants.length === 0) {
+  if (variants.length === 0 || type.scalar) {
     return start;
   }
 
@@ -55,7 +55,7 @@ const printVariant = (variant: IrisVariant): string =>
   printDescription(variant) +
   variant.name +
   printDeprecated(variant.deprecationReason) +
-  (variant.fields ? ' ' + printFields(Object.values(variant.fields)) : '');
+  (variant.fields ? printFields(Object.values(variant.fields)) : '');
 
 const printFields = (fields: ReadonlyArray<IrisField>): string =>
   printBlock(
@@ -72,7 +72,7 @@ const printFields = (fields: ReadonlyArray<IrisField>): string =>
   );
 
 const printBlock = (items: ReadonlyArray<string>): string =>
-  items.length !== 0 ? ' {\n' + items.join('\n') + '\n}' : '{}';
+  items.length !== 0 ? ' {\n' + items.join('\n') + '\n}' : ' {}';
 
 function printArgs(
   args: ReadonlyArray<IrisArgument>,
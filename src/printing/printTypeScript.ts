@@ -0,0 +1,242 @@
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import { isSpecifiedScalarType } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+
+const scalarTypes: Record<string, string> = {
+  String: 'string',
+  ID: 'string',
+  Int: 'number',
+  Float: 'number',
+  Boolean: 'boolean',
+};
+
+const header = `/* eslint-disable */
+// Generated from an Iris schema, changes will be overwritten.
+import type { GraphQLResolveInfo } from 'graphql';
+
+export type Maybe<T> = T | null | undefined;
+
+export type Resolver<Parent, Args, Result, Context> = (
+  parent: Parent,
+  args: Args,
+  context: Context,
+  info: GraphQLResolveInfo,
+) => Result | Promise<Result>;`;
+
+const printTypeRef = (type: IrisTypeRef): string => {
+  switch (type.kind) {
+    case 'MAYBE':
+      return `Maybe<${printTypeRef(type.ofType)}>`;
+    case 'LIST':
+      return `ReadonlyArray<${printTypeRef(type.ofType)}>`;
+    case 'NAMED':
+      return scalarTypes[type.ofType.name] ?? type.ofType.name;
+  }
+};
+
+const printMember = (
+  name: string,
+  type: IrisTypeRef,
+  value: string = printTypeRef(type),
+) => `${name}${type.kind === 'MAYBE' ? '?' : ''}: ${value};`;
+
+const printObject = (members: ReadonlyArray<string>, indentation = '') =>
+  members.length === 0
+    ? '{}'
+    : `{\n${members
+        .map((m) => `${indentation}  ${m}`)
+        .join('\n')}\n${indentation}}`;
+
+const printTypename = (name: string, isOptional = false) =>
+  `__typename${isOptional ? '?' : ''}: ${JSON.stringify(name)};`;
+
+const printTypenameObject = (name: string) =>
+  `{ __typename: ${JSON.stringify(name)} }`;
+
+// fields of resolver values can be resolved by their own resolvers, e.g.
+// fields with arguments, so they are optional in partial objects.
+const printFields = (
+  variant: IrisVariant,
+  isPartial = false,
+): ReadonlyArray<string> =>
+  Object.values(variant.fields ?? {}).map(({ name, type }: IrisField) =>
+    isPartial ? `${name}?: ${printTypeRef(type)};` : printMember(name, type),
+  );
+
+const printAlias = (name: string, value: string) =>
+  `export type ${name} = ${value};`;
+
+const hasRequiredFields = (variant: IrisVariant) =>
+  Object.values(variant.fields ?? {}).some(({ type }) => type.kind !== 'MAYBE');
+
+// variants without required fields are also represented by their names.
+const orVariantName = (variant: IrisVariant, value: string) =>
+  hasRequiredFields(variant)
+    ? value
+    : `${JSON.stringify(variant.name)} | ${value}`;
+
+// values follow the representations accepted by `typeCheckValue`.
+const printDataType = (type: IrisTypeDefinition<'data'>): string => {
+  const { name, scalar, boxedScalar } = type;
+  const variants = type.variants();
+
+  if (scalar) {
+    return printAlias(name, scalarTypes[name] ?? 'unknown');
+  }
+
+  if (boxedScalar) {
+    return printAlias(name, scalarTypes[boxedScalar.name] ?? boxedScalar.name);
+  }
+
+  if (type.isVariantType) {
+    return printAlias(
+      name,
+      orVariantName(
+        variants[0],
+        printObject([printTypename(name, true), ...printFields(variants[0])]),
+      ),
+    );
+  }
+
+  const variantTypes = variants
+    .filter((variant) => Object.keys(variant.fields ?? {}).length !== 0)
+    .map((variant) =>
+      printAlias(
+        `${name}_${variant.name}`,
+        printObject([printTypename(variant.name), ...printFields(variant)]),
+      ),
+    );
+
+  const members = variants.map((variant) => {
+    if (variant.type) {
+      return orVariantName(
+        variant.type.variantBy(),
+        `(${variant.type.name} & ${printTypenameObject(variant.name)})`,
+      );
+    }
+
+    return orVariantName(
+      variant,
+      Object.keys(variant.fields ?? {}).length === 0
+        ? printTypenameObject(variant.name)
+        : `${name}_${variant.name}`,
+    );
+  });
+
+  return [...variantTypes, printAlias(name, members.join(' | '))].join('\n\n');
+};
+
+// resolver values are objects, members of unions are discriminated by the
+// names of their GraphQL object types.
+const printResolverType = (type: IrisTypeDefinition<'resolver'>): string => {
+  const { name } = type;
+  const variants = type.variants();
+
+  if (type.isVariantType) {
+    return printAlias(name, printObject(printFields(variants[0], true)));
+  }
+
+  const variantTypes = variants
+    .filter((variant) => !variant.type)
+    .map((variant) =>
+      printAlias(
+        `${name}_${variant.name}`,
+        printObject([
+          printTypename(`${name}_${variant.name}`),
+          ...printFields(variant, true),
+        ]),
+      ),
+    );
+
+  const members = variants.map((variant) =>
+    variant.type
+      ? `(${variant.type.name} & ${printTypenameObject(variant.name)})`
+      : `${name}_${variant.name}`,
+  );
+
+  return [...variantTypes, printAlias(name, members.join(' | '))].join('\n\n');
+};
+
+const printArgs = (args: ReadonlyArray<IrisArgument> = []): string =>
+  printObject(
+    args.map(({ name, type, defaultValue }) =>
+      defaultValue === undefined
+        ? printMember(name, type)
+        : `${name}: ${printTypeRef(type)};`,
+    ),
+    '    ',
+  );
+
+const subscriptionResolver = `export type SubscriptionResolver<Args, Result, Context> = {
+  subscribe: Resolver<unknown, Args, AsyncIterable<unknown>, Context>;
+  resolve?: Resolver<any, Args, Result, Context>;
+};`;
+
+// fields of \`Subscription\` can also be resolved by a \`subscribe\` function.
+const printVariantResolvers = (
+  variant: IrisVariant<'resolver'>,
+  parent: string,
+): string =>
+  `${variant.name}?: ` +
+  printObject(
+    Object.values(variant.fields ?? {}).map(({ name, type, args }) => {
+      const [argsType, resultType] = [printArgs(args), printTypeRef(type)];
+      const resolver = `Resolver<${parent}, ${argsType}, ${resultType}, Context>`;
+
+      return variant.name === 'Subscription'
+        ? `${name}?: ${resolver} | SubscriptionResolver<${argsType}, ${resultType}, Context>;`
+        : `${name}?: ${resolver};`;
+    }),
+    '  ',
+  ) +
+  ';';
+
+const printResolverMap = (
+  types: ReadonlyArray<IrisTypeDefinition<'resolver'>>,
+): string => {
+  const variants = types.flatMap((type) =>
+    type
+      .variants()
+      .filter((variant) => variant.fields)
+      .map((variant) =>
+        printVariantResolvers(
+          variant,
+          type.isVariantType ? type.name : `${type.name}_${variant.name}`,
+        ),
+      ),
+  );
+
+  return `export type ResolverMap<Context = unknown> = ${printObject(
+    variants,
+  )};`;
+};
+
+/**
+ * Prints a TypeScript module with types of data and resolver values and a
+ * `ResolverMap` type, which checks resolvers against the schema.
+ */
+export const printTypeScript = (schema: IrisSchema): string => {
+  const types = Object.values(schema.types).filter(
+    (type) => !isSpecifiedScalarType(type),
+  );
+  const resolverTypes = types.filter(
+    (type): type is IrisTypeDefinition<'resolver'> => type.role === 'resolver',
+  );
+
+  return [
+    header,
+    ...(schema.types.Subscription ? [subscriptionResolver] : []),
+    ...types.map((type) =>
+      type.role === 'data'
+        ? printDataType(type as IrisTypeDefinition<'data'>)
+        : printResolverType(type as IrisTypeDefinition<'resolver'>),
+    ),
+    printResolverMap(resolverTypes),
+  ].join('\n\n');
+};
@@ -42,7 +42,10 @@ const printDocASTReducer: ASTReducer<string> = {
 
   // Type
 
-  NamedType: { leave: ({ name }) => name },
+  NamedType: {
+    leave: ({ name, arguments: args }) =>
+      name + wrap('<', join(args, ', '), '>'),
+  },
   ListType: { leave: ({ type }) => '[' + type + ']' },
   MaybeType: { leave: ({ type }) => type + '?' },
 
@@ -70,10 +73,29 @@ const printDocASTReducer: ASTReducer<string> = {
   },
 
   TypeDefinition: {
-    leave: ({ role, description, name, directives, variants }) =>
+    leave: ({ role, description, name, parameters, directives, variants }) =>
       wrap('', description, '\n') +
       join(
-        [role, name, join(directives, ' '), wrap('= ', join(variants, ' | '))],
+        [
+          role,
+          name + wrap('<', join(parameters, ', '), '>'),
+          join(directives, ' '),
+          wrap('= ', join(variants, ' | ')),
+        ],
+        ' ',
+      ),
+  },
+
+  TypeExtension: {
+    leave: ({ role, name, directives, variants }) =>
+      join(
+        [
+          'extend',
+          role,
+          name,
+          join(directives, ' '),
+          wrap('= ', join(variants, ' | ')),
+        ],
         ' ',
       ),
   },
@@ -92,6 +114,11 @@ const printDocASTReducer: ASTReducer<string> = {
       ' on ' +
       join(locations, ' | '),
   },
+
+  ImportDefinition: {
+    leave: ({ names, path }) =>
+      'import { ' + join(names, ', ') + ' } from ' + path,
+  },
 };
 
 /**
@@ -0,0 +1,240 @@
+import { buildSchema } from '../../types/schema';
+
+import type { RPCHttpRequest, RPCHttpResponse } from '../createRPCHandler';
+import { createRPCHandler } from '../createRPCHandler';
+import type { RPCOptions } from '../executeRPC';
+import { executeRPC, parseRPCRequest } from '../executeRPC';
+
+const schema = buildSchema(`
+  data Lifespan = Immortal {} | Limited { max: Int? }
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+    parents: [Deity]
+    children(limit: Int): [Deity]
+  }
+
+  resolver Deity = God | Titan { name: String }
+
+  resolver Query = {
+    deities(lifespan: Lifespan?, limit: Int = 10): [Deity]
+    god(name: String): God?
+  }
+
+  resolver Mutation = {
+    rename(name: String, to: String): God
+  }
+`);
+
+const cronos = { __typename: 'Deity_Titan', name: 'Cronos' };
+const zeus = {
+  __typename: 'God',
+  name: 'Zeus',
+  lifespan: 'Immortal',
+  parents: () => [cronos],
+};
+
+const resolvers = {
+  Query: {
+    deities: jest.fn(() => [zeus, cronos]),
+    god: (_: unknown, { name }: { name: string }) =>
+      name === 'Zeus' ? zeus : null,
+  },
+  God: {
+    children: () => [zeus],
+  },
+};
+
+const call = (request: unknown, options: RPCOptions = { resolvers }) =>
+  executeRPC(parseRPCRequest(schema, request), options);
+
+describe('parseRPCRequest', () => {
+  it('validates params and adds default values', () => {
+    const { type, field, args } = parseRPCRequest(schema, {
+      method: 'Query.deities',
+      params: { lifespan: { __typename: 'Limited', max: 80 } },
+    });
+
+    expect([type.name, field.name, args]).toEqual([
+      'Query',
+      'deities',
+      { lifespan: { __typename: 'Limited', max: 80 }, limit: 10 },
+    ]);
+  });
+
+  it.each([
+    ['not an object', 'Query.deities'],
+    ['malformed method', { method: 'deities' }],
+    ['unknown root type', { method: 'Queries.deities' }],
+    ['unknown method', { method: 'Query.deity' }],
+    ['params of wrong type', { method: 'Query.god', params: ['Zeus'] }],
+    ['unknown argument', { method: 'Query.god', params: { nme: 'Zeus' } }],
+    ['missing argument', { method: 'Query.god' }],
+    [
+      'invalid argument',
+      { method: 'Query.deities', params: { lifespan: 'Mortal' } },
+    ],
+  ])('rejects %s', (_, request) => {
+    expect(() =>
+      parseRPCRequest(schema, request),
+    ).toThrowErrorMatchingSnapshot();
+  });
+});
+
+describe('executeRPC', () => {
+  it('returns the full result tree', async () => {
+    expect(
+      await call({ method: 'Query.god', params: { name: 'Zeus' } }),
+    ).toEqual({
+      name: 'Zeus',
+      lifespan: 'Immortal',
+      parents: [{ __typename: 'Deity_Titan', name: 'Cronos' }],
+    });
+  });
+
+  it('passes arguments to resolvers of root fields', async () => {
+    const [god, titan] = (await call({
+      method: 'Query.deities',
+      params: { lifespan: 'Immortal' },
+    })) as Array<unknown>;
+
+    expect(god).toMatchObject({ __typename: 'God', name: 'Zeus' });
+    expect(titan).toEqual({ __typename: 'Deity_Titan', name: 'Cronos' });
+    expect(resolvers.Query.deities).toHaveBeenCalledWith(
+      undefined,
+      { lifespan: 'Immortal', limit: 10 },
+      undefined,
+    );
+  });
+
+  it('omits resolver fields below the max depth', async () => {
+    expect(
+      await call(
+        { method: 'Query.god', params: { name: 'Zeus' } },
+        { resolvers, maxDepth: 1 },
+      ),
+    ).toEqual({ name: 'Zeus', lifespan: 'Immortal' });
+  });
+
+  it('resolves root fields from the root value', async () => {
+    expect(
+      await call(
+        { method: 'Mutation.rename', params: { name: 'Zeus', to: 'Jupiter' } },
+        {
+          rootValue: {
+            rename: ({ to }: { to: string }) => ({ ...zeus, name: to }),
+          },
+        },
+      ),
+    ).toMatchObject({ name: 'Jupiter' });
+  });
+
+  it('rejects invalid results', async () => {
+    await expect(
+      call(
+        { method: 'Query.god', params: { name: 'Zeus' } },
+        {
+          resolvers: {
+            Query: { god: () => ({ ...zeus, lifespan: 'Mortal' }) },
+          },
+        },
+      ),
+    ).rejects.toThrowErrorMatchingSnapshot();
+
+    await expect(
+      call(
+        { method: 'Query.deities' },
+        { resolvers: { Query: { deities: () => [{ name: 'Zeus' }] } } },
+      ),
+    ).rejects.toThrowErrorMatchingSnapshot();
+  });
+});
+
+describe('createRPCHandler', () => {
+  const request = (method: string, body: string): RPCHttpRequest => ({
+    method,
+    setEncoding: () => undefined,
+    async *[Symbol.asyncIterator]() {
+      yield await Promise.resolve(body.slice(0, 5));
+      yield body.slice(5);
+    },
+  });
+
+  const handle = async (method: string, body: string) => {
+    const headers: Record<string, string> = {};
+    let responseBody = '';
+    const response: RPCHttpResponse = {
+      statusCode: 0,
+      setHeader: (name, value) => {
+        headers[name] = value;
+      },
+      end: (chunk) => {
+        responseBody = chunk;
+      },
+    };
+
+    await createRPCHandler(schema, {
+      resolvers: {
+        Query: {
+          ...resolvers.Query,
+          deities: () => {
+            throw new Error('Olympus is unreachable.');
+          },
+        },
+        Mutation: {
+          rename: (_: unknown, __: unknown, context: unknown) => context,
+        },
+      },
+      context: (req) => ({ ...zeus, name: req.method }),
+    })(request(method, body), response);
+
+    return {
+      status: response.statusCode,
+      contentType: headers['Content-Type'],
+      body: JSON.parse(responseBody),
+    };
+  };
+
+  it('responds with the result', async () => {
+    expect(
+      await handle(
+        'POST',
+        JSON.stringify({ method: 'Query.god', params: { name: 'Hades' } }),
+      ),
+    ).toEqual({
+      status: 200,
+      contentType: 'application/json; charset=utf-8',
+      body: { result: null },
+    });
+  });
+
+  it('rejects invalid requests', async () => {
+    expect(await handle('GET', '')).toMatchSnapshot();
+    expect(await handle('POST', '{ method')).toMatchObject({ status: 400 });
+    expect(
+      await handle('POST', JSON.stringify({ method: 'Query.gods' })),
+    ).toMatchSnapshot();
+  });
+
+  it('passes the context of requests to resolvers', async () => {
+    expect(
+      await handle(
+        'POST',
+        JSON.stringify({
+          method: 'Mutation.rename',
+          params: { name: 'Zeus', to: 'Jupiter' },
+        }),
+      ),
+    ).toMatchObject({ status: 200, body: { result: { name: 'POST' } } });
+  });
+
+  it('responds with errors of resolvers', async () => {
+    expect(
+      await handle(
+        'POST',
+        JSON.stringify({ method: 'Query.deities', params: { limit: 1 } }),
+      ),
+    ).toMatchSnapshot();
+  });
+});
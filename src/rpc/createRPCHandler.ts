@@ -0,0 +1,85 @@
+import type { IrisSchema } from '../types/schema';
+
+import type { RPCCall, RPCOptions } from './executeRPC';
+import { executeRPC, parseRPCRequest } from './executeRPC';
+
+/**
+ * The parts of `http.IncomingMessage` read by the handler.
+ */
+export type RPCHttpRequest = AsyncIterable<string> & {
+  method?: string;
+  setEncoding: (encoding: 'utf8') => unknown;
+};
+
+/**
+ * The parts of `http.ServerResponse` written by the handler.
+ */
+export type RPCHttpResponse = {
+  statusCode: number;
+  setHeader: (name: string, value: string) => unknown;
+  end: (body: string) => unknown;
+};
+
+export type RPCHandlerOptions = Omit<RPCOptions, 'context'> & {
+  /**
+   * Creates the context passed to resolvers of a request.
+   */
+  context?: (request: RPCHttpRequest) => unknown;
+};
+
+const send = (response: RPCHttpResponse, statusCode: number, body: unknown) => {
+  response.statusCode = statusCode;
+  response.setHeader('Content-Type', 'application/json; charset=utf-8');
+  response.end(JSON.stringify(body));
+};
+
+const readBody = async (request: RPCHttpRequest): Promise<string> => {
+  request.setEncoding('utf8');
+
+  let body = '';
+  for await (const chunk of request) {
+    body += chunk;
+  }
+  return body;
+};
+
+/**
+ * Creates a Node `http` request handler, which executes JSON bodies like
+ * `{ "method": "Query.deities", "params": {} }` with `executeRPC` and
+ * responds with `{ "result": ... }` or `{ "error": { "message": ... } }`.
+ *
+ * Invalid requests are rejected with status 400, errors of resolvers and
+ * their results respond with status 500.
+ *
+ * @example
+ * ```ts
+ * http.createServer(createRPCHandler(schema, { resolvers })).listen(4000);
+ * ```
+ */
+export const createRPCHandler =
+  (schema: IrisSchema, { context, ...options }: RPCHandlerOptions = {}) =>
+  async (request: RPCHttpRequest, response: RPCHttpResponse): Promise<void> => {
+    if (request.method !== 'POST') {
+      response.setHeader('Allow', 'POST');
+      return send(response, 405, {
+        error: { message: 'RPC requests must use the POST method.' },
+      });
+    }
+
+    let call: RPCCall;
+    try {
+      call = parseRPCRequest(schema, JSON.parse(await readBody(request)));
+    } catch (error) {
+      return send(response, 400, { error: { message: error.message } });
+    }
+
+    try {
+      const result = await executeRPC(call, {
+        ...options,
+        context: context?.(request),
+      });
+      return send(response, 200, { result });
+    } catch (error) {
+      return send(response, 500, { error: { message: error.message } });
+    }
+  };
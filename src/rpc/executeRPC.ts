@@ -0,0 +1,336 @@
+import { cannotRepresent, typeCheckValue } from '../validation/typeCheckValue';
+
+import { irisError } from '../error';
+import type { ResolverMap } from '../transpiling/toGQLSchema';
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import { getNamedType, isRequiredArgument } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+import { didYouMean, inspect, suggestionList } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+import { isIterableObject, isObjectLike } from '../utils/ObjMap';
+
+/**
+ * A call of a root field, e.g. `{ "method": "Query.deities", "params": {} }`.
+ */
+export type RPCRequest = {
+  method: string;
+  params?: ObjMap<unknown>;
+};
+
+/**
+ * A validated call, which arguments are type checked and completed by
+ * their default values.
+ */
+export type RPCCall = {
+  type: IrisTypeDefinition<'resolver'>;
+  field: IrisField<'resolver'>;
+  args: ObjMap<unknown>;
+};
+
+export type RPCOptions = {
+  resolvers?: ResolverMap;
+  rootValue?: unknown;
+  context?: unknown;
+  /**
+   * Number of nested resolver values included in the result. Fields of
+   * resolver types below this depth are omitted.
+   *
+   * Default: 3
+   */
+  maxDepth?: number;
+};
+
+const RPC_ROOT_TYPES = ['Query', 'Mutation'];
+
+type Resolve = (
+  parent: unknown,
+  args: ObjMap<unknown>,
+  context: unknown,
+) => unknown;
+
+const findByName = <T>(map: ObjMap<T>, name: string, message: string): T => {
+  const value = map[name];
+
+  if (value === undefined) {
+    throw irisError(
+      message + didYouMean(suggestionList(name, Object.keys(map))),
+    );
+  }
+
+  return value;
+};
+
+const parseArgs = (
+  method: string,
+  args: ReadonlyArray<IrisArgument>,
+  params: unknown,
+): ObjMap<unknown> => {
+  if (!isObjectLike(params) || isIterableObject(params)) {
+    throw irisError(
+      `Params of "${method}" must be an object, but got: ${inspect(params)}.`,
+    );
+  }
+
+  const argNames = args.map(({ name }) => name);
+
+  for (const name of Object.keys(params)) {
+    if (!argNames.includes(name)) {
+      throw irisError(
+        `Unknown argument "${name}" on "${method}".` +
+          didYouMean(suggestionList(name, argNames)),
+      );
+    }
+  }
+
+  const parsed: ObjMap<unknown> = {};
+  for (const { name, type, defaultValue } of args) {
+    const value = params[name] === undefined ? defaultValue : params[name];
+
+    try {
+      parsed[name] = typeCheckValue(value, type);
+    } catch (error) {
+      throw irisError(`Argument "${method}(${name}:)": ${error.message}`);
+    }
+  }
+
+  return parsed;
+};
+
+/**
+ * Validates the method and params of a request against root fields of the
+ * schema. Only fields of `Query` and `Mutation` can be called.
+ */
+export const parseRPCRequest = (
+  schema: IrisSchema,
+  request: unknown,
+): RPCCall => {
+  if (!isObjectLike(request) || typeof request.method !== 'string') {
+    throw irisError(
+      `RPC request must be an object with a string "method", but got: ${inspect(
+        request,
+      )}.`,
+    );
+  }
+
+  const { method, params = {} } = request;
+  const [typeName, fieldName, ...rest] = method.split('.');
+
+  if (fieldName === undefined || rest.length > 0) {
+    throw irisError(
+      `Method "${method}" must have the form "Type.field", e.g. "Query.${
+        fieldName ?? typeName
+      }".`,
+    );
+  }
+
+  const rootTypes: ObjMap<IrisTypeDefinition<'resolver'>> = {};
+  for (const name of RPC_ROOT_TYPES) {
+    const type = schema.types[name];
+    if (type?.role === 'resolver') {
+      rootTypes[name] = type as IrisTypeDefinition<'resolver'>;
+    }
+  }
+
+  const type = findByName(
+    rootTypes,
+    typeName,
+    `Unknown root type "${typeName}".`,
+  );
+  const field = findByName(
+    type.variantBy().fields ?? {},
+    fieldName,
+    `Unknown method "${method}".`,
+  );
+
+  return { type, field, args: parseArgs(method, field.args ?? [], params) };
+};
+
+type Execution = {
+  resolvers: ResolverMap;
+  context: unknown;
+  maxDepth: number;
+};
+
+const resolverOf = (
+  resolvers: ResolverMap,
+  variantName: string,
+  fieldName: string,
+): Resolve | undefined => {
+  const typeResolvers = resolvers[variantName];
+  const resolve = isObjectLike(typeResolvers)
+    ? typeResolvers[fieldName]
+    : undefined;
+
+  return typeof resolve === 'function' ? (resolve as Resolve) : undefined;
+};
+
+// like the default resolver of GraphQL, fields without resolvers are read
+// from the parent value, functions are called with arguments and context.
+const resolveField = (
+  execution: Execution,
+  variantName: string,
+  field: IrisField<'resolver'>,
+  parent: unknown,
+  args: ObjMap<unknown>,
+): unknown => {
+  const resolve = resolverOf(execution.resolvers, variantName, field.name);
+
+  if (resolve) {
+    return resolve(parent, args, execution.context);
+  }
+
+  const property = isObjectLike(parent) ? parent[field.name] : undefined;
+
+  return typeof property === 'function'
+    ? property.call(parent, args, execution.context)
+    : property;
+};
+
+const completeValue = async (
+  execution: Execution,
+  type: IrisTypeRef,
+  result: unknown,
+  depth: number,
+): Promise<unknown> => {
+  const value = await result;
+
+  switch (type.kind) {
+    case 'MAYBE':
+      return value == null
+        ? null
+        : completeValue(execution, type.ofType, value, depth);
+    case 'LIST': {
+      if (!isIterableObject(value)) {
+        throw cannotRepresent(value, `[${type.ofType}]`);
+      }
+
+      return Promise.all(
+        [...value].map((item) =>
+          completeValue(execution, type.ofType, item, depth),
+        ),
+      );
+    }
+    case 'NAMED':
+      return type.ofType.role === 'data'
+        ? typeCheckValue(value, type as IrisTypeRef<'data'>)
+        : completeObject(
+            execution,
+            type.ofType as IrisTypeDefinition<'resolver'>,
+            value,
+            depth,
+          );
+  }
+};
+
+// members of resolver unions are discriminated by `__typename`, which is
+// either the variant name or the name of its GraphQL object type.
+const variantOfObject = (
+  type: IrisTypeDefinition<'resolver'>,
+  value: ObjMap<unknown>,
+): IrisVariant<'resolver'> => {
+  const variants = type.variants();
+
+  if (type.isVariantType) {
+    return variants[0];
+  }
+
+  const variant = variants.find(
+    ({ name }) =>
+      value.__typename === name || value.__typename === `${type.name}_${name}`,
+  );
+
+  if (!variant) {
+    throw irisError(
+      `Object ${inspect(value)} must provide variant name for type "${
+        type.name
+      }".`,
+    );
+  }
+
+  return variant;
+};
+
+const completeObject = async (
+  execution: Execution,
+  type: IrisTypeDefinition<'resolver'>,
+  value: unknown,
+  depth: number,
+): Promise<ObjMap<unknown>> => {
+  if (!isObjectLike(value) || isIterableObject(value)) {
+    throw cannotRepresent(value, type.name);
+  }
+
+  const variant = variantOfObject(type, value);
+
+  if (!variant.fields && variant.type) {
+    return {
+      __typename: variant.name,
+      ...(await completeObject(execution, variant.type, value, depth)),
+    };
+  }
+
+  const fields = Object.values(variant.fields ?? {}).filter(
+    ({ type: fieldType, args = [] }) =>
+      !args.some(isRequiredArgument) &&
+      (getNamedType(fieldType).role === 'data' || depth < execution.maxDepth),
+  );
+
+  const values = await Promise.all(
+    fields.map(async (field) => {
+      const args = parseArgs(
+        `${variant.name}.${field.name}`,
+        field.args ?? [],
+        {},
+      );
+      const fieldValue = await resolveField(
+        execution,
+        variant.name,
+        field,
+        value,
+        args,
+      );
+
+      return [
+        field.name,
+        await completeValue(execution, field.type, fieldValue, depth + 1),
+      ];
+    }),
+  );
+
+  return {
+    ...(type.isVariantType
+      ? {}
+      : { __typename: `${type.name}_${variant.name}` }),
+    ...Object.fromEntries(values),
+  };
+};
+
+/**
+ * Executes a validated call and returns the full result tree: fields of
+ * resolver values are resolved without a selection, until `maxDepth` nested
+ * resolver values. Fields with required arguments are omitted, other
+ * arguments get their default values.
+ */
+export const executeRPC = async (
+  call: RPCCall,
+  { resolvers = {}, rootValue, context, maxDepth = 3 }: RPCOptions = {},
+): Promise<unknown> => {
+  const execution = { resolvers, context, maxDepth };
+  const { type, field, args } = call;
+
+  const value = await resolveField(
+    execution,
+    type.name,
+    field,
+    rootValue,
+    args,
+  );
+
+  return completeValue(execution, field.type, value, 1);
+};
@@ -0,0 +1,181 @@
+import type { DirectiveNode, GraphQLSchema } from 'graphql';
+import {
+  buildSchema as buildGQLSchema,
+  print,
+  printSchema as printGQLSchema,
+} from 'graphql';
+
+import { printSchema } from '../../printing/printSchema';
+import type { IrisSchema } from '../../types/schema';
+import { buildSchema } from '../../types/schema';
+import type { Maybe } from '../../utils/type-level';
+
+import { fromGQLSchema } from '../fromGQLSchema';
+import { toGQLSchema } from '../toGQLSchema';
+
+const convertSchema = (source: GraphQLSchema | string): IrisSchema => {
+  const { schema, errors } = fromGQLSchema(source);
+
+  if (!schema) {
+    throw new Error(errors.map(String).join('\n\n'));
+  }
+
+  return schema;
+};
+
+const convert = (source: string) => ({
+  schema: printSchema(convertSchema(source)),
+  report: fromGQLSchema(source).report,
+});
+
+describe('fromGQLSchema', () => {
+  it('converts types, wrappers and deprecations', () => {
+    expect(
+      convert(`
+        """A god"""
+        type God {
+          name: String!
+          titles: [String!]
+          lifespan: Lifespan
+          age: Int @deprecated(reason: "Gods are timeless")
+        }
+
+        type Titan {
+          name: String!
+        }
+
+        union Deity = God | Titan
+
+        enum Lifespan {
+          IMMORTAL
+          MORTAL @deprecated
+        }
+
+        input Filter {
+          lifespan: [Lifespan!]
+        }
+
+        type Query {
+          deities(filter: Filter, limit: Int = 10): [Deity!]!
+        }
+      `),
+    ).toMatchSnapshot();
+  });
+
+  it('reports constructs without Iris equivalents', () => {
+    expect(
+      convert(`
+        schema {
+          query: RootQuery
+        }
+
+        directive @auth(role: String) on OBJECT | SCHEMA
+
+        interface Node {
+          id: ID!
+        }
+
+        interface Named {
+          name: String!
+        }
+
+        type God implements Node @auth(role: "admin") {
+          id: ID!
+        }
+
+        input Filter {
+          name: String = "Zeus"
+        }
+
+        type RootQuery {
+          node(filter: Filter): Node
+          named: Named
+        }
+      `),
+    ).toMatchSnapshot();
+  });
+
+  it('keeps custom scalars', () => {
+    const gqlSchema = buildGQLSchema(`
+      scalar DateTime
+
+      type Query {
+        now: DateTime!
+      }
+    `);
+    const schema = convertSchema(gqlSchema);
+
+    expect(printSchema(schema)).toEqual(
+      'data DateTime\n\nresolver Query = {\n  now: DateTime\n}',
+    );
+    expect(schema.types.DateTime.scalar).toBe(gqlSchema.getType('DateTime'));
+  });
+
+  it('reverses toGQLSchema', () => {
+    const source = `
+      resolver God = {
+        name: String
+        friends(limit: Int?): [God]?
+      }
+
+      resolver Query = {
+        gods: [God]
+      }
+    `;
+
+    const gqlSchema = toGQLSchema(buildSchema(source));
+    expect(printSchema(convertSchema(gqlSchema))).toEqual(
+      printSchema(buildSchema(source)),
+    );
+    expect(printGQLSchema(toGQLSchema(convertSchema(gqlSchema)))).toEqual(
+      printGQLSchema(gqlSchema),
+    );
+  });
+  it('keeps applied directives of converted directive definitions', () => {
+    const schema = convertSchema(`
+      directive @auth(role: String) on OBJECT | FIELD_DEFINITION | ENUM_VALUE
+
+      enum Lifespan {
+        IMMORTAL @auth(role: "god")
+        MORTAL
+      }
+
+      type Query @auth(role: "admin") {
+        lifespan: Lifespan @auth
+      }
+    `);
+    const directives = (
+      node: Maybe<{ directives?: ReadonlyArray<DirectiveNode> }>,
+    ) => node?.directives?.map((directive) => print(directive));
+    const query = schema.types.Query;
+
+    expect(directives(query.astNode)).toEqual(['@auth(role: "admin")']);
+    expect(directives(query.variantBy().fields?.lifespan.astNode)).toEqual([
+      '@auth',
+    ]);
+    expect(directives(schema.types.Lifespan.variants()[0].astNode)).toEqual([
+      '@auth(role: "god")',
+    ]);
+  });
+
+  it('returns an error for root types, which cannot be renamed', () => {
+    const { schema, errors } = fromGQLSchema(`
+      schema {
+        query: RootQuery
+      }
+
+      type Query {
+        name: String
+      }
+
+      type RootQuery {
+        query: Query
+      }
+    `);
+
+    expect(schema).toBeUndefined();
+    expect(errors.map(({ message }) => message)).toEqual([
+      'Root type "RootQuery" cannot be renamed to "Query", because the type "Query" already exists.',
+    ]);
+  });
+});
@@ -1,6 +1,14 @@
+import { GraphQLScalarType, Kind, parse, subscribe } from 'graphql';
+import { isAsyncIterable } from 'graphql/jsutils/isAsyncIterable';
+
 import { graphql, irisSchema } from '../../index';
+import { printSchema } from '../../printing/printSchema';
+import type { IrisIntrospectionQuery } from '../../types/introspection';
+import { buildClientIrisSchema } from '../../utils/buildClientIrisSchema';
 import { toJSONDeep } from '../../utils/toJSONDeep';
 
+import type { ResolverMap } from '../toGQLSchema';
+
 describe('Simple Integration', () => {
   const schema = irisSchema(`
   resolver Query = {
@@ -123,3 +131,567 @@ describe('Sophisticated Integration:', () => {
     expect(toJSONDeep(result)).toMatchSnapshot();
   });
 });
+
+describe('Data Literals:', () => {
+  const schema = irisSchema(`
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  data Range = {
+    min: Int
+    max: Int?
+  }
+
+  resolver Query = {
+    lifespan(value: Lifespan): Lifespan
+    range(value: Range): Range
+  }
+  `);
+
+  const rootValue = {
+    lifespan: ({ value }: { value: unknown }) => value,
+    range: ({ value }: { value: unknown }) => value,
+  };
+
+  const api = (source: string, variableValues?: Record<string, unknown>) =>
+    graphql({ schema, rootValue, source, variableValues }).then(toJSONDeep);
+
+  it('variant names as enum values', async () => {
+    expect(await api('{ lifespan(value: Immortal) }')).toEqual({
+      data: { lifespan: 'Immortal' },
+    });
+  });
+
+  it('variant objects', async () => {
+    expect(
+      await api('{ lifespan(value: { __typename: "Limited", max: 3 }) }'),
+    ).toEqual({
+      data: { lifespan: { __typename: 'Limited', max: 3 } },
+    });
+
+    expect(await api('{ range(value: { min: 1 }) }')).toEqual({
+      data: { range: { min: 1, max: null } },
+    });
+  });
+
+  it('variables inside of literals', async () => {
+    const query = `
+      query Range($min: Int!, $max: Int) {
+        range(value: { min: $min, max: $max })
+      }
+    `;
+
+    expect(await api(query, { min: 2, max: 4 })).toEqual({
+      data: { range: { min: 2, max: 4 } },
+    });
+    expect(await api(query, { min: 2 })).toEqual({
+      data: { range: { min: 2, max: null } },
+    });
+  });
+
+  it('type checks variables inside of literals', async () => {
+    const query = `
+      query Range($min: String!) {
+        range(value: { min: $min })
+      }
+    `;
+
+    expect(await api(query, { min: 'abc' })).toEqual({
+      data: null,
+      errors: [
+        {
+          message: 'Argument "value" has invalid value {min: $min}.',
+          locations: [{ line: 3, column: 22 }],
+          path: ['range'],
+        },
+      ],
+    });
+  });
+
+  it('invalid literals', async () => {
+    expect(await api('{ range(value: { max: 1 }) }')).toMatchSnapshot();
+    expect(await api('{ range(value: { min: 1, bogus: 2 }) }')).toEqual({
+      errors: [
+        {
+          message: 'Data "Range" cannot represent literal: {min: 1, bogus: 2}.',
+          locations: [{ line: 1, column: 16 }],
+        },
+      ],
+    });
+    expect(await api('{ lifespan(value: Thor) }')).toMatchSnapshot();
+    expect(await api('{ lifespan(value: "Immortal") }')).toMatchSnapshot();
+  });
+});
+
+describe('Custom Scalars:', () => {
+  const parseDate = (value: unknown) => {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      throw new TypeError(`Invalid date: ${String(value)}`);
+    }
+    return new Date(value);
+  };
+
+  const DateTime = new GraphQLScalarType({
+    name: 'DateTime',
+    serialize: (value) =>
+      value instanceof Date ? value.toISOString() : parseDate(value),
+    parseValue: parseDate,
+    parseLiteral: (node) =>
+      parseDate(node.kind === Kind.STRING ? node.value : undefined),
+  });
+
+  const schema = irisSchema(
+    `
+  data DateTime
+
+  data Event = {
+    name: String
+    date: DateTime
+  }
+
+  resolver Query = {
+    now: DateTime
+    event(value: Event): Event
+  }
+  `,
+    { scalars: { DateTime } },
+  );
+
+  const rootValue = {
+    now: () => new Date(Date.UTC(2020, 0, 1)),
+    event: ({ value }: { value: unknown }) => value,
+  };
+
+  const api = (source: string) =>
+    graphql({ schema, rootValue, source }).then(toJSONDeep);
+
+  it('serializes custom scalars', async () => {
+    expect(await api('{ now }')).toEqual({
+      data: { now: '2020-01-01T00:00:00.000Z' },
+    });
+  });
+
+  it('parses custom scalars inside of data literals', async () => {
+    expect(
+      await api(
+        '{ event(value: { name: "Release", date: "2020-01-01T00:00:00.000Z" }) }',
+      ),
+    ).toEqual({
+      data: {
+        event: { name: 'Release', date: '2020-01-01T00:00:00.000Z' },
+      },
+    });
+
+    expect(
+      await api('{ event(value: { name: "Release", date: "tomorrow" }) }'),
+    ).toMatchSnapshot();
+  });
+});
+
+describe('Generic Types:', () => {
+  const schema = irisSchema(`
+  data Result<E, A> = Ok { value: A } | Err { error: E }
+
+  resolver Page<T> = {
+    items: [T]
+    total: Int
+  }
+
+  resolver Deity = {
+    name: String
+  }
+
+  resolver Query = {
+    deities: Page<Deity>
+    age(name: String): Result<String, Int>
+  }
+  `);
+
+  const rootValue = {
+    deities: () => ({ items: [{ name: 'Iris' }], total: 1 }),
+    age: ({ name }: { name: string }) =>
+      name === 'Iris'
+        ? { __typename: 'Ok', value: 3000 }
+        : { __typename: 'Err', error: `Unknown deity ${name}` },
+  };
+
+  const api = (source: string) =>
+    graphql({ schema, rootValue, source }).then(toJSONDeep);
+
+  it('instances have concrete names', async () => {
+    expect(
+      await api('{ deities { __typename total items { name } } }'),
+    ).toEqual({
+      data: {
+        deities: {
+          __typename: 'Page_Deity',
+          total: 1,
+          items: [{ name: 'Iris' }],
+        },
+      },
+    });
+  });
+
+  it('instances of data types', async () => {
+    expect(await api('{ a: age(name: "Iris"), b: age(name: "Thor") }')).toEqual(
+      {
+        data: {
+          a: { __typename: 'Ok', value: 3000 },
+          b: { __typename: 'Err', error: 'Unknown deity Thor' },
+        },
+      },
+    );
+  });
+});
+
+describe('OneOf Mode:', () => {
+  const schema = irisSchema(
+    `
+  data Era = { name: String }
+
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+    | Era
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+  }
+
+  resolver Query = {
+    gods(lifespan: Lifespan = Immortal): [God]
+  }
+  `,
+    { mode: 'oneOf' },
+  );
+
+  const rootValue = {
+    gods: ({ lifespan }: { lifespan: unknown }) => [{ name: 'Zeus', lifespan }],
+  };
+
+  const api = (source: string) =>
+    graphql({ schema, rootValue, source }).then(toJSONDeep);
+
+  const selection = `{
+    name
+    lifespan {
+      __typename
+      ... on Lifespan_Limited { max }
+      ... on Era { name }
+    }
+  }`;
+
+  it('data fields can be selected', async () => {
+    expect(await api(`{ gods ${selection} }`)).toEqual({
+      data: {
+        gods: [{ name: 'Zeus', lifespan: { __typename: 'Lifespan_Immortal' } }],
+      },
+    });
+  });
+
+  it('input objects are converted to data values', async () => {
+    expect(
+      await api(`{
+        limited: gods(lifespan: { Limited: { max: 3 } }) ${selection}
+        era: gods(lifespan: { Era: { name: "Bronze" } }) ${selection}
+      }`),
+    ).toEqual({
+      data: {
+        limited: [
+          {
+            name: 'Zeus',
+            lifespan: { __typename: 'Lifespan_Limited', max: 3 },
+          },
+        ],
+        era: [
+          {
+            name: 'Zeus',
+            lifespan: { __typename: 'Era', name: 'Bronze' },
+          },
+        ],
+      },
+    });
+  });
+
+  it('input objects must specify exactly one variant', async () => {
+    expect(
+      await api('{ gods(lifespan: { Immortal: true, Limited: {} }) { name } }'),
+    ).toMatchSnapshot();
+  });
+
+  it('variants without fields are selected by true', async () => {
+    expect(
+      await api('{ gods(lifespan: { Immortal: false }) { name } }'),
+    ).toMatchSnapshot();
+  });
+
+  it('variants without fields have the placeholder field', async () => {
+    expect(
+      await api(`{
+        gods(lifespan: { Immortal: true }) {
+          lifespan { ... on Lifespan_Immortal { _ } }
+        }
+      }`),
+    ).toEqual({ data: { gods: [{ lifespan: { _: null } }] } });
+  });
+});
+
+describe('Interfaces:', () => {
+  const schema = irisSchema(
+    `
+  resolver God = {
+    name: String
+  }
+
+  resolver Deity
+    = God
+    | Titan { name: String }
+
+  resolver Query = {
+    deities: [Deity]
+  }
+  `,
+    { interfaces: true },
+  );
+
+  const rootValue = {
+    deities: () => [
+      { __typename: 'God', name: 'Zeus' },
+      { __typename: 'Deity_Titan', name: 'Cronos' },
+    ],
+  };
+
+  it('shared fields can be selected without fragments', async () => {
+    const result = await graphql({
+      schema,
+      rootValue,
+      source: '{ deities { __typename name } }',
+    });
+
+    expect(toJSONDeep(result)).toEqual({
+      data: {
+        deities: [
+          { __typename: 'God', name: 'Zeus' },
+          { __typename: 'Deity_Titan', name: 'Cronos' },
+        ],
+      },
+    });
+  });
+});
+
+describe('Iris Introspection:', () => {
+  const schema = irisSchema(
+    `
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  resolver Query = {
+    deities(lifespan: Lifespan = Immortal): [String]
+  }
+  `,
+    { introspection: true },
+  );
+
+  it('returns the Iris schema by __iris', async () => {
+    const result = await graphql({ schema, source: '{ __iris }' });
+    const lifespan = (result.data as IrisIntrospectionQuery).__iris.types.find(
+      ({ name }) => name === 'Lifespan',
+    );
+
+    expect(result.errors).toBeUndefined();
+    expect(toJSONDeep(lifespan)).toEqual({
+      role: 'data',
+      name: 'Lifespan',
+      description: null,
+      variants: [
+        {
+          name: 'Immortal',
+          description: null,
+          fields: [],
+          type: null,
+          deprecationReason: null,
+          directives: [],
+        },
+        {
+          name: 'Limited',
+          description: null,
+          fields: [
+            {
+              name: 'max',
+              description: null,
+              type: { kind: 'MAYBE', ofType: { kind: 'NAMED', name: 'Int' } },
+              args: null,
+              deprecationReason: null,
+              directives: [],
+            },
+          ],
+          type: null,
+          deprecationReason: null,
+          directives: [],
+        },
+      ],
+      directives: [],
+    });
+  });
+
+  it('can be built to the Iris schema on the client', async () => {
+    const { data } = await graphql({ schema, source: '{ __iris }' });
+
+    expect(
+      printSchema(buildClientIrisSchema(data as IrisIntrospectionQuery)),
+    ).toEqual(
+      'data Lifespan = Immortal {} | Limited {\n  max: Int?\n}\n\n' +
+        'resolver Query = {\n  deities(lifespan: Lifespan = Immortal): [String]\n}',
+    );
+  });
+
+  it('is not added by default', async () => {
+    const result = await graphql({
+      schema: irisSchema('resolver Query = { hello: String }'),
+      source: '{ __iris }',
+    });
+
+    expect(result.errors?.map(String)).toEqual([
+      'Cannot query field "__iris" on type "Query".\n\nGraphQL request:1:3\n1 | { __iris }\n  |   ^',
+    ]);
+  });
+});
+
+describe('Subscriptions:', () => {
+  const typeDefs = `
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+  }
+
+  resolver Query = {
+    gods: [God]
+  }
+
+  resolver Subscription = {
+    born(limit: Int = 2): God
+    lifespans: Lifespan
+    ends(lifespan: Lifespan): Lifespan
+  }
+  `;
+
+  async function* stream<T>(values: ReadonlyArray<T>) {
+    await Promise.resolve();
+    yield* values;
+  }
+
+  const collect = async (
+    resolvers: ResolverMap,
+    source: string,
+    options: { mode?: 'scalar' | 'oneOf' } = {},
+  ) => {
+    const result = await subscribe({
+      schema: irisSchema(typeDefs, { resolvers, ...options }),
+      document: parse(source),
+    });
+
+    if (!isAsyncIterable(result)) {
+      return toJSONDeep(result);
+    }
+
+    const events = [];
+    for await (const event of result) {
+      events.push(toJSONDeep(event));
+    }
+    return events;
+  };
+
+  it('streams payloads of subscribe through resolve', async () => {
+    const events = await collect(
+      {
+        Subscription: {
+          born: {
+            subscribe: (_: unknown, { limit }: { limit: number }) =>
+              stream(['Athena', 'Apollo', 'Artemis'].slice(0, limit)),
+            resolve: (name: string) => ({ name, lifespan: 'Immortal' }),
+          },
+        },
+      },
+      'subscription { born { name lifespan } }',
+    );
+
+    expect(events).toEqual([
+      { data: { born: { name: 'Athena', lifespan: 'Immortal' } } },
+      { data: { born: { name: 'Apollo', lifespan: 'Immortal' } } },
+    ]);
+  });
+
+  it('reads payloads by the field name without resolve', async () => {
+    const events = await collect(
+      {
+        Subscription: {
+          lifespans: {
+            subscribe: () =>
+              stream([
+                { lifespans: 'Immortal' },
+                { lifespans: { __typename: 'Limited', max: 80 } },
+              ]),
+          },
+        },
+      },
+      'subscription { lifespans }',
+    );
+
+    expect(events).toEqual([
+      { data: { lifespans: 'Immortal' } },
+      { data: { lifespans: { __typename: 'Limited', max: 80 } } },
+    ]);
+  });
+
+  it('parses oneOf arguments of subscribe', async () => {
+    const events = await collect(
+      {
+        Subscription: {
+          ends: {
+            subscribe: (_: unknown, { lifespan }: { lifespan: unknown }) =>
+              stream([{ ends: lifespan }]),
+          },
+        },
+      },
+      `subscription {
+        ends(lifespan: { Limited: { max: 3 } }) {
+          ... on Lifespan_Limited { max }
+        }
+      }`,
+      { mode: 'oneOf' },
+    );
+
+    expect(events).toEqual([{ data: { ends: { max: 3 } } }]);
+  });
+
+  it('type checks streamed data values', async () => {
+    const resolvers = {
+      Subscription: {
+        lifespans: {
+          subscribe: () => stream(['Immortal', 'Mortal', { max: 3 }]),
+          resolve: (lifespan: unknown) => lifespan,
+        },
+      },
+    };
+
+    expect(
+      await collect(resolvers, 'subscription { lifespans }'),
+    ).toMatchSnapshot();
+    expect(
+      await collect(
+        resolvers,
+        `subscription {
+          lifespans { __typename ... on Lifespan_Limited { max } }
+        }`,
+        { mode: 'oneOf' },
+      ),
+    ).toMatchSnapshot();
+  });
+});
@@ -1,11 +1,21 @@
-import { printSchema } from 'graphql';
+import type {
+  ConstDirectiveNode,
+  GraphQLInputObjectType,
+  GraphQLObjectType,
+} from 'graphql';
+import { print, printSchema, validateSchema } from 'graphql';
 
 import { buildSchema } from '../../types/schema';
+import type { Maybe } from '../../utils/type-level';
 
+import { printSchemaWithDirectives } from '../directives';
+import type { TranspileOptions } from '../toGQLSchema';
 import { toGQLSchema } from '../toGQLSchema';
 
-const matchGQLSnapshot = (src: string) =>
-  expect(printSchema(toGQLSchema(buildSchema(src)))).toMatchSnapshot();
+const matchGQLSnapshot = (src: string, options?: TranspileOptions) =>
+  expect(
+    printSchema(toGQLSchema(buildSchema(src), {}, options)),
+  ).toMatchSnapshot();
 
 describe('toGQLSchema', () => {
   it('hello world App', () => {
@@ -36,4 +46,127 @@ describe('toGQLSchema', () => {
       }
     `);
   });
+
+  it('data types as objects in oneOf mode', () => {
+    matchGQLSnapshot(
+      `
+      data Era = { name: String }
+
+      """
+      duration of life
+      """
+      data Lifespan
+        = Immortal {}
+        | Limited { max: Int? }
+        | Era
+
+      resolver Query = {
+        lifespan(lifespan: Lifespan = Immortal, era: Era?): Lifespan
+      }
+    `,
+      { mode: 'oneOf' },
+    );
+  });
+
+  it('resolver unions with shared fields as interfaces', () => {
+    matchGQLSnapshot(
+      `
+      resolver God = {
+        name: String
+        children(limit: Int = 3): [Deity]
+      }
+
+      """
+      A supernatural being
+      """
+      resolver Deity
+        = God
+        | Titan { name: String, children(limit: Int = 3): [Deity], age: Int }
+
+      resolver Creature
+        = God
+        | Nymph { name: String? }
+
+      resolver Query = {
+        deities: [Deity]
+      }
+    `,
+      { interfaces: true },
+    );
+  });
+});
+
+describe('toGQLSchema directives', () => {
+  const src = `
+    directive @auth(role: String = "admin") repeatable on RESOLVER_DEFINITION | FIELD_DEFINITION
+
+    data Lifespan = Immortal {} | Limited { max: Int? @deprecated(reason: "Use age") }
+
+    resolver God @auth(role: "god") = {
+      name: String @auth
+      age: Int? @deprecated(reason: "Gods are timeless")
+    }
+
+    extend resolver God @auth(role: "titan")
+
+    resolver Query = {
+      gods(limit: Int? @deprecated, lifespan: Lifespan?): [God]
+    }
+  `;
+
+  it('converts directive definitions and deprecations', () => {
+    matchGQLSnapshot(src);
+    matchGQLSnapshot(src, { mode: 'oneOf' });
+  });
+
+  it('keeps applied directives on AST nodes', () => {
+    const schema = toGQLSchema(buildSchema(src));
+    const god = schema.getType('God') as GraphQLObjectType;
+    const directiveNames = (
+      node: Maybe<{ directives?: ReadonlyArray<ConstDirectiveNode> }>,
+    ) => node?.directives?.map((directive) => print(directive));
+
+    expect(directiveNames(god.astNode)).toEqual([
+      '@auth(role: "god")',
+      '@auth(role: "titan")',
+    ]);
+    expect(directiveNames(god.getFields().name.astNode)).toEqual(['@auth']);
+    expect(god.getFields().name.astNode?.name.value).toEqual('name');
+  });
+
+  it('builds complete AST nodes for applied directives', () => {
+    const schema = toGQLSchema(buildSchema(src));
+    const god = schema.getType('God') as GraphQLObjectType;
+    const { astNode } = god.getFields().name;
+
+    expect(astNode && print(astNode)).toEqual('name: String! @auth');
+  });
+
+  it('deprecates required data fields only in output types', () => {
+    const schema = toGQLSchema(
+      buildSchema(`
+        data User = { name: String @deprecated(reason: "Use id"), id: ID }
+
+        resolver Query = {
+          user(user: User): User
+        }
+      `),
+      {},
+      { mode: 'oneOf' },
+    );
+    const user = schema.getType('User') as GraphQLObjectType;
+    const userInput = schema.getType('UserInput') as GraphQLInputObjectType;
+
+    expect(validateSchema(schema)).toEqual([]);
+    expect(user.getFields().name.deprecationReason).toEqual('Use id');
+    expect(userInput.getFields().name.deprecationReason).toEqual(null);
+  });
+
+  it('prints applied directives and @oneOf of input objects', () => {
+    expect(
+      printSchemaWithDirectives(
+        toGQLSchema(buildSchema(src), {}, { mode: 'oneOf' }),
+      ),
+    ).toMatchSnapshot();
+  });
 });
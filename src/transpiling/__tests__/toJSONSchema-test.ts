@@ -0,0 +1,140 @@
+import Ajv from 'ajv/dist/2020';
+import { GraphQLScalarType } from 'graphql';
+
+import { typeCheckValue } from '../../validation/typeCheckValue';
+
+import type { IrisTypeDefinition } from '../../types/definition';
+import { liftType } from '../../types/definition';
+import { buildSchema } from '../../types/schema';
+
+import { toJSONSchema } from '../toJSONSchema';
+
+const schema = buildSchema(
+  `
+  data DateTime
+
+  data Name = String
+
+  data Era = {
+    name: Name
+    start: DateTime?
+  }
+
+  """
+  duration of life
+  """
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+    | Cyclic @deprecated { cycles: [Int] }
+    | Era
+
+  data Tree = Leaf { value: ID } | Node { children: [Tree] }
+
+  resolver Query = {
+    lifespan: Lifespan
+    tree: Tree
+  }
+`,
+  { scalars: { DateTime: new GraphQLScalarType({ name: 'DateTime' }) } },
+);
+
+describe('toJSONSchema', () => {
+  it('all data types', () => {
+    expect(toJSONSchema(schema)).toMatchSnapshot();
+  });
+
+  it('recursive data types reference their definitions', () => {
+    expect(toJSONSchema(schema, 'Tree')).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $ref: '#/$defs/Tree',
+      $defs: {
+        Tree: {
+          oneOf: [
+            {
+              type: 'object',
+              properties: {
+                __typename: { const: 'Leaf' },
+                value: { type: ['string', 'integer'] },
+              },
+              required: ['__typename', 'value'],
+            },
+            {
+              type: 'object',
+              properties: {
+                __typename: { const: 'Node' },
+                children: { type: 'array', items: { $ref: '#/$defs/Tree' } },
+              },
+              required: ['__typename', 'children'],
+            },
+          ],
+        },
+      },
+    });
+  });
+
+  it('includes only dependencies of the given type', () => {
+    expect(Object.keys(toJSONSchema(schema, 'Era').$defs ?? {})).toEqual([
+      'Era',
+      'Name',
+      'DateTime',
+    ]);
+  });
+
+  it('accepts the same values as typeCheckValue', () => {
+    const samples: ReadonlyArray<[string, unknown]> = [
+      ['Lifespan', 'Immortal'],
+      ['Lifespan', { __typename: 'Immortal' }],
+      ['Lifespan', { __typename: 'Immortal', max: 3 }],
+      ['Lifespan', 'Limited'],
+      ['Lifespan', { __typename: 'Limited' }],
+      ['Lifespan', { __typename: 'Limited', max: null }],
+      ['Lifespan', { __typename: 'Limited', max: 1.5 }],
+      ['Lifespan', 'Cyclic'],
+      ['Lifespan', { __typename: 'Cyclic', cycles: [1, 2] }],
+      ['Lifespan', 'Era'],
+      ['Lifespan', { __typename: 'Era', name: 'Bronze' }],
+      ['Lifespan', { name: 'Bronze' }],
+      ['Lifespan', 'Mortal'],
+      ['Lifespan', {}],
+      ['Era', { name: 'Bronze' }],
+      ['Era', { __typename: 'Era', name: 'Bronze' }],
+      ['Era', { __typename: 'Epoch', name: 'Bronze' }],
+      ['Era', 'Era'],
+      ['Era', {}],
+      ['Tree', { __typename: 'Leaf', value: 1 }],
+      ['Tree', 'Leaf'],
+      ['Tree', { __typename: 'Node', children: ['Leaf'] }],
+      ['Tree', { __typename: 'Node', children: [{ __typename: 'Leaf' }] }],
+    ];
+
+    const ajv = new Ajv({ allowUnionTypes: true });
+
+    const isTypeChecked = (typeName: string, value: unknown) => {
+      const type = schema.types[typeName] as IrisTypeDefinition<'data'>;
+
+      try {
+        typeCheckValue(value, liftType(type));
+        return true;
+      } catch {
+        return false;
+      }
+    };
+
+    samples.forEach(([typeName, value]) => {
+      const isValid = ajv.validate(toJSONSchema(schema, typeName), value);
+
+      expect([typeName, value, isValid]).toEqual([
+        typeName,
+        value,
+        isTypeChecked(typeName, value),
+      ]);
+    });
+  });
+
+  it('rejects unknown data types', () => {
+    expect(() => toJSONSchema(schema, 'Query')).toThrow(
+      'Unknown data type "Query".',
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import type { ConstDirectiveNode } from 'graphql';
+import { DirectiveLocation, GraphQLDirective, Kind } from 'graphql';
+import { isNil } from 'ramda';
+
+import { irisError } from '../error';
+import type {
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import { liftType } from '../types/definition';
+import { inspect } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+import { isObjectLike } from '../utils/ObjMap';
+
+export const GraphQLOneOfDirective = new GraphQLDirective({
+  name: 'oneOf',
+  description:
+    'Indicates exactly one field must be supplied and this field must not be `null`.',
+  locations: [DirectiveLocation.INPUT_OBJECT],
+});
+
+// applied to the input objects of data types, which accept one variant.
+export const oneOfDirectiveNode: ConstDirectiveNode = {
+  kind: Kind.DIRECTIVE,
+  name: { kind: Kind.NAME, value: GraphQLOneOfDirective.name },
+};
+
+/**
+ * GraphQL object types and input objects require at least one field, so
+ * variants without fields get the nullable Boolean field `_`, which always
+ * resolves to null.
+ */
+export const PLACEHOLDER_FIELD = '_';
+
+/**
+ * Data types can be represented by GraphQL objects if they are not scalars and
+ * all of their variants have fields or include such data types.
+ */
+export const isDataObjectType = (type: IrisTypeDefinition): boolean => {
+  const variants = type.variants();
+
+  return (
+    type.role === 'data' &&
+    !type.boxedScalar &&
+    variants.length !== 0 &&
+    variants.every(
+      (variant) =>
+        variant.fields !== undefined ||
+        (variant.type !== undefined && isDataObjectType(variant.type)),
+    )
+  );
+};
+
+export const inputTypeName = (name: string): string => `${name}Input`;
+
+/**
+ * Name of the object type, which represents the variant. Variants including
+ * other data types are represented by the object type of the included type.
+ */
+export const variantObjectName = (
+  type: IrisTypeDefinition,
+  variant: IrisVariant,
+): string => {
+  if (variant.type) {
+    return variant.type.name;
+  }
+
+  return type.isVariantType ? type.name : `${type.name}_${variant.name}`;
+};
+
+export const variantOfValue = (
+  type: IrisTypeDefinition<'data'>,
+  value: unknown,
+): IrisVariant<'data'> => {
+  if (typeof value === 'string') {
+    return type.variantBy(value);
+  }
+
+  const name = isObjectLike(value) ? value.__typename : undefined;
+  return type.variantBy(typeof name === 'string' ? name : undefined);
+};
+
+const fromInputFields = (
+  variant: IrisVariant<'data'>,
+  value: unknown,
+): ObjMap<unknown> => {
+  const fields = isObjectLike(value) ? value : {};
+
+  return Object.fromEntries(
+    Object.values(variant.fields ?? {}).map(({ name, type }) => [
+      name,
+      fromOneOfInput(fields[name], type),
+    ]),
+  );
+};
+
+/**
+ * Converts values of `@oneOf` input objects to values of Iris data types,
+ * e.g. `{ Limited: { max: 3 } }` to `{ __typename: "Limited", max: 3 }`.
+ */
+export const fromOneOfInput = (
+  value: unknown,
+  typeRef: IrisTypeRef<'data'>,
+): unknown => {
+  if (isNil(value)) {
+    return value;
+  }
+
+  switch (typeRef.kind) {
+    case 'MAYBE':
+      return fromOneOfInput(value, typeRef.ofType);
+    case 'LIST':
+      return Array.isArray(value)
+        ? value.map((item) => fromOneOfInput(item, typeRef.ofType))
+        : value;
+    case 'NAMED':
+      break;
+  }
+
+  const type = typeRef.ofType;
+
+  if (!isDataObjectType(type)) {
+    return value;
+  }
+
+  if (type.isVariantType) {
+    return fromInputFields(type.variantBy(), value);
+  }
+
+  const entries = Object.entries(isObjectLike(value) ? value : {}).filter(
+    ([, fieldValue]) => !isNil(fieldValue),
+  );
+
+  if (entries.length !== 1) {
+    throw irisError(
+      `OneOf Input Object "${inputTypeName(
+        type.name,
+      )}" must specify exactly one key, but got: ${inspect(value)}.`,
+    );
+  }
+
+  const [[name, variantValue]] = entries;
+  const variant = type.variantBy(name);
+
+  if (variant.type) {
+    return {
+      __typename: name,
+      ...(fromOneOfInput(variantValue, liftType(variant.type)) as object),
+    };
+  }
+
+  // variants without fields are selected by `true`.
+  if (Object.keys(variant.fields ?? {}).length === 0) {
+    if (variantValue !== true) {
+      throw irisError(
+        `OneOf Input Object field "${inputTypeName(
+          type.name,
+        )}.${name}" must be true, but got: ${inspect(variantValue)}.`,
+      );
+    }
+
+    return name;
+  }
+
+  return { __typename: name, ...fromInputFields(variant, variantValue) };
+};
+
+const toInputFields = (
+  variant: IrisVariant<'data'>,
+  value: unknown,
+): ObjMap<unknown> => {
+  const fields = isObjectLike(value) ? value : {};
+
+  return Object.fromEntries(
+    Object.values(variant.fields ?? {}).map(({ name, type }) => [
+      name,
+      toOneOfInput(fields[name], type),
+    ]),
+  );
+};
+
+/**
+ * Converts values of Iris data types to values of `@oneOf` input objects, it
+ * is the inverse of `fromOneOfInput`.
+ */
+export const toOneOfInput = (
+  value: unknown,
+  typeRef: IrisTypeRef<'data'>,
+): unknown => {
+  if (isNil(value)) {
+    return value;
+  }
+
+  switch (typeRef.kind) {
+    case 'MAYBE':
+      return toOneOfInput(value, typeRef.ofType);
+    case 'LIST':
+      return Array.isArray(value)
+        ? value.map((item) => toOneOfInput(item, typeRef.ofType))
+        : value;
+    case 'NAMED':
+      break;
+  }
+
+  const type = typeRef.ofType;
+
+  if (!isDataObjectType(type)) {
+    return value;
+  }
+
+  if (type.isVariantType) {
+    return toInputFields(type.variantBy(), value);
+  }
+
+  const variant = variantOfValue(type, value);
+
+  if (variant.type) {
+    return { [variant.name]: toOneOfInput(value, liftType(variant.type)) };
+  }
+
+  if (Object.keys(variant.fields ?? {}).length === 0) {
+    return { [variant.name]: true };
+  }
+
+  return { [variant.name]: toInputFields(variant, value) };
+};
@@ -0,0 +1,194 @@
+import type {
+  ConstDirectiveNode,
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLNullableType,
+  GraphQLSchema,
+  GraphQLType,
+  ListTypeNode,
+  NamedTypeNode,
+  NameNode,
+  TypeNode,
+} from 'graphql';
+import {
+  DirectiveLocation,
+  getNamedType,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  Kind,
+  parse,
+  print,
+  printSchema,
+  visit,
+} from 'graphql';
+
+import { IrisDirectiveLocation } from '../types/directiveLocation';
+import type { Maybe } from '../utils/type-level';
+
+/**
+ * GraphQL locations of the definitions, which Iris definitions with the given
+ * location are transpiled to.
+ */
+export const gqlLocations: Record<
+  IrisDirectiveLocation,
+  ReadonlyArray<DirectiveLocation>
+> = {
+  [IrisDirectiveLocation.QUERY]: [DirectiveLocation.QUERY],
+  [IrisDirectiveLocation.MUTATION]: [DirectiveLocation.MUTATION],
+  [IrisDirectiveLocation.SUBSCRIPTION]: [DirectiveLocation.SUBSCRIPTION],
+  [IrisDirectiveLocation.FIELD]: [DirectiveLocation.FIELD],
+  [IrisDirectiveLocation.FRAGMENT_DEFINITION]: [
+    DirectiveLocation.FRAGMENT_DEFINITION,
+  ],
+  [IrisDirectiveLocation.FRAGMENT_SPREAD]: [DirectiveLocation.FRAGMENT_SPREAD],
+  [IrisDirectiveLocation.INLINE_FRAGMENT]: [DirectiveLocation.INLINE_FRAGMENT],
+  [IrisDirectiveLocation.VARIABLE_DEFINITION]: [
+    DirectiveLocation.VARIABLE_DEFINITION,
+  ],
+  [IrisDirectiveLocation.DATA_DEFINITION]: [
+    DirectiveLocation.SCALAR,
+    DirectiveLocation.OBJECT,
+    DirectiveLocation.UNION,
+    DirectiveLocation.INPUT_OBJECT,
+  ],
+  [IrisDirectiveLocation.RESOLVER_DEFINITION]: [
+    DirectiveLocation.OBJECT,
+    DirectiveLocation.UNION,
+  ],
+  [IrisDirectiveLocation.VARIANT_DEFINITION]: [
+    DirectiveLocation.OBJECT,
+    DirectiveLocation.INPUT_OBJECT,
+    DirectiveLocation.INPUT_FIELD_DEFINITION,
+  ],
+  [IrisDirectiveLocation.FIELD_DEFINITION]: [
+    DirectiveLocation.FIELD_DEFINITION,
+    DirectiveLocation.INPUT_FIELD_DEFINITION,
+  ],
+  [IrisDirectiveLocation.ARGUMENT_DEFINITION]: [
+    DirectiveLocation.ARGUMENT_DEFINITION,
+  ],
+};
+
+export type DirectivesNode = Maybe<{
+  readonly directives?: ReadonlyArray<ConstDirectiveNode>;
+}>;
+
+export const nameNode = (value: string): NameNode => ({
+  kind: Kind.NAME,
+  value,
+});
+
+const nullableTypeNode = (
+  type: GraphQLNullableType,
+): NamedTypeNode | ListTypeNode =>
+  isListType(type)
+    ? { kind: Kind.LIST_TYPE, type: typeNode(type.ofType) }
+    : { kind: Kind.NAMED_TYPE, name: nameNode(getNamedType(type).name) };
+
+/**
+ * AST node of a type reference of the transpiled schema.
+ */
+export const typeNode = (type: GraphQLType): TypeNode =>
+  isNonNullType(type)
+    ? { kind: Kind.NON_NULL_TYPE, type: nullableTypeNode(type.ofType) }
+    : nullableTypeNode(type);
+
+/**
+ * graphql exposes applied directives only through AST nodes, so directives
+ * of Iris definitions (and their extensions) are added to the given AST node
+ * of the transpiled definition, which is kept only if there are any.
+ */
+export const astNodeWithDirectives = <
+  T extends { readonly directives?: ReadonlyArray<ConstDirectiveNode> },
+>(
+  node: T,
+  nodes: ReadonlyArray<DirectivesNode>,
+): T | undefined => {
+  const directives = nodes.flatMap((n) => n?.directives ?? []);
+
+  return directives.length === 0 ? undefined : { ...node, directives };
+};
+
+// `printSchema` prints deprecations and `@specifiedBy` from the definitions.
+const printedDirectives = ['deprecated', 'specifiedBy'];
+
+const withAppliedDirectives = <
+  T extends { readonly directives?: ReadonlyArray<ConstDirectiveNode> },
+>(
+  node: T,
+  astNode: DirectivesNode,
+): T => {
+  const directives = (astNode?.directives ?? []).filter(
+    ({ name }) => !printedDirectives.includes(name.value),
+  );
+
+  return directives.length === 0
+    ? node
+    : { ...node, directives: [...(node.directives ?? []), ...directives] };
+};
+
+/**
+ * Prints the schema like `printSchema` of graphql, including the directives
+ * applied to types, fields, arguments and enum values, which graphql keeps
+ * only on their AST nodes, e.g. `input LifespanInput @oneOf` in `oneOf` mode.
+ */
+export const printSchemaWithDirectives = (schema: GraphQLSchema): string => {
+  let type: GraphQLNamedType | undefined;
+  let field: GraphQLField<unknown, unknown> | undefined;
+
+  const typeVisitor = {
+    enter: ({ name }: { name: NameNode }) => {
+      type = schema.getType(name.value) ?? undefined;
+    },
+    leave: <T extends { directives?: ReadonlyArray<ConstDirectiveNode> }>(
+      node: T,
+    ) => withAppliedDirectives(node, type?.astNode),
+  };
+
+  const document = visit(parse(printSchema(schema)), {
+    ScalarTypeDefinition: typeVisitor,
+    ObjectTypeDefinition: typeVisitor,
+    InterfaceTypeDefinition: typeVisitor,
+    UnionTypeDefinition: typeVisitor,
+    EnumTypeDefinition: typeVisitor,
+    InputObjectTypeDefinition: typeVisitor,
+    DirectiveDefinition: {
+      enter: () => {
+        type = undefined;
+      },
+    },
+    FieldDefinition: {
+      enter: ({ name }) => {
+        field =
+          isObjectType(type) || isInterfaceType(type)
+            ? type.getFields()[name.value]
+            : undefined;
+      },
+      leave: (node) => {
+        const astNode = field?.astNode;
+        field = undefined;
+        return withAppliedDirectives(node, astNode);
+      },
+    },
+    InputValueDefinition: (node) =>
+      withAppliedDirectives(
+        node,
+        field
+          ? field.args.find(({ name }) => name === node.name.value)?.astNode
+          : isInputObjectType(type)
+          ? type.getFields()[node.name.value]?.astNode
+          : undefined,
+      ),
+    EnumValueDefinition: (node) =>
+      withAppliedDirectives(
+        node,
+        isEnumType(type) ? type.getValue(node.name.value)?.astNode : undefined,
+      ),
+  });
+
+  return print(document);
+};
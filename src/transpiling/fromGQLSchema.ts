@@ -0,0 +1,498 @@
+import type {
+  ConstDirectiveNode,
+  GraphQLArgument,
+  GraphQLDirective,
+  GraphQLEnumType,
+  GraphQLField,
+  GraphQLInputField,
+  GraphQLInputObjectType,
+  GraphQLInterfaceType,
+  GraphQLNamedType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLType,
+  GraphQLUnionType,
+  StringValueNode,
+} from 'graphql';
+import {
+  astFromValue,
+  buildSchema as buildGQLSchema,
+  DEFAULT_DEPRECATION_REASON,
+  DirectiveLocation,
+  GraphQLSchema,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isSpecifiedDirective,
+  isSpecifiedScalarType,
+  isUnionType,
+  Kind,
+} from 'graphql';
+
+import { validateSDL } from '../validation/validate';
+
+import type { IrisError } from '../error';
+import { irisError } from '../error';
+import type {
+  ArgumentDefinitionNode,
+  DirectiveDefinitionNode,
+  DocumentNode,
+  FieldDefinitionNode,
+  ListTypeNode,
+  NamedTypeNode,
+  NameNode,
+  Role,
+  TypeDefinitionNode,
+  TypeNode,
+  VariantDefinitionNode,
+} from '../types/ast';
+import type { IrisScalarMap } from '../types/definition';
+import { IrisDirectiveLocation } from '../types/directiveLocation';
+import { IrisKind } from '../types/kinds';
+import type { IrisSchema } from '../types/schema';
+import { buildASTSchema } from '../types/schema';
+import type { ObjMap } from '../utils/ObjMap';
+import type { Maybe } from '../utils/type-level';
+
+/**
+ * Describes a construct of the GraphQL schema, which has no Iris equivalent
+ * and was converted differently or dropped. Coordinates follow the GraphQL
+ * schema coordinates, e.g. `Query.user(id:)`.
+ */
+export type MigrationNote = {
+  coordinate: string;
+  message: string;
+};
+
+/**
+ * The schema is only returned, if the GraphQL schema could be converted
+ * without errors.
+ */
+export type MigrationResult = {
+  schema?: IrisSchema;
+  report: ReadonlyArray<MigrationNote>;
+  errors: ReadonlyArray<IrisError>;
+};
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription'] as const;
+
+const locationMap: ObjMap<IrisDirectiveLocation | undefined> = {
+  [DirectiveLocation.QUERY]: IrisDirectiveLocation.QUERY,
+  [DirectiveLocation.MUTATION]: IrisDirectiveLocation.MUTATION,
+  [DirectiveLocation.SUBSCRIPTION]: IrisDirectiveLocation.SUBSCRIPTION,
+  [DirectiveLocation.FIELD]: IrisDirectiveLocation.FIELD,
+  [DirectiveLocation.FRAGMENT_DEFINITION]:
+    IrisDirectiveLocation.FRAGMENT_DEFINITION,
+  [DirectiveLocation.FRAGMENT_SPREAD]: IrisDirectiveLocation.FRAGMENT_SPREAD,
+  [DirectiveLocation.INLINE_FRAGMENT]: IrisDirectiveLocation.INLINE_FRAGMENT,
+  [DirectiveLocation.VARIABLE_DEFINITION]:
+    IrisDirectiveLocation.VARIABLE_DEFINITION,
+  [DirectiveLocation.SCALAR]: IrisDirectiveLocation.DATA_DEFINITION,
+  [DirectiveLocation.OBJECT]: IrisDirectiveLocation.RESOLVER_DEFINITION,
+  [DirectiveLocation.FIELD_DEFINITION]: IrisDirectiveLocation.FIELD_DEFINITION,
+  [DirectiveLocation.ARGUMENT_DEFINITION]:
+    IrisDirectiveLocation.ARGUMENT_DEFINITION,
+  [DirectiveLocation.INTERFACE]: IrisDirectiveLocation.RESOLVER_DEFINITION,
+  [DirectiveLocation.UNION]: IrisDirectiveLocation.RESOLVER_DEFINITION,
+  [DirectiveLocation.ENUM]: IrisDirectiveLocation.DATA_DEFINITION,
+  [DirectiveLocation.ENUM_VALUE]: IrisDirectiveLocation.VARIANT_DEFINITION,
+  [DirectiveLocation.INPUT_OBJECT]: IrisDirectiveLocation.DATA_DEFINITION,
+  [DirectiveLocation.INPUT_FIELD_DEFINITION]:
+    IrisDirectiveLocation.FIELD_DEFINITION,
+};
+
+const nameNode = (value: string): NameNode => ({ kind: Kind.NAME, value });
+
+const descriptionNode = (
+  description: Maybe<string>,
+): StringValueNode | undefined =>
+  description
+    ? { kind: Kind.STRING, value: description, block: true }
+    : undefined;
+
+const deprecatedNodes = (
+  reason: Maybe<string>,
+): ReadonlyArray<ConstDirectiveNode> | undefined => {
+  if (reason == null) {
+    return undefined;
+  }
+
+  return [
+    {
+      kind: Kind.DIRECTIVE,
+      name: nameNode('deprecated'),
+      arguments:
+        reason === DEFAULT_DEPRECATION_REASON
+          ? []
+          : [
+              {
+                kind: Kind.ARGUMENT,
+                name: nameNode('reason'),
+                value: { kind: Kind.STRING, value: reason },
+              },
+            ],
+    },
+  ];
+};
+
+const namedTypeNode = (name: string): NamedTypeNode => ({
+  kind: IrisKind.NAMED_TYPE,
+  name: nameNode(name),
+});
+
+const typeDefinitionNode = <R extends Role>(
+  role: R,
+  type: { name: string; description?: Maybe<string> },
+  variants: ReadonlyArray<VariantDefinitionNode<R>>,
+): TypeDefinitionNode<R> => ({
+  kind: IrisKind.TYPE_DEFINITION,
+  role,
+  description: descriptionNode(type.description),
+  name: nameNode(type.name),
+  parameters: [],
+  variants,
+});
+
+/**
+ * Converts a GraphQL schema into an Iris schema. Object types become
+ * resolvers, unions become resolvers with a variant per member, input objects
+ * and enums become data types and scalars become data types implemented by
+ * the same scalar. Constructs without an Iris equivalent are listed in the
+ * migration report. Applied directives are kept, if their definitions could
+ * be converted.
+ */
+export const fromGQLSchema = (
+  source: GraphQLSchema | string,
+): MigrationResult => {
+  const gqlSchema =
+    source instanceof GraphQLSchema ? source : buildGQLSchema(source);
+  const report: Array<MigrationNote> = [];
+  const errors: Array<IrisError> = [];
+  const scalars: IrisScalarMap = {};
+  // names of converted directive definitions
+  const convertedDirectives = new Set<string>();
+
+  const note = (coordinate: string, message: string) => {
+    report.push({ coordinate, message });
+  };
+
+  // Iris identifies root types by their names.
+  const renamed: ObjMap<string> = {};
+  const rootTypes = [
+    gqlSchema.getQueryType(),
+    gqlSchema.getMutationType(),
+    gqlSchema.getSubscriptionType(),
+  ];
+
+  rootTypes.forEach((type, i) => {
+    if (type && type.name !== rootTypeNames[i]) {
+      const existingType = gqlSchema.getType(rootTypeNames[i]);
+
+      if (existingType) {
+        errors.push(
+          irisError(
+            `Root type "${type.name}" cannot be renamed to "${rootTypeNames[i]}", because the type "${rootTypeNames[i]}" already exists.`,
+          ),
+        );
+        return;
+      }
+
+      renamed[type.name] = rootTypeNames[i];
+      note(
+        type.name,
+        `Root type "${type.name}" was renamed to "${rootTypeNames[i]}".`,
+      );
+    }
+  });
+
+  const typeName = (name: string) => renamed[name] ?? name;
+
+  const convertTypeRef = (type: GraphQLType, isNonNull = false): TypeNode => {
+    if (isNonNullType(type)) {
+      return convertTypeRef(type.ofType, true);
+    }
+
+    const typeNode: NamedTypeNode | ListTypeNode = isListType(type)
+      ? { kind: IrisKind.LIST_TYPE, type: convertTypeRef(type.ofType) }
+      : namedTypeNode(typeName(type.name));
+
+    return isNonNull ? typeNode : { kind: IrisKind.MAYBE_TYPE, type: typeNode };
+  };
+
+  // deprecations are converted from the deprecation reason, other applied
+  // directives are dropped if their definition was not converted.
+  const convertDirectives = (
+    coordinate: string,
+    astNode: Maybe<{ readonly directives?: ReadonlyArray<ConstDirectiveNode> }>,
+    deprecationReason?: Maybe<string>,
+  ): ReadonlyArray<ConstDirectiveNode> | undefined => {
+    const applied = (astNode?.directives ?? []).filter(({ name }) => {
+      if (name.value === 'deprecated') {
+        return false;
+      }
+
+      if (!convertedDirectives.has(name.value)) {
+        note(
+          coordinate,
+          `Directive "@${name.value}" applied to "${coordinate}" was dropped.`,
+        );
+        return false;
+      }
+
+      return true;
+    });
+    const directives = [
+      ...(deprecatedNodes(deprecationReason) ?? []),
+      ...applied,
+    ];
+
+    return directives.length === 0 ? undefined : directives;
+  };
+
+  const convertArgument =
+    (coordinate: string) =>
+    (arg: GraphQLArgument): ArgumentDefinitionNode => {
+      const argCoordinate = `${coordinate}(${arg.name}:)`;
+
+      return {
+        kind: IrisKind.ARGUMENT_DEFINITION,
+        description: descriptionNode(arg.description),
+        name: nameNode(arg.name),
+        type: convertTypeRef(arg.type),
+        defaultValue: astFromValue(arg.defaultValue, arg.type) ?? undefined,
+        directives: convertDirectives(
+          argCoordinate,
+          arg.astNode,
+          arg.deprecationReason,
+        ),
+      } as ArgumentDefinitionNode;
+    };
+
+  const convertField =
+    <R extends Role>(parentName: string) =>
+    (
+      field: GraphQLField<unknown, unknown> | GraphQLInputField,
+    ): FieldDefinitionNode<R> => {
+      const coordinate = `${parentName}.${field.name}`;
+
+      if ('defaultValue' in field && field.defaultValue !== undefined) {
+        note(
+          coordinate,
+          `Default value of input field "${coordinate}" was dropped.`,
+        );
+      }
+
+      const args =
+        'args' in field
+          ? field.args.map(convertArgument(coordinate))
+          : undefined;
+
+      return {
+        kind: IrisKind.FIELD_DEFINITION,
+        description: descriptionNode(field.description),
+        name: nameNode(field.name),
+        type: convertTypeRef(field.type),
+        directives: convertDirectives(
+          coordinate,
+          field.astNode,
+          field.deprecationReason,
+        ),
+        arguments: args,
+      } as FieldDefinitionNode<R>;
+    };
+
+  const convertFields = <R extends Role>(
+    role: R,
+    type: GraphQLObjectType | GraphQLInterfaceType | GraphQLInputObjectType,
+  ): TypeDefinitionNode<R> => {
+    const name = typeName(type.name);
+    const fields = Object.values(type.getFields()) as ReadonlyArray<
+      GraphQLField<unknown, unknown> | GraphQLInputField
+    >;
+
+    return typeDefinitionNode(role, { ...type, name }, [
+      {
+        kind: IrisKind.VARIANT_DEFINITION,
+        name: nameNode(name),
+        fields: fields.map(convertField<R>(type.name)),
+      },
+    ]);
+  };
+
+  const convertObject = (type: GraphQLObjectType) => {
+    type
+      .getInterfaces()
+      .forEach((i) =>
+        note(
+          type.name,
+          `"${type.name}" no longer implements interface "${i.name}".`,
+        ),
+      );
+
+    return convertFields('resolver', type);
+  };
+
+  const convertUnion = (
+    type: GraphQLUnionType | GraphQLInterfaceType,
+    members: ReadonlyArray<GraphQLObjectType>,
+  ) =>
+    typeDefinitionNode(
+      'resolver',
+      type,
+      members.map(({ name }) => ({
+        kind: IrisKind.VARIANT_DEFINITION,
+        name: nameNode(typeName(name)),
+      })),
+    );
+
+  const convertInterface = (type: GraphQLInterfaceType) => {
+    const { objects } = gqlSchema.getImplementations(type);
+
+    if (objects.length === 0) {
+      note(
+        type.name,
+        `Interface "${type.name}" has no implementations and was converted to a resolver type.`,
+      );
+      return convertFields('resolver', type);
+    }
+
+    note(
+      type.name,
+      `Interface "${type.name}" was converted to a union of its implementations, its fields can be selected only on the variants.`,
+    );
+    return convertUnion(type, objects);
+  };
+
+  const convertEnum = (type: GraphQLEnumType) =>
+    typeDefinitionNode(
+      'data',
+      type,
+      type.getValues().map((value) => ({
+        kind: IrisKind.VARIANT_DEFINITION,
+        description: descriptionNode(value.description),
+        directives: convertDirectives(
+          `${type.name}.${value.name}`,
+          value.astNode,
+          value.deprecationReason,
+        ),
+        name: nameNode(value.name),
+        fields: [],
+      })),
+    );
+
+  const convertScalar = (type: GraphQLScalarType) => {
+    scalars[type.name] = type;
+    return typeDefinitionNode('data', type, []);
+  };
+
+  const convertType = (
+    type: GraphQLNamedType,
+  ): TypeDefinitionNode | undefined => {
+    const definition = convertTypeDefinition(type);
+    const directives = convertDirectives(type.name, type.astNode);
+
+    return definition && directives
+      ? { ...definition, directives }
+      : definition;
+  };
+
+  const convertTypeDefinition = (
+    type: GraphQLNamedType,
+  ): TypeDefinitionNode | undefined => {
+    if (isObjectType(type)) {
+      return convertObject(type);
+    }
+
+    if (isInterfaceType(type)) {
+      return convertInterface(type);
+    }
+
+    if (isUnionType(type)) {
+      return convertUnion(type, type.getTypes());
+    }
+
+    if (isEnumType(type)) {
+      return convertEnum(type);
+    }
+
+    if (isInputObjectType(type)) {
+      return convertFields('data', type);
+    }
+
+    if (isScalarType(type) && !isSpecifiedScalarType(type)) {
+      return convertScalar(type);
+    }
+
+    return undefined;
+  };
+
+  const convertDirective = (
+    directive: GraphQLDirective,
+  ): DirectiveDefinitionNode | undefined => {
+    const coordinate = `@${directive.name}`;
+    const locations = directive.locations.flatMap((location) => {
+      const irisLocation = locationMap[location];
+
+      if (!irisLocation) {
+        note(
+          coordinate,
+          `Location "${location}" of directive "${coordinate}" was dropped.`,
+        );
+        return [];
+      }
+
+      return [irisLocation];
+    });
+
+    if (locations.length === 0) {
+      note(coordinate, `Directive "${coordinate}" was dropped.`);
+      return undefined;
+    }
+
+    convertedDirectives.add(directive.name);
+
+    return {
+      kind: IrisKind.DIRECTIVE_DEFINITION,
+      description: descriptionNode(directive.description),
+      name: nameNode(directive.name),
+      arguments: directive.args.map(convertArgument(coordinate)),
+      repeatable: directive.isRepeatable,
+      locations: [...new Set(locations)].map(nameNode),
+    };
+  };
+
+  const directives = gqlSchema
+    .getDirectives()
+    .filter((directive) => !isSpecifiedDirective(directive))
+    .map(convertDirective);
+
+  const types = Object.values(gqlSchema.getTypeMap())
+    .filter(({ name }) => !name.startsWith('__'))
+    .map(convertType);
+
+  const document: DocumentNode = {
+    kind: IrisKind.DOCUMENT,
+    definitions: [...directives, ...types].filter(
+      (
+        definition,
+      ): definition is TypeDefinitionNode | DirectiveDefinitionNode =>
+        definition !== undefined,
+    ),
+  };
+
+  errors.push(...validateSDL(document, undefined, { scalars }));
+
+  if (errors.length !== 0) {
+    return { report, errors };
+  }
+
+  return {
+    schema: buildASTSchema(document, { scalars, assumeValidSDL: true }),
+    report,
+    errors,
+  };
+};
@@ -0,0 +1,38 @@
+import type { GraphQLError, GraphQLFieldConfig } from 'graphql';
+import { GraphQLNonNull, GraphQLScalarType } from 'graphql';
+
+import { introspectionFromIrisSchema } from '../types/introspection';
+import type { IrisSchema } from '../types/schema';
+
+export const IRIS_INTROSPECTION_FIELD = '__iris';
+
+const GraphQLIrisSchema = new GraphQLScalarType({
+  name: 'IrisSchemaJSON',
+  description:
+    'JSON description of the Iris schema with roles, variants, fields and directives of its types.',
+  serialize: (value) => value,
+});
+
+/**
+ * Root field returning the introspection of the Iris schema, which GraphQL
+ * introspection can not describe, because data types are transpiled to
+ * scalars.
+ */
+export const irisIntrospectionField = (
+  schema: IrisSchema,
+): GraphQLFieldConfig<unknown, unknown> => {
+  const introspection = introspectionFromIrisSchema(schema);
+
+  return {
+    description: 'Access the Iris schema of this server.',
+    type: new GraphQLNonNull(GraphQLIrisSchema),
+    resolve: () => introspection,
+  };
+};
+
+/**
+ * GraphQL reserves names starting with "__" for its own introspection, which
+ * is validated for the field of the Iris introspection too.
+ */
+export const isReservedNameError = ({ message }: GraphQLError): boolean =>
+  message.startsWith(`Name "${IRIS_INTROSPECTION_FIELD}" `);
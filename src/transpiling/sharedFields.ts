@@ -0,0 +1,43 @@
+import { equals } from 'ramda';
+
+import type {
+  IrisField,
+  IrisTypeDefinition,
+  IrisVariant,
+} from '../types/definition';
+import type { ObjMap } from '../utils/ObjMap';
+
+// variants including other resolver types share fields of their variant.
+const variantFields = (
+  variant: IrisVariant<'resolver'>,
+): ObjMap<IrisField<'resolver'>> | undefined =>
+  variant.fields ??
+  (variant.type?.isVariantType ? variant.type.variantBy().fields : undefined);
+
+const fieldSignature = ({ type, args = [] }: IrisField) => [
+  `${type}`,
+  args.map((arg) => [arg.name, `${arg.type}`, arg.defaultValue]),
+];
+
+/**
+ * Fields which all variants of a resolver union define with identical types
+ * and arguments. Fields are taken from the first variant.
+ */
+export const sharedFields = (
+  type: IrisTypeDefinition<'resolver'>,
+): ObjMap<IrisField<'resolver'>> => {
+  const [first, ...rest] = type.variants().map(variantFields);
+
+  if (!first || rest.some((fields) => !fields)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(first).filter(([name, field]) =>
+      rest.every((fields) => {
+        const other = fields?.[name];
+        return other && equals(fieldSignature(field), fieldSignature(other));
+      }),
+    ),
+  );
+};
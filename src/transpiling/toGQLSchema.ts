@@ -1,28 +1,52 @@
 import type {
+  FieldDefinitionNode,
   GraphQLArgumentConfig,
   GraphQLFieldConfig,
+  GraphQLFieldResolver,
+  GraphQLInputFieldConfig,
   GraphQLInputType,
   GraphQLNamedOutputType,
   GraphQLNamedType,
   GraphQLOutputType,
   GraphQLSchemaConfig,
+  InputObjectTypeDefinitionNode,
+  InputValueDefinitionNode,
+  InterfaceTypeDefinitionNode,
+  ObjectTypeDefinitionNode,
+  ScalarTypeDefinitionNode,
   ThunkObjMap,
+  UnionTypeDefinitionNode,
 } from 'graphql';
 import {
+  defaultFieldResolver,
   GraphQLBoolean,
+  GraphQLDirective,
+  GraphQLInputObjectType,
+  GraphQLInterfaceType,
   GraphQLList,
   GraphQLNonNull,
   GraphQLObjectType,
   GraphQLScalarType,
   GraphQLSchema,
   GraphQLUnionType,
+  Kind,
+  specifiedDirectives,
   specifiedScalarTypes,
+  validateSchema,
 } from 'graphql';
 
+import { typeCheckASTValue } from '../validation/typeCheckASTValue';
 import { typeCheckValue } from '../validation/typeCheckValue';
+import {
+  isSubscriptionResolver,
+  validateResolverMap,
+} from '../validation/validateResolverMap';
 
+import type { IrisError } from '../error';
 import { irisError } from '../error';
 import { toJSODoc } from '../printing/jsDoc';
+import { print } from '../printing/printer';
+import type { ValueNode } from '../types/ast';
 import type {
   IrisArgument,
   IrisField,
@@ -30,19 +54,172 @@ import type {
   IrisTypeRef,
   IrisVariant,
 } from '../types/definition';
-import { irisTypeRef, isSpecifiedScalarType } from '../types/definition';
+import { getNamedType, irisTypeRef } from '../types/definition';
+import type { GraphQLDirective as IrisDirective } from '../types/directives';
+import { isSpecifiedDirective } from '../types/directives';
 import type { IrisSchema } from '../types/schema';
+import { visit } from '../types/visitor';
 import type { ObjMap } from '../utils/ObjMap';
 import { keyMap, mapValue } from '../utils/ObjMap';
+import type { Maybe } from '../utils/type-level';
+
+import {
+  fromOneOfInput,
+  GraphQLOneOfDirective,
+  inputTypeName,
+  isDataObjectType,
+  oneOfDirectiveNode,
+  PLACEHOLDER_FIELD,
+  toOneOfInput,
+  variantObjectName,
+  variantOfValue,
+} from './dataObjects';
+import type { DirectivesNode } from './directives';
+import {
+  astNodeWithDirectives,
+  gqlLocations,
+  nameNode,
+  typeNode,
+} from './directives';
+import {
+  IRIS_INTROSPECTION_FIELD,
+  irisIntrospectionField,
+  isReservedNameError,
+} from './introspection';
+import { sharedFields } from './sharedFields';
 
 const stdTypeMap = keyMap([...specifiedScalarTypes], (type) => type.name);
+
+// custom scalars can be registered under a different name than their own.
+const withName = (name: string, scalar: GraphQLScalarType): GraphQLScalarType =>
+  scalar.name === name
+    ? scalar
+    : new GraphQLScalarType({ ...scalar.toConfig(), name });
+
 export type ResolverMap = Record<string, unknown>;
 
+/**
+ * In `scalar` mode data types are transpiled to opaque scalars. In `oneOf`
+ * mode their variants are transpiled to object types and each data type gets
+ * an input object with the `@oneOf` directive, which accepts exactly one of
+ * its variants. Variants without fields are selected by `true` in inputs and
+ * their object types have the placeholder field `_: Boolean`.
+ */
+export type TranspileOptions = {
+  mode?: 'scalar' | 'oneOf';
+  /**
+   * Set to true to skip the validation of the resolver map, which rejects
+   * resolvers for unknown variants and fields.
+   *
+   * Default: false
+   */
+  assumeValidResolvers?: boolean;
+  /**
+   * Called with warnings of the resolver map validation, e.g. for fields
+   * without resolvers, which are resolved by the default property.
+   */
+  onWarning?: (warning: IrisError) => void;
+  /**
+   * Set to true to transpile resolver unions, which variants share fields
+   * with identical types and arguments, to interfaces with these fields.
+   * Variants are transpiled to object types, which implement the interface.
+   *
+   * Default: false
+   */
+  interfaces?: boolean;
+  /**
+   * Set to true to add the `__iris` field to the Query type, which returns
+   * the introspection of the Iris schema. Clients can build the Iris schema
+   * from its result by buildClientIrisSchema.
+   *
+   * Default: false
+   */
+  introspection?: boolean;
+};
+
+// applied directives of types include directives of their extensions.
+const typeASTNodes = (type: IrisTypeDefinition) => [
+  type.astNode,
+  ...type.extensionASTNodes,
+];
+
+// GraphQL validates literals without variable values, so variables nested in
+// literals are treated as provided and are only checked during execution.
+const placeholderVariables = (valueNode: ValueNode): ObjMap<unknown> => {
+  const variables: ObjMap<unknown> = {};
+  visit(valueNode, {
+    Variable: (node) => {
+      variables[node.name.value] = true;
+    },
+  });
+  return variables;
+};
+
+const parseDataLiteral = (
+  typeRef: IrisTypeRef<'data'>,
+  valueNode: ValueNode,
+  variables: Maybe<ObjMap<unknown>>,
+): unknown => {
+  let value;
+  try {
+    value = typeCheckASTValue(
+      valueNode,
+      typeRef,
+      variables ?? placeholderVariables(valueNode),
+    );
+  } catch (error) {
+    throw irisError(error.message, { nodes: valueNode });
+  }
+
+  if (value === undefined) {
+    throw irisError(
+      `Data "${typeRef}" cannot represent literal: ${print(valueNode)}.`,
+      { nodes: valueNode },
+    );
+  }
+
+  // values of variables are substituted unchecked, because GraphQL validates
+  // them only against the types of the variables.
+  if (variables) {
+    try {
+      typeCheckValue(value, typeRef);
+    } catch (error) {
+      throw irisError(error.message, { nodes: valueNode });
+    }
+  }
+
+  return value;
+};
+
 export const toGQLSchema = (
   schema: IrisSchema,
   resolverMap: ResolverMap = {},
+  {
+    mode = 'scalar',
+    assumeValidResolvers,
+    onWarning,
+    interfaces,
+    introspection,
+  }: TranspileOptions = {},
 ): GraphQLSchema => {
-  const typeMap: ObjMap<GraphQLNamedOutputType> = stdTypeMap;
+  if (assumeValidResolvers !== true) {
+    const { errors, warnings } = validateResolverMap(schema, resolverMap);
+
+    if (errors.length !== 0) {
+      throw new Error(errors.map((error) => error.message).join('\n\n'));
+    }
+
+    if (onWarning) {
+      warnings.forEach((warning) => onWarning(warning));
+    }
+  }
+
+  const typeMap: ObjMap<GraphQLNamedOutputType> = { ...stdTypeMap };
+  const inputTypeMap: ObjMap<GraphQLInputObjectType> = {};
+  // interfaces implemented by object types and variant objects of interfaces,
+  // which are not referenced by any union.
+  const implementations: ObjMap<Array<GraphQLInterfaceType>> = {};
+  const implementingTypes: Array<GraphQLObjectType> = [];
 
   const register = <T extends GraphQLNamedOutputType>(
     name: string,
@@ -52,6 +229,11 @@ export const toGQLSchema = (
     return type;
   };
 
+  const registerInput = (type: GraphQLInputObjectType) => {
+    inputTypeMap[type.name] = type;
+    return type;
+  };
+
   const lookup = <T extends GraphQLNamedOutputType>(name: string): T => {
     const namedType = typeMap[name] as T;
     if (!namedType) {
@@ -61,17 +243,29 @@ export const toGQLSchema = (
     return namedType;
   };
 
+  // data types represented by objects are accepted as their input objects.
+  const lookupInput = (name: string): GraphQLInputType =>
+    inputTypeMap[inputTypeName(name)] ?? (lookup(name) as GraphQLInputType);
+
+  const isObjectMode = (type: IrisTypeDefinition) =>
+    mode === 'oneOf' && isDataObjectType(type);
+
   const transpileRootTypeDefinition = (
     type?: IrisTypeDefinition<'resolver'>,
   ): GraphQLObjectType | undefined =>
     type ? (transpileResolverDefinition(type) as GraphQLObjectType) : undefined;
 
+  const transpileScalar = ({ name, scalar }: IrisTypeDefinition) =>
+    scalar && (typeMap[name] ?? register(name, withName(name, scalar)));
+
   const transpileTypeDefinition = (
     type: IrisTypeDefinition,
   ): GraphQLNamedType => {
     switch (type.role) {
       case 'data':
-        return transpileDataDefinition(type as IrisTypeDefinition<'data'>);
+        return isObjectMode(type)
+          ? transpileDataObjectDefinition(type as IrisTypeDefinition<'data'>)
+          : transpileDataDefinition(type as IrisTypeDefinition<'data'>);
       case 'resolver':
         return transpileResolverDefinition(
           type as IrisTypeDefinition<'resolver'>,
@@ -83,8 +277,8 @@ export const toGQLSchema = (
     type: IrisTypeDefinition<'data'>,
   ): GraphQLScalarType => {
     const { name, description } = type;
-    const check = (value: unknown) =>
-      typeCheckValue(value, irisTypeRef('NAMED', type));
+    const typeRef = irisTypeRef('NAMED', type);
+    const check = (value: unknown) => typeCheckValue(value, typeRef);
     const jsDoc = toJSODoc(type);
 
     return register(
@@ -92,23 +286,228 @@ export const toGQLSchema = (
       new GraphQLScalarType({
         description: description ? `${description}\n\n${jsDoc}` : jsDoc,
         name,
+        astNode: astNodeWithDirectives<ScalarTypeDefinitionNode>(
+          { kind: Kind.SCALAR_TYPE_DEFINITION, name: nameNode(name) },
+          typeASTNodes(type),
+        ),
         serialize: check,
         parseValue: check,
-        parseLiteral: () => {
-          throw irisError('literals are not supported');
-        },
+        parseLiteral: (valueNode, variables) =>
+          parseDataLiteral(typeRef, valueNode, variables),
+      }),
+    );
+  };
+
+  const transpileDataObjectDefinition = (
+    type: IrisTypeDefinition<'data'>,
+  ): GraphQLObjectType | GraphQLUnionType => {
+    const { name, description } = type;
+    const variants = type.variants();
+
+    transpileDataInputDefinition(type);
+
+    if (type.isVariantType) {
+      return transpileDataVariant(type, { ...variants[0], description }, [
+        ...typeASTNodes(type),
+        variants[0].astNode,
+      ]);
+    }
+
+    return register(
+      name,
+      new GraphQLUnionType({
+        name,
+        description,
+        astNode: astNodeWithDirectives<UnionTypeDefinitionNode>(
+          { kind: Kind.UNION_TYPE_DEFINITION, name: nameNode(name) },
+          typeASTNodes(type),
+        ),
+        types: () => variants.map((v) => transpileDataVariant(type, v)),
+        resolveType: (value) =>
+          variantObjectName(type, variantOfValue(type, value)),
+      }),
+    );
+  };
+
+  const transpileDataVariant = (
+    type: IrisTypeDefinition<'data'>,
+    variant: IrisVariant<'data'>,
+    astNodes: ReadonlyArray<DirectivesNode> = [variant.astNode],
+  ): GraphQLObjectType => {
+    if (variant.type) {
+      return lookup(variant.type.name);
+    }
+
+    const name = variantObjectName(type, variant);
+
+    return register(
+      name,
+      new GraphQLObjectType({
+        name,
+        description: variant.description,
+        astNode: astNodeWithDirectives<ObjectTypeDefinitionNode>(
+          { kind: Kind.OBJECT_TYPE_DEFINITION, name: nameNode(name) },
+          astNodes,
+        ),
+        fields: () =>
+          transpileDataFields(variant, (field) => {
+            const fieldType = transpileTypeRef(field.type);
+
+            return {
+              description: field.description,
+              deprecationReason: field.deprecationReason,
+              type: fieldType,
+              astNode: astNodeWithDirectives<FieldDefinitionNode>(
+                {
+                  kind: Kind.FIELD_DEFINITION,
+                  name: nameNode(field.name),
+                  type: typeNode(fieldType),
+                },
+                [field.astNode],
+              ),
+            };
+          }),
+      }),
+    );
+  };
+
+  const transpileDataFields = <T>(
+    variant: IrisVariant<'data'>,
+    f: (field: IrisField<'data'>) => T,
+  ): ObjMap<T | { type: typeof GraphQLBoolean }> => {
+    const fields = variant.fields ?? {};
+
+    return Object.keys(fields).length === 0
+      ? { [PLACEHOLDER_FIELD]: { type: GraphQLBoolean } }
+      : mapValue(fields, (field) => f(field));
+  };
+
+  const transpileInputFields = (
+    variant: IrisVariant<'data'>,
+  ): ObjMap<GraphQLInputFieldConfig> =>
+    transpileDataFields(
+      variant,
+      ({ name, description, deprecationReason, type, astNode }) => {
+        const inputType = transpileInputTypeRef(type);
+
+        return {
+          description,
+          // required input fields cannot be deprecated in GraphQL, their
+          // deprecation applies only to the output type.
+          deprecationReason: type.kind === 'MAYBE' ? deprecationReason : null,
+          type: inputType,
+          astNode: astNodeWithDirectives<InputValueDefinitionNode>(
+            {
+              kind: Kind.INPUT_VALUE_DEFINITION,
+              name: nameNode(name),
+              type: typeNode(inputType),
+            },
+            [astNode],
+          ),
+        };
+      },
+    );
+
+  const transpileDataInputDefinition = (type: IrisTypeDefinition<'data'>) => {
+    const { description } = type;
+    const name = inputTypeName(type.name);
+
+    if (type.isVariantType) {
+      return registerInput(
+        new GraphQLInputObjectType({
+          name,
+          description,
+          astNode: astNodeWithDirectives<InputObjectTypeDefinitionNode>(
+            { kind: Kind.INPUT_OBJECT_TYPE_DEFINITION, name: nameNode(name) },
+            [...typeASTNodes(type), type.variantBy().astNode],
+          ),
+          fields: () => transpileInputFields(type.variantBy()),
+        }),
+      );
+    }
+
+    const transpileVariantInput = (
+      variant: IrisVariant<'data'>,
+    ): GraphQLInputType => {
+      if (variant.type) {
+        return lookupInput(variant.type.name);
+      }
+
+      if (Object.keys(variant.fields ?? {}).length === 0) {
+        return GraphQLBoolean;
+      }
+
+      const variantName = inputTypeName(variantObjectName(type, variant));
+
+      return registerInput(
+        new GraphQLInputObjectType({
+          name: variantName,
+          description: variant.description,
+          astNode: astNodeWithDirectives<InputObjectTypeDefinitionNode>(
+            {
+              kind: Kind.INPUT_OBJECT_TYPE_DEFINITION,
+              name: nameNode(variantName),
+            },
+            [variant.astNode],
+          ),
+          fields: () => transpileInputFields(variant),
+        }),
+      );
+    };
+
+    return registerInput(
+      new GraphQLInputObjectType({
+        name,
+        description,
+        extensions: { oneOf: true },
+        astNode: astNodeWithDirectives<InputObjectTypeDefinitionNode>(
+          { kind: Kind.INPUT_OBJECT_TYPE_DEFINITION, name: nameNode(name) },
+          [...typeASTNodes(type), { directives: [oneOfDirectiveNode] }],
+        ),
+        fields: () =>
+          Object.fromEntries(
+            type.variants().map((variant) => {
+              const variantType = transpileVariantInput(variant);
+
+              return [
+                variant.name,
+                {
+                  description: variant.description,
+                  deprecationReason: variant.deprecationReason,
+                  type: variantType,
+                  astNode: astNodeWithDirectives<InputValueDefinitionNode>(
+                    {
+                      kind: Kind.INPUT_VALUE_DEFINITION,
+                      name: nameNode(variant.name),
+                      type: typeNode(variantType),
+                    },
+                    [variant.astNode],
+                  ),
+                },
+              ];
+            }),
+          ),
       }),
     );
   };
 
   const transpileResolverDefinition = (
     type: IrisTypeDefinition<'resolver'>,
-  ): GraphQLObjectType | GraphQLUnionType => {
+  ): GraphQLObjectType | GraphQLUnionType | GraphQLInterfaceType => {
     const { name, description } = type;
     const variants = type.variants();
 
     if (type.isVariantType) {
-      return transpileVariant({ ...variants[0], description });
+      return transpileVariant({ ...variants[0], description }, undefined, [
+        ...typeASTNodes(type),
+        variants[0].astNode,
+      ]);
+    }
+
+    const fields = interfaces ? sharedFields(type) : {};
+
+    if (Object.keys(fields).length !== 0) {
+      return transpileResolverInterface(type, fields);
     }
 
     return register(
@@ -116,14 +515,56 @@ export const toGQLSchema = (
       new GraphQLUnionType({
         name,
         description,
+        astNode: astNodeWithDirectives<UnionTypeDefinitionNode>(
+          { kind: Kind.UNION_TYPE_DEFINITION, name: nameNode(name) },
+          typeASTNodes(type),
+        ),
         types: variants.map((v) => transpileVariant(v, name)),
       }),
     );
   };
 
+  const transpileResolverInterface = (
+    type: IrisTypeDefinition<'resolver'>,
+    fields: ObjMap<IrisField<'resolver'>>,
+  ): GraphQLInterfaceType => {
+    const { name, description } = type;
+
+    const gqlInterface = register(
+      name,
+      new GraphQLInterfaceType({
+        name,
+        description,
+        astNode: astNodeWithDirectives<InterfaceTypeDefinitionNode>(
+          { kind: Kind.INTERFACE_TYPE_DEFINITION, name: nameNode(name) },
+          typeASTNodes(type),
+        ),
+        fields: () => mapValue(fields, transpileField({})),
+      }),
+    );
+
+    for (const variant of type.variants()) {
+      const objectName = variant.type
+        ? variant.type.name
+        : `${name}_${variant.name}`;
+
+      implementations[objectName] = [
+        ...(implementations[objectName] ?? []),
+        gqlInterface,
+      ];
+
+      if (!variant.type) {
+        implementingTypes.push(transpileVariant(variant, name));
+      }
+    }
+
+    return gqlInterface;
+  };
+
   const transpileVariant = (
     variant: IrisVariant<'resolver'>,
     namespace?: string,
+    astNodes: ReadonlyArray<DirectivesNode> = [variant.astNode],
   ): GraphQLObjectType => {
     const { name, description } = variant;
 
@@ -137,19 +578,34 @@ export const toGQLSchema = (
       return lookup(variant.type.name);
     }
 
-    const fields: ThunkObjMap<GraphQLFieldConfig<any, any>> = () =>
-      variant.fields
-        ? mapValue(variant.fields, transpileField(typeResolver))
-        : empty;
-
     const variantTypeName = namespace ? `${namespace}_${name}` : name;
 
+    const introspectionFields: ObjMap<GraphQLFieldConfig<any, any>> =
+      introspection && variantTypeName === 'Query'
+        ? { [IRIS_INTROSPECTION_FIELD]: irisIntrospectionField(schema) }
+        : {};
+
+    const fields: ThunkObjMap<GraphQLFieldConfig<any, any>> = () => ({
+      ...(variant.fields
+        ? mapValue(variant.fields, transpileField(typeResolver))
+        : empty),
+      ...introspectionFields,
+    });
+
     return register(
       variantTypeName,
       new GraphQLObjectType({
         name: variantTypeName,
         description,
+        astNode: astNodeWithDirectives<ObjectTypeDefinitionNode>(
+          {
+            kind: Kind.OBJECT_TYPE_DEFINITION,
+            name: nameNode(variantTypeName),
+          },
+          astNodes,
+        ),
         fields,
+        interfaces: () => implementations[variantTypeName] ?? [],
       }),
     );
   };
@@ -160,27 +616,136 @@ export const toGQLSchema = (
     deprecationReason,
     defaultValue,
     type,
-  }: IrisArgument): [string, GraphQLArgumentConfig] => [
-    name,
-    {
-      description,
-      type: transpileTypeRef(type) as GraphQLInputType,
-      defaultValue,
-      deprecationReason,
-    },
-  ];
+    astNode,
+  }: IrisArgument): [string, GraphQLArgumentConfig] => {
+    const inputType = transpileInputTypeRef(type);
+
+    return [
+      name,
+      {
+        description,
+        type: inputType,
+        defaultValue:
+          mode === 'oneOf' ? toOneOfInput(defaultValue, type) : defaultValue,
+        deprecationReason,
+        astNode: astNodeWithDirectives<InputValueDefinitionNode>(
+          {
+            kind: Kind.INPUT_VALUE_DEFINITION,
+            name: nameNode(name),
+            type: typeNode(inputType),
+          },
+          [astNode],
+        ),
+      },
+    ];
+  };
+
+  // input objects of data types are converted back to data values, which are
+  // validated like values of data scalars.
+  const parseArguments = (
+    values: ObjMap<unknown>,
+    args: ReadonlyArray<IrisArgument>,
+  ): ObjMap<unknown> =>
+    args.reduce(
+      (parsed, { name, type }) =>
+        name in values
+          ? {
+              ...parsed,
+              [name]: typeCheckValue(fromOneOfInput(values[name], type), type),
+            }
+          : parsed,
+      values,
+    );
+
+  const transpileResolve = (
+    resolve: GraphQLFieldResolver<any, any> | undefined,
+    args: ReadonlyArray<IrisArgument> = [],
+  ): GraphQLFieldResolver<any, any> | undefined => {
+    if (mode !== 'oneOf' || args.length === 0) {
+      return resolve;
+    }
+
+    return (source, values, context, info) =>
+      (resolve ?? defaultFieldResolver)(
+        source,
+        parseArguments(values, args),
+        context,
+        info,
+      );
+  };
 
   const transpileField =
     (resolvers: any) =>
     (
-      { description, type, args }: IrisField<'resolver'>,
+      {
+        description,
+        deprecationReason,
+        type,
+        args,
+        astNode,
+      }: IrisField<'resolver'>,
       name: string,
-    ): GraphQLFieldConfig<any, any> => ({
-      description,
-      type: transpileTypeRef(type),
-      resolve: resolvers[name],
-      args: args ? Object.fromEntries(args.map(transpileArgument)) : undefined,
-    });
+    ): GraphQLFieldConfig<any, any> => {
+      const fieldType = transpileTypeRef(type);
+
+      return {
+        description,
+        deprecationReason,
+        astNode: astNodeWithDirectives<FieldDefinitionNode>(
+          {
+            kind: Kind.FIELD_DEFINITION,
+            name: nameNode(name),
+            type: typeNode(fieldType),
+          },
+          [astNode],
+        ),
+        type: fieldType,
+        ...transpileResolvers(resolvers[name], type, args),
+        args: args
+          ? Object.fromEntries(args.map(transpileArgument))
+          : undefined,
+      };
+    };
+
+  // payloads streamed by `subscribe` are mapped by `resolve` (or the default
+  // property) and type checked, if the field has a data type. Both receive
+  // parsed arguments.
+  const transpileResolvers = (
+    resolver: unknown,
+    type: IrisTypeRef,
+    args?: ReadonlyArray<IrisArgument>,
+  ): Pick<GraphQLFieldConfig<any, any>, 'subscribe' | 'resolve'> => {
+    if (!isSubscriptionResolver(resolver)) {
+      return {
+        resolve: transpileResolve(
+          resolver as GraphQLFieldResolver<any, any> | undefined,
+          args,
+        ),
+      };
+    }
+
+    // resolvers are called by GraphQL with the arguments of field resolvers.
+    const resolve =
+      transpileResolve(
+        resolver.resolve as GraphQLFieldResolver<any, any> | undefined,
+        args,
+      ) ?? defaultFieldResolver;
+
+    return {
+      subscribe: transpileResolve(
+        resolver.subscribe as GraphQLFieldResolver<any, any>,
+        args,
+      ),
+      resolve:
+        getNamedType(type).role === 'data'
+          ? async (...params) =>
+              typeCheckValue(
+                await resolve(...params),
+                type as IrisTypeRef<'data'>,
+              )
+          : resolve,
+    };
+  };
 
   const transpileTypeRef = (
     type: IrisTypeRef,
@@ -198,10 +763,46 @@ export const toGQLSchema = (
     }
   };
 
+  const transpileInputTypeRef = (
+    type: IrisTypeRef<'data'>,
+    isMaybe?: boolean,
+  ): GraphQLInputType => {
+    const withMaybe = (t: GraphQLInputType) =>
+      isMaybe ? t : new GraphQLNonNull(t);
+    switch (type.kind) {
+      case 'MAYBE':
+        return transpileInputTypeRef(type.ofType, true);
+      case 'LIST':
+        return withMaybe(new GraphQLList(transpileInputTypeRef(type.ofType)));
+      case 'NAMED':
+        return withMaybe(lookupInput(type.ofType.name));
+    }
+  };
+
+  // scalars used by data types are kept, so that they can be used as types of
+  // variables inside of data literals.
   const types = Object.values(schema.types)
-    .filter((t) => !isSpecifiedScalarType(t))
     .filter((t) => !['Query', 'Mutation', 'Subscription'].includes(t.name))
-    .map(transpileTypeDefinition);
+    .map((t) => transpileScalar(t) ?? transpileTypeDefinition(t));
+
+  const transpileDirective = ({
+    name,
+    description,
+    locations,
+    args,
+    isRepeatable,
+  }: IrisDirective): GraphQLDirective =>
+    new GraphQLDirective({
+      name,
+      description,
+      isRepeatable,
+      locations: [...new Set(locations.flatMap((l) => gqlLocations[l]))],
+      args: Object.fromEntries(args.map(transpileArgument)),
+    });
+
+  const directives = schema.directives
+    .filter((directive) => !isSpecifiedDirective(directive))
+    .map(transpileDirective);
 
   const config: GraphQLSchemaConfig = {
     query: transpileRootTypeDefinition(
@@ -213,9 +814,25 @@ export const toGQLSchema = (
     subscription: transpileRootTypeDefinition(
       schema.types.Subscription as IrisTypeDefinition<'resolver'>,
     ),
-    types,
-    directives: [],
+    types: [...types, ...implementingTypes, ...Object.values(inputTypeMap)],
+    directives: [
+      ...specifiedDirectives,
+      ...directives,
+      ...(mode === 'oneOf' ? [GraphQLOneOfDirective] : []),
+    ],
   };
 
-  return new GraphQLSchema(config);
+  const gqlSchema = new GraphQLSchema(config);
+
+  if (!introspection) {
+    return gqlSchema;
+  }
+
+  // the schema is marked as valid, if only the reserved name of the Iris
+  // introspection field was rejected. Otherwise errors are reported by
+  // execution.
+  const errors = validateSchema(gqlSchema);
+  return errors.length === 1 && isReservedNameError(errors[0])
+    ? new GraphQLSchema({ ...config, assumeValid: true })
+    : gqlSchema;
 };
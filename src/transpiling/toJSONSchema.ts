@@ -0,0 +1,207 @@
+import { irisError } from '../error';
+import type {
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import { getNamedType, isSpecifiedScalarType } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+import { didYouMean, suggestionList } from '../utils/legacy';
+import type { ObjMap } from '../utils/ObjMap';
+import type { Maybe } from '../utils/type-level';
+
+export type JSONSchema = {
+  $schema?: string;
+  $ref?: string;
+  $defs?: ObjMap<JSONSchema>;
+  description?: string;
+  deprecated?: boolean;
+  type?: string | ReadonlyArray<string>;
+  const?: string;
+  minimum?: number;
+  maximum?: number;
+  items?: JSONSchema;
+  properties?: ObjMap<JSONSchema>;
+  required?: ReadonlyArray<string>;
+  oneOf?: ReadonlyArray<JSONSchema>;
+  anyOf?: ReadonlyArray<JSONSchema>;
+  allOf?: ReadonlyArray<JSONSchema>;
+};
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// Int is a signed 32-bit integer, ID is serialized from strings and integers.
+const stdScalarSchemas: ObjMap<JSONSchema> = {
+  String: { type: 'string' },
+  Int: { type: 'integer', minimum: -2147483648, maximum: 2147483647 },
+  Float: { type: 'number' },
+  Boolean: { type: 'boolean' },
+  ID: { type: ['string', 'integer'] },
+};
+
+const typeRefSchema = (name: string): JSONSchema =>
+  stdScalarSchemas[name] ?? { $ref: `#/$defs/${name}` };
+
+const withMeta = (
+  schema: JSONSchema,
+  {
+    description,
+    deprecationReason,
+  }: { description?: Maybe<string>; deprecationReason?: Maybe<string> },
+): JSONSchema => ({
+  ...(description ? { description } : {}),
+  ...schema,
+  ...(deprecationReason != null ? { deprecated: true } : {}),
+});
+
+const fieldSchema = (type: IrisTypeRef<'data'>): JSONSchema => {
+  switch (type.kind) {
+    case 'MAYBE':
+      return { anyOf: [fieldSchema(type.ofType), { type: 'null' }] };
+    case 'LIST':
+      return { type: 'array', items: fieldSchema(type.ofType) };
+    case 'NAMED':
+      return typeRefSchema(type.ofType.name);
+  }
+};
+
+// fields of maybe types can be omitted, `typeCheckValue` reads them as null.
+const objectSchema = (
+  fields: ReadonlyArray<IrisField<'data'>>,
+  typename: JSONSchema,
+  isTypenameRequired: boolean,
+): JSONSchema => ({
+  type: 'object',
+  properties: {
+    __typename: typename,
+    ...Object.fromEntries(
+      fields.map((field) => [
+        field.name,
+        withMeta(fieldSchema(field.type), field),
+      ]),
+    ),
+  },
+  required: [
+    ...(isTypenameRequired ? ['__typename'] : []),
+    ...fields
+      .filter(({ type }) => type.kind !== 'MAYBE')
+      .map(({ name }) => name),
+  ],
+});
+
+const hasRequiredFields = (fields: ReadonlyArray<IrisField<'data'>>) =>
+  fields.some(({ type }) => type.kind !== 'MAYBE');
+
+// variants without required fields are also accepted by their names, e.g.
+// `"Immortal"` as well as `{ "__typename": "Immortal" }`.
+const variantObjectSchema = (
+  name: string,
+  fields: ReadonlyArray<IrisField<'data'>>,
+  isTypenameRequired: boolean,
+): JSONSchema => {
+  const object = objectSchema(fields, { const: name }, isTypenameRequired);
+
+  return hasRequiredFields(fields)
+    ? object
+    : { anyOf: [{ const: name }, object] };
+};
+
+// variants including other types are named like the included type, which
+// has a single variant.
+const variantSchema = (variant: IrisVariant<'data'>): JSONSchema => {
+  const fields = variant.type
+    ? variant.type.variantBy().fields
+    : variant.fields;
+
+  return withMeta(
+    variantObjectSchema(variant.name, Object.values(fields ?? {}), true),
+    variant,
+  );
+};
+
+const dataTypeSchema = (type: IrisTypeDefinition<'data'>): JSONSchema => {
+  const variants = type.variants();
+
+  if (type.scalar) {
+    return withMeta({}, type);
+  }
+
+  if (type.boxedScalar) {
+    return withMeta(typeRefSchema(type.boxedScalar.name), type);
+  }
+
+  if (type.isVariantType) {
+    const fields = Object.values(variants[0]?.fields ?? {});
+    return withMeta(variantObjectSchema(type.name, fields, false), type);
+  }
+
+  return withMeta({ oneOf: variants.map(variantSchema) }, type);
+};
+
+const collectDataTypes = (
+  type: IrisTypeDefinition<'data'>,
+  types: ObjMap<IrisTypeDefinition<'data'>>,
+) => {
+  if (types[type.name] || isSpecifiedScalarType(type)) {
+    return;
+  }
+
+  types[type.name] = type;
+
+  for (const variant of type.variants()) {
+    if (variant.type) {
+      collectDataTypes(variant.type, types);
+    }
+
+    for (const field of Object.values(variant.fields ?? {})) {
+      collectDataTypes(
+        getNamedType(field.type) as IrisTypeDefinition<'data'>,
+        types,
+      );
+    }
+  }
+};
+
+/**
+ * Converts data types to a JSON Schema, which describes the values accepted
+ * by `typeCheckValue`. Data types are defined in `$defs`, the schema of the
+ * given type references its definition and includes only types it depends on.
+ */
+export const toJSONSchema = (
+  schema: IrisSchema,
+  typeName?: string,
+): JSONSchema => {
+  const dataTypes = Object.values(schema.types).filter(
+    (type): type is IrisTypeDefinition<'data'> => type.role === 'data',
+  );
+  const types: ObjMap<IrisTypeDefinition<'data'>> = {};
+
+  if (typeName === undefined) {
+    dataTypes.forEach((type) => collectDataTypes(type, types));
+  } else {
+    const type = dataTypes.find(({ name }) => name === typeName);
+
+    if (!type) {
+      throw irisError(
+        `Unknown data type "${typeName}".` +
+          didYouMean(
+            suggestionList(
+              typeName,
+              dataTypes.map(({ name }) => name),
+            ),
+          ),
+      );
+    }
+
+    collectDataTypes(type, types);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...(typeName === undefined ? {} : typeRefSchema(typeName)),
+    $defs: Object.fromEntries(
+      Object.values(types).map((type) => [type.name, dataTypeSchema(type)]),
+    ),
+  };
+};
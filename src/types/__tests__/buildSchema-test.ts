@@ -1,3 +1,5 @@
+import { GraphQLScalarType } from 'graphql';
+
 import { printSchema } from '../../printing/printSchema';
 import { dedent } from '../../utils/dedent';
 import type { ObjMap } from '../../utils/ObjMap';
@@ -398,6 +400,172 @@ describe('Schema Builder', () => {
     expect(getType(schema, 'ID')).toEqual(IrisScalars.ID);
   });
 
+  it('Merges type extensions', () => {
+    const schema = buildSchema(`
+      resolver Query = { deity: Deity }
+      resolver Deity = { name: String }
+      data Lifespan = Mortal | Immortal
+      data Mortal = { age: Int }
+      data Immortal
+
+      extend resolver Deity = { lifespan: Lifespan }
+      extend resolver Deity = { power: [String] }
+      extend data Lifespan = | Unknown {}
+    `);
+
+    expect(printSchema(schema)).toEqual(dedent`
+      resolver Query = {
+        deity: Deity
+      }
+
+      resolver Deity = {
+        name: String
+        lifespan: Lifespan
+        power: [String]
+      }
+
+      data Lifespan = Mortal | Immortal | Unknown {}
+
+      data Mortal = {
+        age: Int
+      }
+
+      data Immortal
+    `);
+    expect(getType(schema, 'Deity')?.extensionASTNodes).toHaveLength(2);
+  });
+
+  it('Rejects invalid type extensions', () => {
+    const sdl = `
+      data Deity = { name: String }
+      extend data Deity = { name: String }
+    `;
+    expect(() => buildSchema(sdl)).toThrow(
+      'Field "Deity.name" can only be defined once.',
+    );
+  });
+
+  it('Custom scalars', () => {
+    const DateTime = new GraphQLScalarType({ name: 'DateTime' });
+    const sdl = dedent`
+      data DateTime
+
+      data Event = {
+        date: DateTime
+        timestamp: Timestamp
+      }
+
+      data Timestamp = DateTime
+    `;
+
+    const schema = buildSchema(sdl, { scalars: { DateTime } });
+
+    expect(printSchema(schema)).toEqual(sdl);
+    expect(getType(schema, 'DateTime')?.scalar).toEqual(DateTime);
+    expect(getType(schema, 'Timestamp')?.boxedScalar).toEqual(DateTime);
+  });
+
+  it('Rejects custom scalars named like types with variants', () => {
+    const DateTime = new GraphQLScalarType({ name: 'DateTime' });
+    const sdl = 'data DateTime = { year: Int }';
+
+    expect(() => buildSchema(sdl, { scalars: { DateTime } })).toThrow(
+      'Type "DateTime" is declared with variants, but is also registered as a custom scalar.',
+    );
+  });
+
+  it('Custom scalars can be used without declaration', () => {
+    const DateTime = new GraphQLScalarType({ name: 'DateTime' });
+    const sdl = 'data Event = { date: DateTime }';
+
+    expect(() => buildSchema(sdl)).toThrow('Unknown type "DateTime".');
+
+    const schema = buildSchema(sdl, { scalars: { DateTime } });
+    expect(getType(schema, 'DateTime')?.scalar).toEqual(DateTime);
+  });
+
+  it('Monomorphises generic types', () => {
+    const schema = buildSchema(`
+      data Result<E, A> = Ok { value: A } | Err { error: E }
+      data Box<A> = { value: A? }
+      resolver Page<T> = { items: [T], next: Page<T>? }
+      data User = { name: String }
+
+      resolver Query = {
+        user: Result<String, User>
+        users: Page<User>
+        count: Box<Int?>
+      }
+    `);
+
+    expect(printSchema(schema)).toEqual(dedent`
+      data Result_String_User = Ok {
+        value: User
+      } | Err {
+        error: String
+      }
+
+      resolver Page_User = {
+        items: [User]
+        next: Page_User?
+      }
+
+      data Box_Maybe_Int = {
+        value: Int?
+      }
+
+      data User = {
+        name: String
+      }
+
+      resolver Query = {
+        user: Result_String_User
+        users: Page_User
+        count: Box_Maybe_Int
+      }
+    `);
+
+    expect(getType(schema, 'Result')).toEqual(undefined);
+    expect(String(getType(schema, 'Page_User')?.typeArguments)).toEqual('User');
+  });
+
+  it('Monomorphises extensions and variants of generic types', () => {
+    const schema = buildSchema(`
+      data Box<A> = { value: A }
+      extend data Box = { values: [A] }
+      data Failure = { message: String }
+      data Result<A> = A | Failure
+      data User = { name: String }
+
+      resolver Query = {
+        box: Box<Int>
+        user: Result<User>
+      }
+    `);
+
+    expect(printSchema(schema)).toEqual(dedent`
+      data Box_Int = {
+        value: Int
+        values: [Int]
+      }
+
+      data Result_User = User | Failure
+
+      data Failure = {
+        message: String
+      }
+
+      data User = {
+        name: String
+      }
+
+      resolver Query = {
+        box: Box_Int
+        user: Result_User
+      }
+    `);
+  });
+
   it('Rejects invalid SDL', () => {
     const sdl = `
       resolver Query = {
@@ -406,4 +574,13 @@ describe('Schema Builder', () => {
     `;
     expect(() => buildSchema(sdl)).toThrow('Unknown directive "@unknown".');
   });
+
+  it('Rejects imports', () => {
+    const sdl = `
+      import { Lifespan } from "./lifespan.iris"
+    `;
+    expect(() => buildSchema(sdl)).toThrow(
+      'Cannot import from "./lifespan.iris", imports are only resolved by buildSchemaFromFiles.',
+    );
+  });
 });
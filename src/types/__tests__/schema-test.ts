@@ -45,6 +45,14 @@ describe('Type System: Schema', () => {
     `);
   });
 
+  it('Define variants with and without fields', () => {
+    cycle(`
+      data Lifespan = Immortal {} | Limited {
+        max: Int?
+      }
+    `);
+  });
+
   describe('Type Map', () => {
     it('includes data types only used in directives', () => {
       const schema = buildSchema(`
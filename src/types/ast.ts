@@ -48,8 +48,10 @@ export type ASTNode =
   | FieldDefinitionNode
   | ArgumentDefinitionNode
   | TypeDefinitionNode
+  | TypeExtensionNode
   | DirectiveDefinitionNode
   | VariantDefinitionNode
+  | ImportDefinitionNode
   | MaybeTypeNode;
 
 /**
@@ -72,7 +74,7 @@ export const QueryDocumentKeys: {
   ObjectValue: ['fields'],
   ObjectField: ['name', 'value'],
   Directive: ['name', 'arguments'],
-  NamedType: ['name'],
+  NamedType: ['name', 'arguments'],
   ListType: ['type'],
   MaybeType: ['type'],
   FieldDefinition: ['description', 'name', 'arguments', 'type', 'directives'],
@@ -83,9 +85,17 @@ export const QueryDocumentKeys: {
     'defaultValue',
     'directives',
   ],
-  TypeDefinition: ['description', 'name', 'directives', 'variants'],
+  TypeDefinition: [
+    'description',
+    'name',
+    'parameters',
+    'directives',
+    'variants',
+  ],
+  TypeExtension: ['name', 'directives', 'variants'],
   VariantDefinition: ['name', 'fields'],
   DirectiveDefinition: ['description', 'name', 'arguments', 'locations'],
+  ImportDefinition: ['names', 'path'],
 };
 
 const kindValues = new Set<string>(Object.keys(QueryDocumentKeys));
@@ -147,6 +157,7 @@ export type NamedTypeNode = {
   readonly kind: IrisKind.NAMED_TYPE;
   readonly loc?: Location;
   readonly name: NameNode;
+  readonly arguments?: ReadonlyArray<TypeNode>;
 };
 
 export type ListTypeNode = {
@@ -163,7 +174,11 @@ export type MaybeTypeNode = {
 
 /** Type Definition */
 
-export type DefinitionNode = TypeDefinitionNode | DirectiveDefinitionNode;
+export type DefinitionNode =
+  | TypeDefinitionNode
+  | TypeExtensionNode
+  | DirectiveDefinitionNode
+  | ImportDefinitionNode;
 
 export type Role = 'resolver' | 'data';
 
@@ -206,6 +221,18 @@ export type TypeDefinitionNode<R extends Role = Role> = {
   readonly loc?: Location;
   readonly description?: StringValueNode;
   readonly name: NameNode;
+  readonly parameters?: ReadonlyArray<NameNode>;
+  readonly directives?: ReadonlyArray<ConstDirectiveNode>;
+  readonly variants: ReadonlyArray<VariantDefinitionNode<R>>;
+};
+
+/** Type Extension */
+
+export type TypeExtensionNode<R extends Role = Role> = {
+  readonly kind: IrisKind.TYPE_EXTENSION;
+  readonly role: R;
+  readonly loc?: Location;
+  readonly name: NameNode;
   readonly directives?: ReadonlyArray<ConstDirectiveNode>;
   readonly variants: ReadonlyArray<VariantDefinitionNode<R>>;
 };
@@ -220,16 +247,44 @@ export interface DirectiveDefinitionNode {
   readonly locations: ReadonlyArray<NameNode>;
 }
 
+/** Import Definition */
+
+export type ImportDefinitionNode = {
+  readonly kind: IrisKind.IMPORT_DEFINITION;
+  readonly loc?: Location;
+  readonly names: ReadonlyArray<NameNode>;
+  readonly path: StringValueNode;
+};
+
 export const isTypeSystemDefinitionNode = (
   node: ASTNode,
-): node is DefinitionNode =>
+): node is TypeDefinitionNode | DirectiveDefinitionNode =>
   isTypeDefinitionNode(node) || node.kind === IrisKind.DIRECTIVE_DEFINITION;
 
+export const isTypeExtensionNode = (node: ASTNode): node is TypeExtensionNode =>
+  node.kind === IrisKind.TYPE_EXTENSION;
+
+export const isImportDefinitionNode = (
+  node: ASTNode,
+): node is ImportDefinitionNode => node.kind === IrisKind.IMPORT_DEFINITION;
+
+export const findDefinition = (
+  definitions: ReadonlyArray<DefinitionNode>,
+  name: string,
+): TypeDefinitionNode | DirectiveDefinitionNode | undefined =>
+  definitions.find(
+    (def): def is TypeDefinitionNode | DirectiveDefinitionNode =>
+      isTypeSystemDefinitionNode(def) && def.name.value === name,
+  );
+
 export const isTypeDefinitionNode = (
   node: ASTNode,
 ): node is TypeDefinitionNode => node.kind === IrisKind.TYPE_DEFINITION;
 
-export const isTypeVariantNode = ({ name, variants }: TypeDefinitionNode) => {
+export const isTypeVariantNode = ({
+  name,
+  variants,
+}: TypeDefinitionNode | TypeExtensionNode) => {
   const typeName = name.value;
   const [variant] = variants;
 
@@ -244,6 +299,20 @@ export const isTypeVariantNode = ({ name, variants }: TypeDefinitionNode) => {
   );
 };
 
+// extensions of generic types share the type parameters of their definition.
+export const getTypeParameters = (
+  definitions: ReadonlyArray<DefinitionNode>,
+  node: TypeDefinitionNode | TypeExtensionNode,
+): ReadonlyArray<NameNode> => {
+  const definition = isTypeDefinitionNode(node)
+    ? node
+    : findDefinition(definitions, node.name.value);
+
+  return definition?.kind === IrisKind.TYPE_DEFINITION
+    ? definition.parameters ?? []
+    : [];
+};
+
 export const getRefTypeName = (node: TypeNode): NameNode => {
   switch (node.kind) {
     case IrisKind.NAMED_TYPE:
@@ -13,6 +13,7 @@ import type {
   FieldDefinitionNode,
   Role,
   TypeDefinitionNode,
+  TypeExtensionNode,
   VariantDefinitionNode,
   WrapperKind,
 } from './ast';
@@ -24,6 +25,12 @@ export const stdScalars = keyMap(specifiedScalarTypes, ({ name }) => name);
 
 export const scalarNames = Object.keys(stdScalars);
 
+/**
+ * Maps names of data types to scalars which implement their serialization
+ * and parsing, e.g. `{ DateTime: GraphQLDateTime }`.
+ */
+export type IrisScalarMap = ObjMap<GraphQLScalarType<any, any>>;
+
 export const isSpecifiedScalarType = (type: IrisTypeDefinition): boolean =>
   Boolean(stdScalars[type.name]);
 
@@ -40,6 +47,38 @@ export type IrisTypeRef<R extends Role = Role> =
 export const liftType = <R extends Role>(t: IrisTypeDefinition<R>) =>
   irisTypeRef<'NAMED', IrisTypeDefinition<R>>('NAMED', t);
 
+// type references of resolver fields can also reference data types.
+export const getNamedType = (type: IrisTypeRef): IrisTypeDefinition =>
+  type.kind === 'NAMED' ? type.ofType : getNamedType(type.ofType);
+
+/**
+ * Type references by the names of their named types, which are enough to
+ * name instances.
+ */
+export type InstanceTypeRef =
+  | { kind: 'LIST' | 'MAYBE'; ofType: InstanceTypeRef }
+  | { kind: 'NAMED'; ofType: { name: string } };
+
+/**
+ * Instances of generic types get concrete names, which are valid in GraphQL,
+ * e.g. `Result<String, [User]>` is named `Result_String_List_User`.
+ */
+export const instanceName = (
+  name: string,
+  typeArguments: ReadonlyArray<InstanceTypeRef>,
+): string => [name, ...typeArguments.map(typeRefName)].join('_');
+
+const typeRefName = (type: InstanceTypeRef): string => {
+  switch (type.kind) {
+    case 'LIST':
+      return `List_${typeRefName(type.ofType)}`;
+    case 'MAYBE':
+      return `Maybe_${typeRefName(type.ofType)}`;
+    case 'NAMED':
+      return type.ofType.name;
+  }
+};
+
 type IrisNode = {
   name: string;
   description?: Maybe<string>;
@@ -78,12 +117,14 @@ export type IrisVariant<R extends Role = Role> = IrisNode & {
   type?: IrisTypeDefinition<R>;
 };
 
-type IrisTypeConfig<R extends Role> = {
+export type IrisTypeConfig<R extends Role> = {
   role: R;
   name: string;
   description?: Maybe<string>;
   variants: Thunk<ReadonlyArray<IrisVariant<R>>>;
   astNode?: Maybe<TypeDefinitionNode<R>>;
+  extensionASTNodes?: ReadonlyArray<TypeExtensionNode<R>>;
+  typeArguments?: ReadonlyArray<IrisTypeRef>;
   scalar?: R extends 'data' ? GraphQLScalarType<any, any> : undefined;
 };
 
@@ -91,6 +132,12 @@ export class IrisTypeDefinition<R extends Role = Role> {
   name: string;
   description: Maybe<string>;
   astNode: Maybe<TypeDefinitionNode<R>>;
+  extensionASTNodes: ReadonlyArray<TypeExtensionNode<R>>;
+  /**
+   * Type arguments of instances of generic types, e.g. `[String, User]` for
+   * `Result<String, User>`.
+   */
+  typeArguments: ReadonlyArray<IrisTypeRef>;
   role: R;
   isVariantType: boolean;
 
@@ -102,6 +149,8 @@ export class IrisTypeDefinition<R extends Role = Role> {
     this.name = config.name;
     this.description = config.description;
     this.astNode = config.astNode;
+    this.extensionASTNodes = config.extensionASTNodes ?? [];
+    this.typeArguments = config.typeArguments ?? [];
     this.role = config.role;
     this.#thunkVariants = () => resolveThunk(config.variants);
     this.#scalar = config.scalar;
@@ -114,13 +163,21 @@ export class IrisTypeDefinition<R extends Role = Role> {
     return 'IrisTypeDefinition';
   }
 
+  /**
+   * Scalar implementing this type, it is defined only for the standard and
+   * the custom scalars.
+   */
+  get scalar(): Maybe<GraphQLScalarType> {
+    return this.#scalar;
+  }
+
   get boxedScalar() {
     if (this.#scalar) {
       return this.#scalar;
     }
 
     const [variant] = this.variants();
-    return stdScalars[variant?.name];
+    return stdScalars[variant?.name] ?? variant?.type?.scalar;
   }
 
   variants = (): ReadonlyArray<IrisVariant<R>> => {
@@ -135,6 +192,21 @@ export class IrisTypeDefinition<R extends Role = Role> {
   variantBy = (name?: string): IrisVariant<R> =>
     lookupVariant(this.name, this.variants(), name);
 
+  /**
+   * Config of this type, e.g. to create a renamed copy by
+   * `new IrisTypeDefinition({ ...type.toConfig(), name })`.
+   */
+  toConfig = (): IrisTypeConfig<R> => ({
+    role: this.role,
+    name: this.name,
+    description: this.description,
+    variants: this.variants,
+    astNode: this.astNode,
+    extensionASTNodes: this.extensionASTNodes,
+    typeArguments: this.typeArguments,
+    scalar: this.#scalar as IrisTypeConfig<R>['scalar'],
+  });
+
   toString = (): string => this.name;
 
   toJSON = (): string => this.toString();
@@ -171,14 +243,29 @@ const lookupVariant = <V extends { name: string }>(
   return variant;
 };
 
-export const IrisScalars = mapValue(
-  stdScalars,
-  (scalar) =>
-    new IrisTypeDefinition({
-      role: 'data',
-      name: scalar.name,
-      description: scalar.description,
-      variants: [{ name: scalar.name }],
-      scalar,
-    }),
+export const scalarTypeDefinition = (
+  scalar: GraphQLScalarType,
+  name: string = scalar.name,
+): IrisTypeDefinition<'data'> =>
+  new IrisTypeDefinition({
+    role: 'data',
+    name,
+    description: scalar.description,
+    variants: [{ name }],
+    scalar,
+  });
+
+export const IrisScalars = mapValue(stdScalars, (scalar) =>
+  scalarTypeDefinition(scalar),
 );
+
+/**
+ * Returns type definitions of the standard scalars together with the custom
+ * scalars. Standard scalars can not be overridden.
+ */
+export const scalarTypeDefinitions = (
+  scalars: IrisScalarMap = {},
+): ObjMap<IrisTypeDefinition<'data'>> => ({
+  ...mapValue(scalars, scalarTypeDefinition),
+  ...IrisScalars,
+});
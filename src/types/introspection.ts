@@ -0,0 +1,208 @@
+import { print } from '../printing/printer';
+import type { Maybe } from '../utils/type-level';
+
+import type { ConstDirectiveNode, Role } from './ast';
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from './definition';
+import { isSpecifiedScalarType } from './definition';
+import type { IrisDirectiveLocation } from './directiveLocation';
+import type { GraphQLDirective } from './directives';
+import { GraphQLDeprecatedDirective, isSpecifiedDirective } from './directives';
+import type { IrisSchema } from './schema';
+
+export type IrisIntrospectionQuery = {
+  readonly __iris: IrisIntrospectionSchema;
+};
+
+/**
+ * JSON description of an Iris schema. Standard scalars and the `@deprecated`
+ * directive are omitted, deprecations are described by `deprecationReason`.
+ */
+export type IrisIntrospectionSchema = {
+  readonly types: ReadonlyArray<IrisIntrospectionType>;
+  readonly directives: ReadonlyArray<IrisIntrospectionDirective>;
+};
+
+export type IrisIntrospectionTypeRef =
+  | { readonly kind: 'NAMED'; readonly name: string }
+  | {
+      readonly kind: 'LIST' | 'MAYBE';
+      readonly ofType: IrisIntrospectionTypeRef;
+    };
+
+/**
+ * Directive applied to a definition, its arguments are printed as Iris
+ * values.
+ */
+export type IrisIntrospectionAppliedDirective = {
+  readonly name: string;
+  readonly args: ReadonlyArray<{
+    readonly name: string;
+    readonly value: string;
+  }>;
+};
+
+export type IrisIntrospectionInputValue = {
+  readonly name: string;
+  readonly description: Maybe<string>;
+  readonly type: IrisIntrospectionTypeRef;
+  /**
+   * Default value printed as Iris value, e.g. `["Zeus"]`.
+   */
+  readonly defaultValue: Maybe<string>;
+  readonly deprecationReason: Maybe<string>;
+  readonly directives: ReadonlyArray<IrisIntrospectionAppliedDirective>;
+};
+
+export type IrisIntrospectionField = {
+  readonly name: string;
+  readonly description: Maybe<string>;
+  readonly type: IrisIntrospectionTypeRef;
+  readonly args: Maybe<ReadonlyArray<IrisIntrospectionInputValue>>;
+  readonly deprecationReason: Maybe<string>;
+  readonly directives: ReadonlyArray<IrisIntrospectionAppliedDirective>;
+};
+
+/**
+ * Variants either have fields or include the type with the name `type`.
+ */
+export type IrisIntrospectionVariant = {
+  readonly name: string;
+  readonly description: Maybe<string>;
+  readonly fields: Maybe<ReadonlyArray<IrisIntrospectionField>>;
+  readonly type: Maybe<string>;
+  readonly deprecationReason: Maybe<string>;
+  readonly directives: ReadonlyArray<IrisIntrospectionAppliedDirective>;
+};
+
+/**
+ * Custom scalars are described as data types without variants.
+ */
+export type IrisIntrospectionType = {
+  readonly role: Role;
+  readonly name: string;
+  readonly description: Maybe<string>;
+  readonly variants: ReadonlyArray<IrisIntrospectionVariant>;
+  readonly directives: ReadonlyArray<IrisIntrospectionAppliedDirective>;
+};
+
+export type IrisIntrospectionDirective = {
+  readonly name: string;
+  readonly description: Maybe<string>;
+  readonly locations: ReadonlyArray<IrisDirectiveLocation>;
+  readonly args: ReadonlyArray<IrisIntrospectionInputValue>;
+  readonly isRepeatable: boolean;
+};
+
+type DirectivesNode = Maybe<{
+  readonly directives?: ReadonlyArray<ConstDirectiveNode>;
+}>;
+
+// applied directives are only known from AST nodes.
+const appliedDirectives = (
+  nodes: ReadonlyArray<DirectivesNode>,
+): ReadonlyArray<IrisIntrospectionAppliedDirective> =>
+  nodes
+    .flatMap((node) => node?.directives ?? [])
+    .filter(({ name }) => name.value !== GraphQLDeprecatedDirective.name)
+    .map(({ name, arguments: args = [] }) => ({
+      name: name.value,
+      args: args.map((arg) => ({
+        name: arg.name.value,
+        value: print(arg.value),
+      })),
+    }));
+
+const introspectTypeRef = (type: IrisTypeRef): IrisIntrospectionTypeRef =>
+  type.kind === 'NAMED'
+    ? { kind: 'NAMED', name: type.ofType.name }
+    : { kind: type.kind, ofType: introspectTypeRef(type.ofType) };
+
+const introspectArgument = ({
+  name,
+  description,
+  type,
+  deprecationReason,
+  astNode,
+}: IrisArgument): IrisIntrospectionInputValue => ({
+  name,
+  description: description ?? null,
+  type: introspectTypeRef(type),
+  defaultValue: astNode?.defaultValue ? print(astNode.defaultValue) : null,
+  deprecationReason: deprecationReason ?? null,
+  directives: appliedDirectives([astNode]),
+});
+
+const introspectField = ({
+  name,
+  description,
+  type,
+  args,
+  deprecationReason,
+  astNode,
+}: IrisField): IrisIntrospectionField => ({
+  name,
+  description: description ?? null,
+  type: introspectTypeRef(type),
+  args: args?.map(introspectArgument) ?? null,
+  deprecationReason: deprecationReason ?? null,
+  directives: appliedDirectives([astNode]),
+});
+
+const introspectVariant = ({
+  name,
+  description,
+  fields,
+  type,
+  deprecationReason,
+  astNode,
+}: IrisVariant): IrisIntrospectionVariant => ({
+  name,
+  description: description ?? null,
+  fields: fields ? Object.values(fields).map(introspectField) : null,
+  type: type?.name ?? null,
+  deprecationReason: deprecationReason ?? null,
+  directives: appliedDirectives([astNode]),
+});
+
+const introspectType = (type: IrisTypeDefinition): IrisIntrospectionType => ({
+  role: type.role,
+  name: type.name,
+  description: type.description ?? null,
+  variants: type.scalar ? [] : type.variants().map(introspectVariant),
+  directives: appliedDirectives([type.astNode, ...type.extensionASTNodes]),
+});
+
+const introspectDirective = ({
+  name,
+  description,
+  locations,
+  args,
+  isRepeatable,
+}: GraphQLDirective): IrisIntrospectionDirective => ({
+  name,
+  description: description ?? null,
+  locations,
+  args: args.map(introspectArgument),
+  isRepeatable,
+});
+
+/**
+ * Describes the types and directives of the schema as JSON, which can be
+ * turned back into a schema by buildClientIrisSchema.
+ */
+export const introspectionFromIrisSchema = (
+  schema: IrisSchema,
+): IrisIntrospectionSchema => ({
+  types: Object.values(schema.types)
+    .filter((type) => !isSpecifiedScalarType(type))
+    .map(introspectType),
+  directives: schema.directives
+    .filter((directive) => !isSpecifiedDirective(directive))
+    .map(introspectDirective),
+});
@@ -6,7 +6,9 @@ export enum IrisKind {
   FIELD_DEFINITION = 'FieldDefinition',
   VARIANT_DEFINITION = 'VariantDefinition',
   TYPE_DEFINITION = 'TypeDefinition',
+  TYPE_EXTENSION = 'TypeExtension',
   DIRECTIVE_DEFINITION = 'DirectiveDefinition',
+  IMPORT_DEFINITION = 'ImportDefinition',
   DOCUMENT = 'Document',
 }
 
@@ -34,4 +36,6 @@ export enum TokenKind {
   COMMENT = 'Comment',
   QUESTION_MARK = '?',
   BANG = '!',
+  ANGLE_L = '<',
+  ANGLE_R = '>',
 }
@@ -4,33 +4,41 @@ import { prop, uniqBy } from 'ramda';
 import { typeCheckASTValue } from '../validation/typeCheckASTValue';
 import { validateSDL } from '../validation/validate';
 
+import { irisError } from '../error';
 import { parse } from '../parsing';
 import type { TypeMap } from '../utils/collectTypeMap';
 import { collectTypeMap } from '../utils/collectTypeMap';
+import type { ObjMap } from '../utils/ObjMap';
 import type { IrisMaybe, Maybe } from '../utils/type-level';
 import { notNill } from '../utils/type-level';
 
 import type {
   ArgumentDefinitionNode,
   DirectiveDefinitionNode,
+  DocumentNode,
   FieldDefinitionNode,
   NamedTypeNode,
   Role,
   TypeDefinitionNode,
+  TypeExtensionNode,
   TypeNode,
   VariantDefinitionNode,
 } from './ast';
+import { isImportDefinitionNode, isTypeVariantNode } from './ast';
 import type {
   IrisArgument,
   IrisField,
+  IrisScalarMap,
   IrisTypeRef,
   IrisVariant,
 } from './definition';
 import {
+  instanceName,
   IrisScalars,
   IrisTypeDefinition,
   irisTypeRef,
   liftType,
+  scalarTypeDefinitions,
 } from './definition';
 import {
   GraphQLDeprecatedDirective,
@@ -55,25 +63,73 @@ type IrisSchema = {
   readonly types: TypeMap;
 };
 
+export type BuildASTSchemaOptions = {
+  /**
+   * Set to true to assume the SDL is valid.
+   *
+   * Default: false
+   */
+  assumeValidSDL?: boolean;
+  /**
+   * Custom scalars, which can be used by their names like the standard
+   * scalars. Types declared without variants (e.g. `data DateTime`) are
+   * replaced by the scalar with the same name, types declared with variants
+   * must not share their names with custom scalars.
+   */
+  scalars?: IrisScalarMap;
+};
+
+export type BuildSchemaOptions = ParseOptions & BuildASTSchemaOptions;
+
 export function buildSchema(
   source: string | Source,
-  options?: ParseOptions,
+  options?: BuildSchemaOptions,
 ): IrisSchema {
   const documentAST = parse(source, { noLocation: options?.noLocation });
-  const errors = validateSDL(documentAST);
+  return buildASTSchema(documentAST, options);
+}
 
-  if (errors.length !== 0) {
-    throw new Error(errors.map((error) => error.message).join('\n\n'));
+/**
+ * Builds a schema from an already parsed document. Import definitions are
+ * rejected, because only buildSchemaFromFiles resolves them. With
+ * `assumeValidSDL` they are ignored.
+ */
+export function buildASTSchema(
+  documentAST: DocumentNode,
+  options?: BuildASTSchemaOptions,
+): IrisSchema {
+  if (options?.assumeValidSDL !== true) {
+    const errors = [
+      ...documentAST.definitions
+        .filter(isImportDefinitionNode)
+        .map((def) =>
+          irisError(
+            `Cannot import from "${def.path.value}", imports are only resolved by buildSchemaFromFiles.`,
+            { nodes: def },
+          ),
+        ),
+      ...validateSDL(documentAST, undefined, {
+        scalars: options?.scalars,
+      }),
+    ];
+
+    if (errors.length !== 0) {
+      throw new Error(errors.map((error) => error.message).join('\n\n'));
+    }
   }
 
   const directiveDefs: Array<DirectiveDefinitionNode> = [];
   const typeMap: Record<string, IrisTypeDefinition> = {};
+  const scalarTypes = scalarTypeDefinitions(options?.scalars);
+  const extensionMap: Record<string, Array<TypeExtensionNode>> = {};
+  const genericDefs: Record<string, TypeDefinitionNode> = {};
+  const instances: Record<string, IrisTypeDefinition> = {};
 
   function lookupType<R extends Role>(
     node: NamedTypeNode | VariantDefinitionNode<R>,
   ): IrisTypeDefinition<R> {
     const name = node.name.value;
-    const type = IrisScalars[name] ?? typeMap[name];
+    const type = scalarTypes[name] ?? typeMap[name];
 
     if (type === undefined) {
       throw new Error(`Unknown type: "${name}".`);
@@ -82,14 +138,51 @@ export function buildSchema(
     return type as IrisTypeDefinition<R>;
   }
 
-  function getWrappedType<R extends Role>(node: TypeNode): IrisTypeRef<R> {
+  function instantiateType<R extends Role>(
+    node: NamedTypeNode,
+    typeArguments: ReadonlyArray<IrisTypeRef>,
+  ): IrisTypeDefinition<R> {
+    const astNode = genericDefs[node.name.value];
+
+    if (astNode === undefined) {
+      throw new Error(`Unknown generic type: "${node.name.value}".`);
+    }
+
+    const name = instanceName(astNode.name.value, typeArguments);
+
+    if (!instances[name]) {
+      instances[name] = buildType(astNode, typeArguments);
+    }
+
+    return instances[name] as IrisTypeDefinition<R>;
+  }
+
+  function getWrappedType<R extends Role>(
+    node: TypeNode,
+    scope: TypeScope = {},
+  ): IrisTypeRef<R> {
     switch (node.kind) {
       case IrisKind.LIST_TYPE:
-        return irisTypeRef('LIST', getWrappedType(node.type));
-      case IrisKind.MAYBE_TYPE:
-        return irisTypeRef('MAYBE', getWrappedType(node.type));
-      case IrisKind.NAMED_TYPE:
-        return irisTypeRef('NAMED', lookupType(node));
+        return irisTypeRef('LIST', getWrappedType(node.type, scope));
+      case IrisKind.MAYBE_TYPE: {
+        const type = getWrappedType<R>(node.type, scope);
+        // type arguments can be already optional, e.g. `A?` with `A = Int?`
+        return type.kind === 'MAYBE' ? type : irisTypeRef('MAYBE', type);
+      }
+      case IrisKind.NAMED_TYPE: {
+        const typeArguments = (node.arguments ?? []).map((arg) =>
+          getWrappedType(arg, scope),
+        );
+
+        if (typeArguments.length !== 0) {
+          return irisTypeRef('NAMED', instantiateType(node, typeArguments));
+        }
+
+        return (
+          (scope[node.name.value] as IrisTypeRef<R> | undefined) ??
+          irisTypeRef('NAMED', lookupType(node))
+        );
+      }
     }
   }
 
@@ -99,19 +192,29 @@ export function buildSchema(
       description: node.description?.value,
       locations: node.locations.map(({ value }) => value as any),
       isRepeatable: node.repeatable,
-      args: node.arguments?.map(buildArgument),
+      args: node.arguments?.map((arg) => buildArgument(arg)),
       astNode: node,
     });
   }
 
-  function buildArgument(astNode: ArgumentDefinitionNode): IrisArgument {
-    const type: any = getWrappedType(astNode.type);
+  function buildArgument(
+    astNode: ArgumentDefinitionNode,
+    scope?: TypeScope,
+  ): IrisArgument {
+    const type: any = getWrappedType(astNode.type, scope);
     const name = astNode.name.value;
+    let defaultValue;
+    try {
+      defaultValue = typeCheckASTValue(astNode.defaultValue, type);
+    } catch (error) {
+      throw irisError(error.message, { nodes: astNode.defaultValue });
+    }
+
     return {
       name,
       type,
       description: astNode.description?.value,
-      defaultValue: typeCheckASTValue(astNode.defaultValue, type),
+      defaultValue,
       deprecationReason: getDeprecationReason(astNode),
       astNode,
     };
@@ -119,9 +222,12 @@ export function buildSchema(
 
   const buildField = <R extends Role>(
     field: FieldDefinitionNode<R>,
+    scope: TypeScope,
   ): IrisField<R> => {
-    const type = getWrappedType(field.type) as IrisField<R>['type'];
-    const args = field.arguments?.map(buildArgument) as IrisField<R>['args'];
+    const type = getWrappedType(field.type, scope) as IrisField<R>['type'];
+    const args = field.arguments?.map((arg) =>
+      buildArgument(arg, scope),
+    ) as IrisField<R>['args'];
 
     return {
       name: field.name.value,
@@ -136,18 +242,26 @@ export function buildSchema(
 
   const buildVariant = <R extends Role>(
     astNode: VariantDefinitionNode<R>,
+    scope: TypeScope,
+    name: string = astNode.name.value,
   ): IrisVariant<R> => {
-    const name = astNode.name.value;
     const description = astNode.description?.value;
     const deprecationReason = getDeprecationReason(astNode);
 
     if (!astNode.fields) {
+      // included type parameters are replaced by their named type arguments.
+      const typeArgument = scope[astNode.name.value];
+      const type =
+        typeArgument?.kind === 'NAMED'
+          ? (typeArgument.ofType as IrisTypeDefinition<R>)
+          : lookupType(astNode);
+
       return {
-        name,
+        name: typeArgument ? type.name : name,
         description,
         deprecationReason,
         astNode,
-        type: lookupType(astNode),
+        type,
       };
     }
 
@@ -158,33 +272,72 @@ export function buildSchema(
       fields: Object.fromEntries(
         (astNode.fields ?? []).map((field) => [
           field.name.value,
-          buildField(field),
+          buildField(field, scope),
         ]),
       ),
       astNode,
     };
   };
 
+  // generic types are built only for their type arguments, the instance gets
+  // a concrete name and its type parameters are replaced by the arguments.
   const buildType = <R extends Role>(
     astNode: TypeDefinitionNode<R>,
-  ): IrisTypeDefinition<R> =>
-    new IrisTypeDefinition({
+    typeArguments: ReadonlyArray<IrisTypeRef> = [],
+  ): IrisTypeDefinition<R> => {
+    const extensionASTNodes = (extensionMap[astNode.name.value] ?? []).filter(
+      (node): node is TypeExtensionNode<R> => node.role === astNode.role,
+    );
+    const name = instanceName(astNode.name.value, typeArguments);
+    const scope: TypeScope = Object.fromEntries(
+      (astNode.parameters ?? []).map((param, i) => [
+        param.value,
+        typeArguments[i],
+      ]),
+    );
+    // the single variant of a type with fields is named like the type.
+    const variantName = (variant: VariantDefinitionNode<R>) =>
+      variant.name.value === astNode.name.value ? name : variant.name.value;
+
+    return new IrisTypeDefinition({
       role: astNode.role,
-      name: astNode.name.value,
+      name,
       description: astNode.description?.value,
-      variants: () => astNode.variants.map(buildVariant),
+      variants: () =>
+        mergeVariants(astNode, extensionASTNodes).map((variant) =>
+          buildVariant(variant, scope, variantName(variant)),
+        ),
       astNode,
+      extensionASTNodes,
+      typeArguments,
     });
+  };
+
+  documentAST.definitions.forEach((def) => {
+    if (def.kind === IrisKind.TYPE_EXTENSION) {
+      extensionMap[def.name.value] = [
+        ...(extensionMap[def.name.value] ?? []),
+        def,
+      ];
+    }
+  });
 
   documentAST.definitions.forEach((def) => {
-    const name = def.name.value;
     switch (def.kind) {
       case IrisKind.TYPE_DEFINITION:
-        typeMap[name] = IrisScalars[name] ?? buildType(def);
+        if (def.parameters?.length) {
+          genericDefs[def.name.value] = def;
+        } else {
+          typeMap[def.name.value] =
+            scalarTypes[def.name.value] ?? buildType(def);
+        }
         break;
       case IrisKind.DIRECTIVE_DEFINITION:
         directiveDefs.push(def);
         break;
+      case IrisKind.IMPORT_DEFINITION:
+      case IrisKind.TYPE_EXTENSION:
+        break;
     }
   });
 
@@ -207,6 +360,31 @@ export function buildSchema(
   };
 }
 
+type TypeScope = ObjMap<IrisTypeRef>;
+
+// extensions of types with fields add fields to the single variant of the
+// type, all other extensions add variants.
+function mergeVariants<R extends Role>(
+  astNode: TypeDefinitionNode<R>,
+  extensionASTNodes: ReadonlyArray<TypeExtensionNode<R>>,
+): ReadonlyArray<VariantDefinitionNode<R>> {
+  const variants = [
+    ...astNode.variants,
+    ...extensionASTNodes.flatMap((extension) => extension.variants),
+  ];
+
+  if (!isTypeVariantNode(astNode) || variants.length <= 1) {
+    return variants;
+  }
+
+  return [
+    {
+      ...variants[0],
+      fields: variants.flatMap((variant) => variant.fields ?? []),
+    },
+  ];
+}
+
 function getDeprecationReason(node: {
   readonly directives?: ReadonlyArray<DirectiveNode>;
 }): IrisMaybe<string> {
@@ -0,0 +1,80 @@
+import { GraphQLScalarType } from 'graphql';
+
+import { printSchema } from '../../printing/printSchema';
+import type { IrisIntrospectionQuery } from '../../types/introspection';
+import { introspectionFromIrisSchema } from '../../types/introspection';
+import { buildSchema } from '../../types/schema';
+
+import { buildClientIrisSchema } from '../buildClientIrisSchema';
+
+const DateTime = new GraphQLScalarType({ name: 'DateTime' });
+
+const sdl = `
+  directive @cached(ttl: Int = 60) on FIELD_DEFINITION | VARIANT_DEFINITION
+
+  "lifespan of a deity"
+  data Lifespan
+    = Immortal {}
+    | Limited @cached { max: Int?, since: DateTime? }
+
+  data Result<T> = Ok { value: T } | Error { message: String }
+
+  resolver God = {
+    "name of the god"
+    name: String
+    lifespan: Lifespan
+    alias: String? @deprecated(reason: "use name")
+    power: Result<Int> @cached(ttl: 10)
+  }
+
+  resolver Deity = God | Titan { name: String @deprecated }
+
+  resolver Query = {
+    deities(lifespan: Lifespan = Immortal, names: [String] = ["Zeus"]): [Deity]
+  }
+
+  data DateTime
+`;
+
+const introspect = (src: string) => ({
+  __iris: introspectionFromIrisSchema(
+    buildSchema(src, { scalars: { DateTime } }),
+  ),
+});
+
+describe('buildClientIrisSchema', () => {
+  it('rebuilds the schema from its introspection', () => {
+    const introspection = introspect(sdl);
+    const schema = buildClientIrisSchema(introspection, {
+      scalars: { DateTime },
+    });
+
+    expect(printSchema(schema)).toEqual(
+      printSchema(buildSchema(sdl, { scalars: { DateTime } })),
+    );
+    expect(introspectionFromIrisSchema(schema)).toEqual(introspection.__iris);
+    expect(schema.types.DateTime.scalar).toBe(DateTime);
+  });
+
+  it('describes types by their roles, variants and directives', () => {
+    expect(introspect(sdl).__iris).toMatchSnapshot();
+  });
+
+  it('builds custom scalars without implementations as data types', () => {
+    const schema = buildClientIrisSchema(introspect(sdl));
+
+    expect(schema.types.DateTime.scalar).toBeUndefined();
+    expect(schema.types.DateTime.variants()).toEqual([]);
+  });
+
+  it('rejects invalid introspection results', () => {
+    // the introspection result is passed with "data"
+    const response: unknown = { data: { __iris: {} } };
+
+    expect(() =>
+      buildClientIrisSchema(response as IrisIntrospectionQuery),
+    ).toThrow(
+      'Invalid or incomplete introspection result. Ensure that you are passing "data" property of the response and that "__iris" was selected. Received: { data: { __iris: {} } }.',
+    );
+  });
+});
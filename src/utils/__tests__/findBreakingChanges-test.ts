@@ -0,0 +1,196 @@
+import { buildSchema } from '../../types/schema';
+
+import {
+  BreakingChangeType,
+  DangerousChangeType,
+  findBreakingChanges,
+  findDangerousChanges,
+} from '../findBreakingChanges';
+
+const base = `
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  data Filter = {
+    name: String?
+    lifespan: Lifespan?
+  }
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+  }
+
+  resolver Deity
+    = God
+    | Titan { name: String }
+
+  resolver Query = {
+    deities(filter: Filter?, limit: Int = 10): [Deity]
+  }
+`;
+
+const changes = (newSrc: string, oldSrc = base) => {
+  const [oldSchema, newSchema] = [buildSchema(oldSrc), buildSchema(newSrc)];
+
+  return {
+    breaking: findBreakingChanges(oldSchema, newSchema).map(
+      ({ type, description }) => [type, description],
+    ),
+    dangerous: findDangerousChanges(oldSchema, newSchema).map(
+      ({ type, description }) => [type, description],
+    ),
+  };
+};
+
+describe('findBreakingChanges', () => {
+  it('finds no changes for the same schema', () => {
+    expect(changes(base)).toEqual({ breaking: [], dangerous: [] });
+  });
+
+  it('finds removed variants of data types', () => {
+    expect(
+      changes(base.replace('| Limited { max: Int? }', '')).breaking,
+    ).toEqual([
+      [
+        BreakingChangeType.VARIANT_REMOVED,
+        'Variant "Limited" was removed from data "Lifespan".',
+      ],
+    ]);
+  });
+
+  it('finds required fields of data used as input', () => {
+    expect(
+      changes(base.replace('name: String?', 'name: String')).breaking,
+    ).toEqual([
+      [
+        BreakingChangeType.FIELD_CHANGED_KIND,
+        'Field "Filter.name" has changed type from "String?" to "String".',
+      ],
+    ]);
+
+    expect(
+      changes(base.replace('name: String?', 'name: String? \n age: Int'))
+        .breaking,
+    ).toEqual([
+      [
+        BreakingChangeType.REQUIRED_FIELD_ADDED,
+        'A required field "Filter.age" was added to data used as input.',
+      ],
+    ]);
+  });
+
+  it('accepts stricter fields of data used as output', () => {
+    const src = base.replace('max: Int?', 'max: Int');
+
+    expect(changes(src).breaking).toEqual([
+      [
+        BreakingChangeType.FIELD_CHANGED_KIND,
+        'Field "Lifespan.Limited.max" has changed type from "Int?" to "Int".',
+      ],
+    ]);
+    expect(
+      changes(
+        src.replace('filter: Filter?, ', ''),
+        base.replace('filter: Filter?, ', ''),
+      ).breaking,
+    ).toEqual([]);
+  });
+
+  it('finds changed roles and removed variants', () => {
+    expect(
+      changes(
+        base
+          .replace('data Filter', 'resolver Filter')
+          .replace('filter: Filter?, ', '')
+          .replace('| Titan { name: String }', ''),
+      ).breaking,
+    ).toEqual([
+      [
+        BreakingChangeType.TYPE_ROLE_CHANGED,
+        '"Filter" changed from data to resolver.',
+      ],
+      [
+        BreakingChangeType.VARIANT_REMOVED,
+        'Variant "Titan" was removed from resolver "Deity".',
+      ],
+      [
+        BreakingChangeType.ARG_REMOVED,
+        'Argument "Query.deities(filter:)" was removed.',
+      ],
+    ]);
+  });
+
+  it('finds removed types', () => {
+    expect(
+      changes(
+        base
+          .replace(/data Filter = {[^}]*}/, '')
+          .replace('filter: Filter?, ', ''),
+      ).breaking,
+    ).toEqual([
+      [BreakingChangeType.TYPE_REMOVED, '"Filter" was removed.'],
+      [
+        BreakingChangeType.ARG_REMOVED,
+        'Argument "Query.deities(filter:)" was removed.',
+      ],
+    ]);
+  });
+
+  it('finds changed and added arguments', () => {
+    expect(
+      changes(
+        base.replace(
+          'deities(filter: Filter?, limit: Int = 10)',
+          'deities(filter: Filter, limit: Int = 5, after: ID, first: Int?)',
+        ),
+      ),
+    ).toEqual({
+      breaking: [
+        [
+          BreakingChangeType.ARG_CHANGED_KIND,
+          'Argument "Query.deities(filter:)" has changed type from "Filter?" to "Filter".',
+        ],
+        [
+          BreakingChangeType.REQUIRED_ARG_ADDED,
+          'A required argument "Query.deities(after:)" was added.',
+        ],
+      ],
+      dangerous: [
+        [
+          DangerousChangeType.ARG_DEFAULT_VALUE_CHANGE,
+          'Argument "Query.deities(limit:)" has changed its default value.',
+        ],
+        [
+          DangerousChangeType.OPTIONAL_ARG_ADDED,
+          'An optional argument "Query.deities(first:)" was added.',
+        ],
+      ],
+    });
+  });
+
+  it('finds variants added to outputs', () => {
+    expect(
+      changes(base.replace('| Limited', '| Mortal {} | Limited')).dangerous,
+    ).toEqual([
+      [
+        DangerousChangeType.VARIANT_ADDED,
+        'Variant "Mortal" was added to data "Lifespan".',
+      ],
+    ]);
+  });
+
+  it('locates changes in the schema', () => {
+    const [change] = findBreakingChanges(
+      buildSchema(base),
+      buildSchema(base.replace('name: String?', 'name: String')),
+    );
+
+    expect(change.location).toEqual({
+      source: 'GraphQL request',
+      line: 7,
+      column: 5,
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import { printSchema } from '../../printing/printSchema';
+import type { ConstDirectiveNode } from '../../types/ast';
+import type { IrisField } from '../../types/definition';
+import {
+  IrisScalars,
+  IrisTypeDefinition,
+  liftType,
+} from '../../types/definition';
+import { GraphQLDirective } from '../../types/directives';
+import { buildSchema } from '../../types/schema';
+
+import { dedent } from '../dedent';
+import { mapIrisSchema } from '../mapIrisSchema';
+
+const schema = buildSchema(`
+  directive @internal on FIELD_DEFINITION | VARIANT_DEFINITION
+
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+
+  data Secret = { code: String }
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+    secret: Secret @internal
+  }
+
+  resolver Deity
+    = God
+    | Titan { name: String }
+    | Hidden @internal { name: String }
+
+  resolver Query = {
+    deities(lifespan: Lifespan?): [Deity]
+  }
+`);
+
+type WithDirectives = {
+  astNode?: { directives?: ReadonlyArray<ConstDirectiveNode> };
+};
+
+const stripInternal = ({ astNode }: WithDirectives) =>
+  astNode?.directives?.some(({ name }) => name.value === 'internal')
+    ? null
+    : undefined;
+
+describe('mapIrisSchema', () => {
+  it('keeps the schema without mappers', () => {
+    expect(printSchema(mapIrisSchema(schema, {}))).toEqual(printSchema(schema));
+  });
+
+  it('renames types and their references', () => {
+    const prefixed = mapIrisSchema(schema, {
+      data: (type) =>
+        new IrisTypeDefinition({ ...type.toConfig(), name: `Greek${type}` }),
+      resolver: (type) =>
+        type.name === 'Query'
+          ? undefined
+          : new IrisTypeDefinition({
+              ...type.toConfig(),
+              name: `Greek${type}`,
+            }),
+    });
+
+    expect(Object.keys(prefixed.types)).toEqual([
+      'GreekLifespan',
+      'Int',
+      'GreekSecret',
+      'String',
+      'GreekGod',
+      'GreekDeity',
+      'Query',
+    ]);
+    expect(printSchema(prefixed)).toMatchSnapshot();
+    expect(prefixed.types.GreekSecret.variantBy().name).toEqual('GreekSecret');
+  });
+
+  it('removes fields and variants and prunes unreachable types', () => {
+    const stripped = mapIrisSchema(schema, {
+      field: stripInternal,
+      variant: stripInternal,
+      directive: (directive) =>
+        directive.name === 'internal' ? null : undefined,
+    });
+
+    expect(printSchema(stripped)).toEqual(dedent`
+      data Lifespan = Immortal {} | Limited {
+        max: Int?
+      }
+
+      resolver God = {
+        name: String
+        lifespan: Lifespan
+      }
+
+      resolver Deity = God | Titan {
+        name: String
+      }
+
+      resolver Query = {
+        deities(lifespan: Lifespan?): [Deity]
+      }
+    `);
+    expect(stripped.types.Secret).toBeUndefined();
+  });
+
+  it('removes references to removed types', () => {
+    const withoutLifespan = mapIrisSchema(schema, {
+      data: (type) => (type.name === 'Lifespan' ? null : undefined),
+    });
+
+    expect(withoutLifespan.types.Lifespan).toBeUndefined();
+    expect(
+      Object.keys(withoutLifespan.types.God.variantBy().fields ?? {}),
+    ).toEqual(['name', 'secret']);
+    expect(
+      withoutLifespan.types.Query.variantBy().fields?.deities.args,
+    ).toEqual([]);
+  });
+
+  it('rejects types without variants', () => {
+    const gods = buildSchema(`
+      resolver God = { name: String }
+
+      resolver Deity = God | Titan { name: String }
+
+      resolver Query = { god: God, deities: [Deity] }
+    `);
+
+    expect(() =>
+      mapIrisSchema(gods, {
+        variant: (variant) => (variant.name === 'God' ? null : undefined),
+      }),
+    ).toThrow(
+      'Type "God" must have at least one variant, but all of its variants were removed.',
+    );
+  });
+
+  it('rejects data types without required fields', () => {
+    const filters = buildSchema(`
+      data Lifespan = Immortal {} | Limited { max: Int? }
+
+      data Filter = { name: String, lifespan: Lifespan, since: Lifespan? }
+    `);
+    const removeLifespan = (type: IrisTypeDefinition<'data'>) =>
+      type.name === 'Lifespan' ? null : undefined;
+
+    expect(() => mapIrisSchema(filters, { data: removeLifespan })).toThrow(
+      'Required field "Filter.lifespan" references the removed type "Lifespan".',
+    );
+    expect(
+      printSchema(
+        mapIrisSchema(filters, {
+          data: removeLifespan,
+          field: ({ name }) => (name === 'lifespan' ? null : undefined),
+        }),
+      ),
+    ).toEqual(dedent`
+      data Filter = {
+        name: String
+      }
+    `);
+  });
+
+  it('adds fields to every variant', () => {
+    const id: IrisField = {
+      name: 'id',
+      type: liftType(IrisScalars.ID),
+    };
+
+    const withIds = mapIrisSchema(buildSchema('resolver Query = {}'), {
+      variant: (variant, type) =>
+        type.role === 'resolver'
+          ? { ...variant, fields: { ...variant.fields, id } }
+          : undefined,
+    });
+
+    expect(printSchema(withIds)).toEqual(dedent`
+      resolver Query = {
+        id: ID
+      }
+    `);
+  });
+
+  it('maps arguments of fields and directives', () => {
+    const mapped = mapIrisSchema(
+      buildSchema(`
+        directive @cached(ttl: Int, scope: String?) on FIELD_DEFINITION
+
+        resolver Query = {
+          deities(limit: Int, lifespan: String): [String] @cached(ttl: 10)
+        }
+      `),
+      {
+        argument: (arg) =>
+          ['scope', 'lifespan'].includes(arg.name)
+            ? null
+            : { ...arg, description: 'maximum' },
+        directive: (directive) =>
+          new GraphQLDirective({ ...directive, isRepeatable: true }),
+      },
+    );
+
+    expect(printSchema(mapped)).toEqual(dedent`
+      directive @cached(
+        """maximum"""
+        ttl: Int
+      ) repeatable on FIELD_DEFINITION
+
+      resolver Query = {
+        deities(
+          """maximum"""
+          limit: Int
+        ): [String]
+      }
+    `);
+  });
+});
@@ -0,0 +1,172 @@
+import type { StringValueNode } from 'graphql';
+import { Kind, parseConstValue } from 'graphql';
+
+import type {
+  ArgumentDefinitionNode,
+  ConstDirectiveNode,
+  DirectiveDefinitionNode,
+  DocumentNode,
+  FieldDefinitionNode,
+  ListTypeNode,
+  NamedTypeNode,
+  NameNode,
+  TypeDefinitionNode,
+  TypeNode,
+  VariantDefinitionNode,
+} from '../types/ast';
+import type {
+  IrisIntrospectionAppliedDirective,
+  IrisIntrospectionDirective,
+  IrisIntrospectionField,
+  IrisIntrospectionInputValue,
+  IrisIntrospectionQuery,
+  IrisIntrospectionType,
+  IrisIntrospectionTypeRef,
+  IrisIntrospectionVariant,
+} from '../types/introspection';
+import { IrisKind } from '../types/kinds';
+import type { BuildASTSchemaOptions, IrisSchema } from '../types/schema';
+import { buildASTSchema } from '../types/schema';
+
+import { inspect } from './legacy';
+import type { Maybe } from './type-level';
+
+const nameNode = (value: string): NameNode => ({ kind: Kind.NAME, value });
+
+const descriptionNode = (
+  description: Maybe<string>,
+): StringValueNode | undefined =>
+  description != null
+    ? { kind: Kind.STRING, value: description, block: true }
+    : undefined;
+
+const directiveNode = (
+  name: string,
+  args: IrisIntrospectionAppliedDirective['args'],
+): ConstDirectiveNode => ({
+  kind: Kind.DIRECTIVE,
+  name: nameNode(name),
+  arguments: args.map(({ name: argName, value }) => ({
+    kind: Kind.ARGUMENT,
+    name: nameNode(argName),
+    value: parseConstValue(value),
+  })),
+});
+
+// deprecations without reason are applied without arguments.
+const directiveNodes = (
+  directives: ReadonlyArray<IrisIntrospectionAppliedDirective>,
+  deprecationReason?: Maybe<string>,
+): ReadonlyArray<ConstDirectiveNode> => [
+  ...directives.map(({ name, args }) => directiveNode(name, args)),
+  ...(deprecationReason == null
+    ? []
+    : [
+        directiveNode(
+          'deprecated',
+          deprecationReason === ''
+            ? []
+            : [{ name: 'reason', value: JSON.stringify(deprecationReason) }],
+        ),
+      ]),
+];
+
+const typeNode = (type: IrisIntrospectionTypeRef): TypeNode => {
+  switch (type.kind) {
+    case 'NAMED':
+      return { kind: IrisKind.NAMED_TYPE, name: nameNode(type.name) };
+    case 'LIST':
+      return { kind: IrisKind.LIST_TYPE, type: typeNode(type.ofType) };
+    case 'MAYBE':
+      return {
+        kind: IrisKind.MAYBE_TYPE,
+        type: typeNode(type.ofType) as NamedTypeNode | ListTypeNode,
+      };
+  }
+};
+
+const argumentNode = (
+  arg: IrisIntrospectionInputValue,
+): ArgumentDefinitionNode => ({
+  kind: IrisKind.ARGUMENT_DEFINITION,
+  description: descriptionNode(arg.description),
+  name: nameNode(arg.name),
+  type: typeNode(arg.type),
+  defaultValue:
+    arg.defaultValue != null ? parseConstValue(arg.defaultValue) : undefined,
+  directives: directiveNodes(arg.directives, arg.deprecationReason),
+});
+
+const fieldNode = (field: IrisIntrospectionField): FieldDefinitionNode => ({
+  kind: IrisKind.FIELD_DEFINITION,
+  description: descriptionNode(field.description),
+  name: nameNode(field.name),
+  type: typeNode(field.type),
+  arguments: field.args?.map(argumentNode),
+  directives: directiveNodes(field.directives, field.deprecationReason),
+});
+
+// variants including other types are named like the included type.
+const variantNode = (
+  variant: IrisIntrospectionVariant,
+): VariantDefinitionNode => ({
+  kind: IrisKind.VARIANT_DEFINITION,
+  description: descriptionNode(variant.description),
+  name: nameNode(variant.type ?? variant.name),
+  fields: variant.fields?.map(fieldNode),
+  directives: directiveNodes(variant.directives, variant.deprecationReason),
+});
+
+const typeDefinitionNode = (
+  type: IrisIntrospectionType,
+): TypeDefinitionNode => ({
+  kind: IrisKind.TYPE_DEFINITION,
+  role: type.role,
+  description: descriptionNode(type.description),
+  name: nameNode(type.name),
+  parameters: [],
+  directives: directiveNodes(type.directives),
+  variants: type.variants.map(variantNode),
+});
+
+const directiveDefinitionNode = (
+  directive: IrisIntrospectionDirective,
+): DirectiveDefinitionNode => ({
+  kind: IrisKind.DIRECTIVE_DEFINITION,
+  description: descriptionNode(directive.description),
+  name: nameNode(directive.name),
+  arguments: directive.args.map(argumentNode),
+  repeatable: directive.isRepeatable,
+  locations: directive.locations.map(nameNode),
+});
+
+/**
+ * Builds an Iris schema from the result of the `__iris` introspection field,
+ * e.g. on a client. Custom scalars are built as data types without variants,
+ * unless their implementations are provided by `scalars`. Like
+ * buildASTSchema, the schema is validated unless `assumeValidSDL` is set.
+ */
+export const buildClientIrisSchema = (
+  introspection: IrisIntrospectionQuery,
+  options?: BuildASTSchemaOptions,
+): IrisSchema => {
+  const schema = introspection?.__iris;
+
+  if (!Array.isArray(schema?.types) || !Array.isArray(schema?.directives)) {
+    throw new Error(
+      'Invalid or incomplete introspection result. Ensure that you are passing "data" property of the response and that "__iris" was selected. Received: ' +
+        inspect(introspection) +
+        '.',
+    );
+  }
+
+  const document: DocumentNode = {
+    kind: IrisKind.DOCUMENT,
+    definitions: [
+      ...schema.directives.map(directiveDefinitionNode),
+      ...schema.types.map(typeDefinitionNode),
+    ],
+  };
+
+  return buildASTSchema(document, options);
+};
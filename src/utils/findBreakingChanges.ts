@@ -0,0 +1,451 @@
+import type { Location } from 'graphql';
+import { getLocation } from 'graphql';
+import { equals } from 'ramda';
+
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeDefinition,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import {
+  getNamedType,
+  isRequiredArgument,
+  isSpecifiedScalarType,
+  liftType,
+} from '../types/definition';
+import { isSpecifiedDirective } from '../types/directives';
+import type { IrisSchema } from '../types/schema';
+
+import type { ObjMap } from './ObjMap';
+import type { Maybe } from './type-level';
+
+export enum BreakingChangeType {
+  TYPE_REMOVED = 'TYPE_REMOVED',
+  TYPE_ROLE_CHANGED = 'TYPE_ROLE_CHANGED',
+  VARIANT_REMOVED = 'VARIANT_REMOVED',
+  FIELD_REMOVED = 'FIELD_REMOVED',
+  FIELD_CHANGED_KIND = 'FIELD_CHANGED_KIND',
+  REQUIRED_FIELD_ADDED = 'REQUIRED_FIELD_ADDED',
+  ARG_REMOVED = 'ARG_REMOVED',
+  ARG_CHANGED_KIND = 'ARG_CHANGED_KIND',
+  REQUIRED_ARG_ADDED = 'REQUIRED_ARG_ADDED',
+  DIRECTIVE_REMOVED = 'DIRECTIVE_REMOVED',
+}
+
+export enum DangerousChangeType {
+  VARIANT_ADDED = 'VARIANT_ADDED',
+  OPTIONAL_ARG_ADDED = 'OPTIONAL_ARG_ADDED',
+  ARG_DEFAULT_VALUE_CHANGE = 'ARG_DEFAULT_VALUE_CHANGE',
+}
+
+export type SchemaChangeLocation = {
+  source: string;
+  line: number;
+  column: number;
+};
+
+export type BreakingChange = {
+  type: BreakingChangeType;
+  description: string;
+  /**
+   * Location of the changed definition in the new schema, or of the removed
+   * definition in the old schema.
+   */
+  location?: SchemaChangeLocation;
+};
+
+export type DangerousChange = {
+  type: DangerousChangeType;
+  description: string;
+  location?: SchemaChangeLocation;
+};
+
+type SchemaChange = BreakingChange | DangerousChange;
+
+/**
+ * Data types used by arguments are inputs, data types used by resolver
+ * fields are outputs. Unused data types are treated as both, resolver types
+ * are outputs.
+ */
+type DataUsage = { input: boolean; output: boolean };
+
+const resolverUsage: DataUsage = { input: false, output: true };
+
+type LocatedNode = Maybe<{ readonly loc?: Location }>;
+
+const locationOf = (node: LocatedNode): SchemaChangeLocation | undefined => {
+  const loc = node?.loc;
+
+  if (!loc) {
+    return undefined;
+  }
+
+  return { source: loc.source.name, ...getLocation(loc.source, loc.start) };
+};
+
+const change = <T extends SchemaChange['type']>(
+  type: T,
+  description: string,
+  node: LocatedNode,
+) => {
+  const location = locationOf(node);
+  return { type, description, ...(location ? { location } : {}) };
+};
+
+const collectDataUsage = (
+  type: IrisTypeRef,
+  usage: ObjMap<DataUsage>,
+  kind: keyof DataUsage,
+) => {
+  const named = getNamedType(type);
+  const current = usage[named.name] ?? { input: false, output: false };
+
+  if (named.role !== 'data' || current[kind]) {
+    return;
+  }
+
+  usage[named.name] = { ...current, [kind]: true };
+
+  for (const variant of named.variants()) {
+    if (variant.type) {
+      collectDataUsage(liftType(variant.type), usage, kind);
+    }
+
+    for (const field of Object.values(variant.fields ?? {})) {
+      collectDataUsage(field.type, usage, kind);
+    }
+  }
+};
+
+const dataUsage = (schema: IrisSchema): ObjMap<DataUsage> => {
+  const usage: ObjMap<DataUsage> = {};
+
+  for (const type of Object.values(schema.types)) {
+    if (type.role !== 'resolver') {
+      continue;
+    }
+
+    for (const variant of type.variants()) {
+      for (const field of Object.values(variant.fields ?? {})) {
+        collectDataUsage(field.type, usage, 'output');
+        field.args?.forEach((arg) =>
+          collectDataUsage(arg.type, usage, 'input'),
+        );
+      }
+    }
+  }
+
+  for (const directive of schema.directives) {
+    directive.args.forEach((arg) => collectDataUsage(arg.type, usage, 'input'));
+  }
+
+  return usage;
+};
+
+const namedTypeName = (type: IrisTypeRef) => getNamedType(type).name;
+
+// outputs can become stricter, e.g. `String?` to `String`.
+const isSafeOutputChange = (
+  oldType: IrisTypeRef,
+  newType: IrisTypeRef,
+): boolean => {
+  switch (oldType.kind) {
+    case 'MAYBE':
+      return newType.kind === 'MAYBE'
+        ? isSafeOutputChange(oldType.ofType, newType.ofType)
+        : isSafeOutputChange(oldType.ofType, newType);
+    case 'LIST':
+      return (
+        newType.kind === 'LIST' &&
+        isSafeOutputChange(oldType.ofType, newType.ofType)
+      );
+    case 'NAMED':
+      return (
+        newType.kind === 'NAMED' &&
+        namedTypeName(oldType) === namedTypeName(newType)
+      );
+  }
+};
+
+// inputs can become more permissive, e.g. `String` to `String?`.
+const isSafeInputChange = (
+  oldType: IrisTypeRef,
+  newType: IrisTypeRef,
+): boolean => isSafeOutputChange(newType, oldType);
+
+const compareArguments = (
+  coordinate: string,
+  oldArgs: ReadonlyArray<IrisArgument> = [],
+  newArgs: ReadonlyArray<IrisArgument> = [],
+): Array<SchemaChange> => {
+  const changes: Array<SchemaChange> = [];
+
+  for (const oldArg of oldArgs) {
+    const newArg = newArgs.find(({ name }) => name === oldArg.name);
+    const argCoordinate = `${coordinate}(${oldArg.name}:)`;
+
+    if (!newArg) {
+      changes.push(
+        change(
+          BreakingChangeType.ARG_REMOVED,
+          `Argument "${argCoordinate}" was removed.`,
+          oldArg.astNode,
+        ),
+      );
+      continue;
+    }
+
+    if (!isSafeInputChange(oldArg.type, newArg.type)) {
+      changes.push(
+        change(
+          BreakingChangeType.ARG_CHANGED_KIND,
+          `Argument "${argCoordinate}" has changed type from "${oldArg.type}" to "${newArg.type}".`,
+          newArg.astNode,
+        ),
+      );
+    } else if (
+      oldArg.defaultValue !== undefined &&
+      !equals(oldArg.defaultValue, newArg.defaultValue)
+    ) {
+      changes.push(
+        change(
+          DangerousChangeType.ARG_DEFAULT_VALUE_CHANGE,
+          `Argument "${argCoordinate}" has changed its default value.`,
+          newArg.astNode,
+        ),
+      );
+    }
+  }
+
+  for (const newArg of newArgs) {
+    if (oldArgs.some(({ name }) => name === newArg.name)) {
+      continue;
+    }
+
+    const argCoordinate = `${coordinate}(${newArg.name}:)`;
+
+    changes.push(
+      isRequiredArgument(newArg)
+        ? change(
+            BreakingChangeType.REQUIRED_ARG_ADDED,
+            `A required argument "${argCoordinate}" was added.`,
+            newArg.astNode,
+          )
+        : change(
+            DangerousChangeType.OPTIONAL_ARG_ADDED,
+            `An optional argument "${argCoordinate}" was added.`,
+            newArg.astNode,
+          ),
+    );
+  }
+
+  return changes;
+};
+
+const isSafeFieldChange = (
+  oldField: IrisField,
+  newField: IrisField,
+  usage: DataUsage,
+): boolean =>
+  (!usage.input || isSafeInputChange(oldField.type, newField.type)) &&
+  (!usage.output || isSafeOutputChange(oldField.type, newField.type));
+
+const compareFields = (
+  coordinate: string,
+  oldVariant: IrisVariant,
+  newVariant: IrisVariant,
+  usage: DataUsage,
+): Array<SchemaChange> => {
+  const changes: Array<SchemaChange> = [];
+  const oldFields = oldVariant.fields ?? {};
+  const newFields = newVariant.fields ?? {};
+
+  for (const oldField of Object.values(oldFields)) {
+    const newField = newFields[oldField.name];
+    const fieldCoordinate = `${coordinate}.${oldField.name}`;
+
+    if (!newField) {
+      changes.push(
+        change(
+          BreakingChangeType.FIELD_REMOVED,
+          `Field "${fieldCoordinate}" was removed.`,
+          oldField.astNode,
+        ),
+      );
+      continue;
+    }
+
+    if (!isSafeFieldChange(oldField, newField, usage)) {
+      changes.push(
+        change(
+          BreakingChangeType.FIELD_CHANGED_KIND,
+          `Field "${fieldCoordinate}" has changed type from "${oldField.type}" to "${newField.type}".`,
+          newField.astNode,
+        ),
+      );
+    }
+
+    changes.push(
+      ...compareArguments(fieldCoordinate, oldField.args, newField.args),
+    );
+  }
+
+  if (usage.input) {
+    for (const newField of Object.values(newFields)) {
+      if (!oldFields[newField.name] && newField.type.kind !== 'MAYBE') {
+        changes.push(
+          change(
+            BreakingChangeType.REQUIRED_FIELD_ADDED,
+            `A required field "${coordinate}.${newField.name}" was added to data used as input.`,
+            newField.astNode,
+          ),
+        );
+      }
+    }
+  }
+
+  return changes;
+};
+
+const compareTypes = (
+  oldType: IrisTypeDefinition,
+  newType: IrisTypeDefinition,
+  usage: DataUsage,
+): Array<SchemaChange> => {
+  const { name } = oldType;
+
+  if (oldType.role !== newType.role) {
+    return [
+      change(
+        BreakingChangeType.TYPE_ROLE_CHANGED,
+        `"${name}" changed from ${oldType.role} to ${newType.role}.`,
+        newType.astNode,
+      ),
+    ];
+  }
+
+  const changes: Array<SchemaChange> = [];
+  const newVariants = newType.variants();
+  const oldVariants = oldType.variants();
+
+  for (const oldVariant of oldVariants) {
+    const newVariant = newVariants.find((v) => v.name === oldVariant.name);
+    const coordinate = oldType.isVariantType
+      ? name
+      : `${name}.${oldVariant.name}`;
+
+    if (!newVariant) {
+      changes.push(
+        change(
+          BreakingChangeType.VARIANT_REMOVED,
+          `Variant "${oldVariant.name}" was removed from ${oldType.role} "${name}".`,
+          oldVariant.astNode,
+        ),
+      );
+      continue;
+    }
+
+    changes.push(...compareFields(coordinate, oldVariant, newVariant, usage));
+  }
+
+  // new variants of inputs are accepted, but outputs can return unknown ones.
+  if (usage.output) {
+    for (const newVariant of newVariants) {
+      if (!oldVariants.some((v) => v.name === newVariant.name)) {
+        changes.push(
+          change(
+            DangerousChangeType.VARIANT_ADDED,
+            `Variant "${newVariant.name}" was added to ${newType.role} "${name}".`,
+            newVariant.astNode,
+          ),
+        );
+      }
+    }
+  }
+
+  return changes;
+};
+
+const findSchemaChanges = (
+  oldSchema: IrisSchema,
+  newSchema: IrisSchema,
+): Array<SchemaChange> => {
+  const changes: Array<SchemaChange> = [];
+  const usage = dataUsage(oldSchema);
+
+  for (const oldType of Object.values(oldSchema.types)) {
+    const newType = newSchema.types[oldType.name];
+
+    if (isSpecifiedScalarType(oldType)) {
+      continue;
+    }
+
+    if (!newType) {
+      changes.push(
+        change(
+          BreakingChangeType.TYPE_REMOVED,
+          `"${oldType.name}" was removed.`,
+          oldType.astNode,
+        ),
+      );
+      continue;
+    }
+
+    changes.push(
+      ...compareTypes(
+        oldType,
+        newType,
+        oldType.role === 'data'
+          ? usage[oldType.name] ?? { input: true, output: true }
+          : resolverUsage,
+      ),
+    );
+  }
+
+  for (const oldDirective of oldSchema.directives) {
+    if (
+      !isSpecifiedDirective(oldDirective) &&
+      !newSchema.directives.some(({ name }) => name === oldDirective.name)
+    ) {
+      changes.push(
+        change(
+          BreakingChangeType.DIRECTIVE_REMOVED,
+          `Directive "@${oldDirective.name}" was removed.`,
+          oldDirective.astNode,
+        ),
+      );
+    }
+  }
+
+  return changes;
+};
+
+const isBreakingChange = (
+  schemaChange: SchemaChange,
+): schemaChange is BreakingChange => schemaChange.type in BreakingChangeType;
+
+/**
+ * Finds changes between two schemas, which break clients of the old schema or
+ * data stored with it, e.g. removed variants or required fields added to
+ * data used as input.
+ */
+export const findBreakingChanges = (
+  oldSchema: IrisSchema,
+  newSchema: IrisSchema,
+): Array<BreakingChange> =>
+  findSchemaChanges(oldSchema, newSchema).filter(isBreakingChange);
+
+/**
+ * Finds changes between two schemas, which are compatible but can change the
+ * behavior of clients, e.g. variants added to data used as output.
+ */
+export const findDangerousChanges = (
+  oldSchema: IrisSchema,
+  newSchema: IrisSchema,
+): Array<DangerousChange> =>
+  findSchemaChanges(oldSchema, newSchema).filter(
+    (schemaChange): schemaChange is DangerousChange =>
+      !isBreakingChange(schemaChange),
+  );
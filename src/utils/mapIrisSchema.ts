@@ -0,0 +1,255 @@
+import { irisError } from '../error';
+import type { Role } from '../types/ast';
+import type {
+  IrisArgument,
+  IrisField,
+  IrisTypeRef,
+  IrisVariant,
+} from '../types/definition';
+import {
+  getNamedType,
+  IrisTypeDefinition,
+  irisTypeRef,
+  isSpecifiedScalarType,
+} from '../types/definition';
+import { GraphQLDirective } from '../types/directives';
+import type { IrisSchema } from '../types/schema';
+
+import { collectTypeMap } from './collectTypeMap';
+import type { Maybe } from './type-level';
+import { notNill } from './type-level';
+
+/**
+ * Mappers return the replacement of the given element, `null` to remove it
+ * or `undefined` to keep it unchanged. Variants, fields and arguments are
+ * mapped after their type, `type` is the original type definition. Types with
+ * fields (e.g. `resolver God = { name: String }`) have a single variant named
+ * like the type, which is passed to the variant mapper as well.
+ */
+export type IrisSchemaMapper = {
+  data?: (type: IrisTypeDefinition<'data'>) => Maybe<IrisTypeDefinition>;
+  resolver?: (
+    type: IrisTypeDefinition<'resolver'>,
+  ) => Maybe<IrisTypeDefinition>;
+  variant?: (
+    variant: IrisVariant,
+    type: IrisTypeDefinition,
+  ) => Maybe<IrisVariant>;
+  field?: (field: IrisField, type: IrisTypeDefinition) => Maybe<IrisField>;
+  argument?: (argument: IrisArgument) => Maybe<IrisArgument>;
+  directive?: (directive: GraphQLDirective) => Maybe<GraphQLDirective>;
+};
+
+const rootTypeNames = ['Query', 'Mutation', 'Subscription'];
+
+const applyMapper = <T, U, A extends Array<unknown>>(
+  value: T,
+  mapper: ((value: T, ...args: A) => Maybe<U>) | undefined,
+  ...args: A
+): T | U | null => {
+  const mapped = mapper?.(value, ...args);
+  return mapped === undefined ? value : mapped;
+};
+
+/**
+ * Rebuilds the schema with mapped types, variants, fields, arguments and
+ * directives. References to renamed types point to their new definitions,
+ * while variants, fields and arguments referencing removed types are removed
+ * as well. Types which were reachable from the root types or directives are
+ * pruned, if they are not reachable anymore. Throws if types lose all of
+ * their variants or data types lose required fields.
+ */
+export const mapIrisSchema = (
+  schema: IrisSchema,
+  mapper: IrisSchemaMapper,
+): IrisSchema => {
+  const originalTypes = Object.values(schema.types);
+  const typeMap = new Map<IrisTypeDefinition, IrisTypeDefinition | null>();
+
+  const mapTypeDefinition = (
+    type: IrisTypeDefinition,
+  ): IrisTypeDefinition | null => {
+    if (isSpecifiedScalarType(type)) {
+      return type;
+    }
+
+    const mapped =
+      type.role === 'data'
+        ? applyMapper(type as IrisTypeDefinition<'data'>, mapper.data)
+        : applyMapper(type as IrisTypeDefinition<'resolver'>, mapper.resolver);
+
+    if (!mapped || mapped.scalar) {
+      return mapped;
+    }
+
+    // the single variant of a type with fields is named like the type.
+    const variantName = (variant: IrisVariant) =>
+      type.isVariantType && variant.name === type.name
+        ? mapped.name
+        : variant.name;
+
+    // types without variants would be custom scalars.
+    const mapVariants = () => {
+      const variants = mapped.variants();
+      const mappedVariants = variants
+        .map((variant) => mapVariant(variant, type))
+        .filter(notNill);
+
+      if (variants.length !== 0 && mappedVariants.length === 0) {
+        throw irisError(
+          `Type "${mapped.name}" must have at least one variant, but all of its variants were removed.`,
+        );
+      }
+
+      return mappedVariants.map((variant) => ({
+        ...variant,
+        name: variantName(variant),
+      }));
+    };
+
+    return new IrisTypeDefinition<Role>({
+      ...mapped.toConfig(),
+      typeArguments: mapped.typeArguments.map(mapTypeRef).filter(notNill),
+      variants: mapVariants,
+    });
+  };
+
+  // types, which are not part of the schema, are kept unchanged.
+  const mapType = (type: IrisTypeDefinition): IrisTypeDefinition | null => {
+    const mapped = typeMap.get(type);
+    return mapped === undefined ? type : mapped;
+  };
+
+  const mapTypeRef = <R extends Role>(
+    type: IrisTypeRef<R>,
+  ): IrisTypeRef<R> | null => {
+    if (type.kind === 'NAMED') {
+      const mapped = mapType(type.ofType);
+      return mapped && (irisTypeRef('NAMED', mapped) as IrisTypeRef<R>);
+    }
+
+    const ofType = mapTypeRef(type.ofType);
+    return ofType && (irisTypeRef(type.kind, ofType) as IrisTypeRef<R>);
+  };
+
+  const mapArgument = (arg: IrisArgument): IrisArgument | null => {
+    const mapped = applyMapper(arg, mapper.argument);
+    const type = mapped && mapTypeRef(mapped.type);
+
+    return mapped && type && { ...mapped, type };
+  };
+
+  const mapArguments = (args: ReadonlyArray<IrisArgument>) =>
+    args.map(mapArgument).filter(notNill);
+
+  const mapField = (
+    field: IrisField,
+    type: IrisTypeDefinition,
+  ): IrisField | null => {
+    const mapped = applyMapper(field, mapper.field, type);
+    const fieldType = mapped && mapTypeRef(mapped.type);
+
+    if (!mapped) {
+      return null;
+    }
+
+    // data values can not omit required fields.
+    if (!fieldType) {
+      if (type.role === 'data' && mapped.type.kind !== 'MAYBE') {
+        throw irisError(
+          `Required field "${type.name}.${
+            mapped.name
+          }" references the removed type "${getNamedType(mapped.type)}".`,
+        );
+      }
+
+      return null;
+    }
+
+    return {
+      ...mapped,
+      type: fieldType,
+      args: mapped.args && mapArguments(mapped.args),
+    } as IrisField;
+  };
+
+  const mapVariant = (
+    variant: IrisVariant,
+    type: IrisTypeDefinition,
+  ): IrisVariant | null => {
+    const mapped = applyMapper(variant, mapper.variant, type);
+
+    if (!mapped) {
+      return null;
+    }
+
+    if (mapped.type) {
+      const included = mapType(mapped.type);
+
+      // variants including other types are named like the included type.
+      return (
+        included && {
+          ...mapped,
+          name: mapped.name === mapped.type.name ? included.name : mapped.name,
+          type: included,
+        }
+      );
+    }
+
+    const fields = Object.values(mapped.fields ?? {})
+      .map((field) => mapField(field, type))
+      .filter(notNill);
+
+    return {
+      ...mapped,
+      fields: Object.fromEntries(fields.map((field) => [field.name, field])),
+    };
+  };
+
+  const mapDirective = (directive: GraphQLDirective) => {
+    const mapped = applyMapper(directive, mapper.directive);
+
+    return (
+      mapped &&
+      new GraphQLDirective({ ...mapped, args: mapArguments(mapped.args) })
+    );
+  };
+
+  originalTypes.forEach((type) => typeMap.set(type, mapTypeDefinition(type)));
+
+  const directives = schema.directives.map(mapDirective).filter(notNill);
+
+  // types, which are not reachable from the root types (e.g. in schemas with
+  // data types only), are kept. Other types are pruned by collectTypeMap, if
+  // they are not reachable after the mapping.
+  const reachableTypes = new Set(
+    Object.values(
+      collectTypeMap(
+        rootTypeNames.map((name) => schema.types[name]).filter(notNill),
+        schema.directives,
+      ),
+    ),
+  );
+  const entryTypes = originalTypes
+    .filter(
+      (type) => rootTypeNames.includes(type.name) || !reachableTypes.has(type),
+    )
+    .map(mapType)
+    .filter(notNill);
+  const remainingTypes = new Set(
+    Object.values(collectTypeMap(entryTypes, directives)),
+  );
+
+  // types are collected in their original order.
+  return {
+    types: collectTypeMap(
+      originalTypes
+        .map(mapType)
+        .filter((type): type is IrisTypeDefinition =>
+          remainingTypes.has(type as IrisTypeDefinition),
+        ),
+      directives,
+    ),
+    directives,
+  };
+};
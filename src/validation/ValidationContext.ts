@@ -1,13 +1,24 @@
 import type { IrisError } from '../error';
 import type { DocumentNode } from '../types/ast';
+import type { IrisScalarMap } from '../types/definition';
+import { stdScalars } from '../types/definition';
 import type { ASTVisitor } from '../types/visitor';
 
+export type SDLValidationOptions = {
+  /**
+   * Custom scalars, which can be referenced like the standard scalars.
+   */
+  scalars?: IrisScalarMap;
+};
+
 export class IrisValidationContext {
   errors: Array<IrisError> = [];
   private _ast: DocumentNode;
+  private _scalars: IrisScalarMap;
 
-  constructor(ast: DocumentNode) {
+  constructor(ast: DocumentNode, options: SDLValidationOptions = {}) {
     this._ast = ast;
+    this._scalars = { ...options.scalars, ...stdScalars };
   }
 
   get [Symbol.toStringTag]() {
@@ -21,6 +32,10 @@ export class IrisValidationContext {
   getDocument(): DocumentNode {
     return this._ast;
   }
+
+  getScalars(): IrisScalarMap {
+    return this._scalars;
+  }
 }
 
 export type SDLValidationRule = (context: IrisValidationContext) => ASTVisitor;
@@ -50,6 +50,28 @@ describe('Validate: Known type names', () => {
       `);
     });
 
+    it('reference type parameters inside of their type definition', () => {
+      expectValidSDL(`
+        data Result<E, A> = Ok { value: A } | Err { error: E }
+        resolver Page<T> = { items(after: ID): [T] }
+      `);
+
+      expect(
+        getSDLErrors(`
+        data Box<A> = { value: A }
+        data Other = { value: A }
+      `),
+      ).toMatchSnapshot();
+    });
+
+    it('reference type parameters in extensions and variants', () => {
+      expectValidSDL(`
+        data Box<A> = { value: A }
+        extend data Box = { other: [A] }
+        data Result<A> = A | Err { error: String }
+      `);
+    });
+
     it('unknown type references', () => {
       expect(
         getSDLErrors(`
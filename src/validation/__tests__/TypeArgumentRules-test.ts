@@ -0,0 +1,169 @@
+import { getSDLValidationErrors } from '../../utils/toJSONDeep';
+
+import { TypeArgumentArityRule } from '../rules/TypeArgumentArityRule';
+import { TypeArgumentKindRule } from '../rules/TypeArgumentKindRule';
+import { UniqueInstanceNamesRule } from '../rules/UniqueInstanceNamesRule';
+
+describe('Validate: Type argument arity', () => {
+  const expectSDLErrors = (sdlStr: string) =>
+    expect(getSDLValidationErrors(TypeArgumentArityRule, sdlStr));
+
+  const expectValidSDL = (sdlStr: string) =>
+    expectSDLErrors(sdlStr).toEqual([]);
+
+  it('type references with matching type arguments', () => {
+    expectValidSDL(`
+      data Result<E, A> = Ok { value: A } | Err { error: E }
+      data Box<A> = { value: A, nested: Box<A>? }
+      data User = { name: String }
+
+      resolver Query = {
+        user(id: Box<ID>): Result<String, [User]>
+        box: Box<Result<String, Int?>>
+      }
+    `);
+  });
+
+  it('type references with missing type arguments', () => {
+    expectSDLErrors(`
+      data Result<E, A> = Ok { value: A } | Err { error: E }
+      data Response = Result
+
+      resolver Query = {
+        result: Result
+        partial: Result<String>
+      }
+    `).toMatchSnapshot();
+  });
+
+  it('type parameters in extensions and variants', () => {
+    expectValidSDL(`
+      data Box<A> = { value: A }
+      extend data Box = { nested: Box<A>? }
+      data Result<A> = A | Err { error: String }
+    `);
+  });
+
+  it('type arguments of non generic types', () => {
+    expectSDLErrors(`
+      data Box<A> = { value: A<Int> }
+      data User = { name: String }
+
+      resolver Query = {
+        user: User<String>
+        name: String<Int>
+      }
+    `).toMatchSnapshot();
+  });
+});
+
+describe('Validate: Type argument kinds', () => {
+  const expectSDLErrors = (sdlStr: string) =>
+    expect(getSDLValidationErrors(TypeArgumentKindRule, sdlStr));
+
+  const expectValidSDL = (sdlStr: string) =>
+    expectSDLErrors(sdlStr).toEqual([]);
+
+  it('data types as arguments of data types', () => {
+    expectValidSDL(`
+      data Box<A> = { value: A }
+      data User = { name: String }
+
+      resolver Query = {
+        user: Box<User>
+        users: Box<[User?]>
+        id: Box<ID>
+      }
+    `);
+  });
+
+  it('resolver types as arguments of resolver types', () => {
+    expectValidSDL(`
+      resolver Page<T> = { items: [T], next: Page<T>? }
+      resolver User = { name: String }
+
+      resolver Query = {
+        users: Page<User>
+        names: Page<String>
+      }
+    `);
+  });
+
+  it('resolver types as arguments of data types', () => {
+    expectSDLErrors(`
+      data Box<A> = { value: A }
+      resolver User = { name: String }
+
+      resolver Query = {
+        user: Box<User>
+        users: Box<[User?]>
+      }
+    `).toMatchSnapshot();
+  });
+
+  it('resolver types as arguments of data type parameters', () => {
+    expectSDLErrors(`
+      data Box<A> = { value: A }
+      resolver Search<Filter, Result> = {
+        find(filter: Filter): [Result]
+      }
+      resolver Boxed<T> = { box: Box<T> }
+      resolver Nested<T> = { boxed: Boxed<T> }
+      resolver User = { name: String }
+
+      resolver Query = {
+        search: Search<User, User>
+        nested: Nested<User>
+      }
+    `).toMatchSnapshot();
+  });
+});
+
+describe('Validate: Unique instance names', () => {
+  const expectSDLErrors = (sdlStr: string) =>
+    expect(getSDLValidationErrors(UniqueInstanceNamesRule, sdlStr));
+
+  const expectValidSDL = (sdlStr: string) =>
+    expectSDLErrors(sdlStr).toEqual([]);
+
+  it('instances with distinct names', () => {
+    expectValidSDL(`
+      data Box<A> = { value: A, nested: Box<A>? }
+      data Pair<A, B> = { first: A, second: B }
+      data User = { name: String }
+
+      resolver Query = {
+        box: Box<Int>
+        boxes: Box<[Int]>
+        pair: Pair<Box<Int>, User>
+        other: Pair<Box<Int>, User>
+      }
+    `);
+  });
+
+  it('instances named like declared types', () => {
+    expectSDLErrors(`
+      data Box<A> = { value: A }
+      data Box_Int = { value: Int }
+
+      resolver Query = {
+        box: Box<Int>
+      }
+    `).toMatchSnapshot();
+  });
+
+  it('instances of different type arguments with the same name', () => {
+    expectSDLErrors(`
+      data Pair<A, B> = { first: A, second: B }
+      data A_B = { value: Int }
+      data B_C = { value: Int }
+      data A = { value: Int }
+      data C = { value: Int }
+
+      resolver Query = {
+        left: Pair<A_B, C>
+        right: Pair<A, B_C>
+      }
+    `).toMatchSnapshot();
+  });
+});
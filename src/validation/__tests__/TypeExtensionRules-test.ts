@@ -0,0 +1,81 @@
+import { getSDLValidationErrors } from '../../utils/toJSONDeep';
+
+import { PossibleTypeExtensionsRule } from '../rules/PossibleTypeExtensionsRule';
+import { UniqueTypeExtensionMembersRule } from '../rules/UniqueTypeExtensionMembersRule';
+
+describe('Validate: Possible type extensions', () => {
+  const expectSDLErrors = (sdlStr: string) =>
+    expect(getSDLValidationErrors(PossibleTypeExtensionsRule, sdlStr));
+
+  const expectValidSDL = (sdlStr: string) =>
+    expectSDLErrors(sdlStr).toEqual([]);
+
+  it('extensions of defined types', () => {
+    expectValidSDL(`
+      data Lifespan = { name: String }
+      data Deity = God {} | Titan {}
+      resolver Query
+
+      extend data Lifespan = { limit: Int }
+      extend data Deity = | Giant {} | Nymph {}
+      extend data Deity @deprecated
+      extend resolver Query = { deities: [Deity] }
+    `);
+  });
+
+  it('extension of an unknown type', () => {
+    expectSDLErrors(`
+      data Deity = { name: String }
+
+      extend data Deities = { age: Int }
+    `).toMatchSnapshot();
+  });
+
+  it('extension with a different role', () => {
+    expectSDLErrors(`
+      data Deity = { name: String }
+
+      extend resolver Deity = { age: Int }
+    `).toMatchSnapshot();
+  });
+
+  it('extensions with a different form', () => {
+    expectSDLErrors(`
+      data Lifespan = { name: String }
+      data Deity = God {} | Titan {}
+
+      extend data Lifespan = Mortal {} | Immortal {}
+      extend data Deity = { name: String }
+    `).toMatchSnapshot();
+  });
+});
+
+describe('Validate: Unique type extension members', () => {
+  const expectSDLErrors = (sdlStr: string) =>
+    expect(getSDLValidationErrors(UniqueTypeExtensionMembersRule, sdlStr));
+
+  const expectValidSDL = (sdlStr: string) =>
+    expectSDLErrors(sdlStr).toEqual([]);
+
+  it('extensions with new members', () => {
+    expectValidSDL(`
+      data Lifespan = { name: String }
+      data Deity = God {} | Titan {}
+
+      extend data Lifespan = { limit: Int }
+      extend data Lifespan = { age: Int }
+      extend data Deity = Giant {}
+    `);
+  });
+
+  it('extensions with existing members', () => {
+    expectSDLErrors(`
+      data Lifespan = { name: String }
+      data Deity = God {} | Titan {}
+
+      extend data Lifespan = { name: String }
+      extend data Deity = Giant {} | Titan {}
+      extend data Deity = Giant {}
+    `).toMatchSnapshot();
+  });
+});
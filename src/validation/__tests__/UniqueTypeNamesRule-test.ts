@@ -158,3 +158,17 @@ describe('Validate: Unique argument definition names', () => {
     `).toMatchSnapshot();
   });
 });
+
+describe('Validate: Unique type parameter names', () => {
+  it('unique type parameters', () => {
+    expectValidSDL(`
+      data Result<E, A> = Ok { value: A } | Err { error: E }
+    `);
+  });
+
+  it('duplicate type parameters', () => {
+    expectSDLErrors(`
+      data Result<A, A> = Ok { value: A }
+    `).toMatchSnapshot();
+  });
+});
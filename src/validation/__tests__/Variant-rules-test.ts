@@ -37,4 +37,18 @@ describe('VariantType Rules', () => {
     }
   `).toMatchSnapshot();
   });
+
+  it('rejects type arguments, which cannot be included as variants', () => {
+    expectSDLErrors(`
+      data Failure = { message: String }
+      data Result<A> = A | Failure
+      resolver User = { name: String }
+
+      resolver Query = {
+        list: Result<[Int]>
+        failure: Result<Failure>
+        user: Result<User>
+      }
+    `).toMatchSnapshot();
+  });
 });
@@ -0,0 +1,90 @@
+import type { IrisTypeRef } from '../../types/definition';
+import { sampleTypeRef } from '../../utils/generators';
+
+import { compileDataType } from '../compileDataType';
+import { typeCheckValue } from '../typeCheckValue';
+
+const defs = `
+  data Era = { name: String }
+
+  data Lifespan
+    = Immortal {}
+    | Limited { max: Int? }
+    | Cyclic { cycles: [Int] }
+    | Era
+
+  data Tree = Leaf { value: Int } | Node { children: [Tree] }
+
+  data Name = String
+`;
+
+const typeRef = (src: string): IrisTypeRef<'data'> =>
+  sampleTypeRef<'data'>(src, defs);
+
+const outcome = (f: () => unknown) => {
+  try {
+    return { value: f() };
+  } catch (error) {
+    return { error: error.message };
+  }
+};
+
+const expectSameOutcome = (type: string, values: ReadonlyArray<unknown>) => {
+  const ref = typeRef(type);
+  const serialize = compileDataType(ref);
+
+  for (const value of values) {
+    expect(outcome(() => serialize(value))).toEqual(
+      outcome(() => typeCheckValue(value, ref)),
+    );
+  }
+};
+
+describe('compileDataType', () => {
+  it('serializes like typeCheckValue', () => {
+    expectSameOutcome('[Lifespan?]', [
+      ['Immortal', null, undefined],
+      [{ __typename: 'Immortal' }, { __typename: 'Limited' }],
+      [
+        { __typename: 'Limited', max: 3 },
+        { __typename: 'Era', name: 'X' },
+      ],
+      [{ __typename: 'Cyclic', cycles: [1, 2] }],
+      [''],
+      ['Limited', 'Cyclic'],
+    ]);
+    expectSameOutcome('Era?', [{ name: 'Bronze' }, {}, { __typename: 'Era' }]);
+    expectSameOutcome('Name', ['Iris', 3, true]);
+  });
+
+  it('throws errors of typeCheckValue', () => {
+    expectSameOutcome('Lifespan', [
+      undefined,
+      'Mortal',
+      5,
+      [],
+      {},
+      { __typename: 'Limited', max: 'many' },
+      { __typename: 'Cyclic', cycles: 5 },
+      { __typename: 7 },
+    ]);
+    expectSameOutcome('Era', [{ name: null }, 'Era', 'Bronze']);
+    expectSameOutcome('[Int]', [5, [1, null]]);
+  });
+
+  it('handles recursive types', () => {
+    const tree = {
+      __typename: 'Node',
+      children: [
+        { __typename: 'Leaf', value: 1 },
+        { __typename: 'Node', children: [{ __typename: 'Leaf', value: 2 }] },
+      ],
+    };
+
+    expect(compileDataType(typeRef('Tree'))(tree)).toEqual(tree);
+    expectSameOutcome('Tree', [
+      tree,
+      { __typename: 'Node', children: [{ __typename: 'Leaf' }] },
+    ]);
+  });
+});
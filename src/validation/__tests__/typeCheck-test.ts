@@ -3,7 +3,7 @@ import { liftType } from '../../types/definition';
 import { buildSchema, getType } from '../../types/schema';
 import { sampleTypeRef } from '../../utils/generators';
 
-import { typeCheckValue } from '../typeCheckValue';
+import { typeCheckValue, validateDataValue } from '../typeCheckValue';
 
 const serializeWith = (
   value: unknown,
@@ -318,3 +318,81 @@ describe('circular data types', () => {
     expect(() => parseNode(tree5)).toThrowErrorMatchingSnapshot();
   });
 });
+
+describe('validateDataValue', () => {
+  const defs = `
+    data Lifespan
+      = Immortal {}
+      | Limited { max: Int?, cycles: [Int] }
+
+    data God = { name: String, lifespan: Lifespan }
+  `;
+  const godsType = sampleTypeRef<'data'>('[God]', defs);
+
+  const gods = [
+    { name: 'Zeus', lifespan: 'Immortal' },
+    { name: 'Adonis', lifespan: { __typename: 'Limited', max: 1.5 } },
+    { name: null, lifespan: 'Mortal' },
+  ];
+
+  it('returns no errors for valid values', () => {
+    expect(validateDataValue(gods.slice(0, 1), godsType)).toEqual([]);
+    expect(validateDataValue(null, sampleTypeRef('Int?'))).toEqual([]);
+  });
+
+  it('collects all errors with their paths', () => {
+    expect(validateDataValue(gods, godsType)).toEqual([
+      {
+        message: 'Int cannot represent non-integer value: 1.5',
+        path: '[1].lifespan.max',
+        expectedType: 'Int',
+        variant: 'Limited',
+      },
+      {
+        message: 'type [Int] cannot represent value: undefined.',
+        path: '[1].lifespan.cycles',
+        expectedType: '[Int]',
+        variant: 'Limited',
+      },
+      {
+        message: 'type String cannot represent value: null.',
+        path: '[2].name',
+        expectedType: 'String',
+        variant: 'God',
+      },
+      {
+        message:
+          'Data "Lifespan" cannot represent value: "Mortal" Did you mean the variant "Immortal"?',
+        path: '[2].lifespan',
+        expectedType: 'Lifespan',
+        variant: 'God',
+        suggestions: ['Immortal'],
+      },
+    ]);
+  });
+
+  it('reports the first errors in messages of typeCheckValue', () => {
+    expect(() => typeCheckValue(gods, godsType)).toThrowErrorMatchingSnapshot();
+    expect(() => typeCheckValue(3, godsType)).toThrow(
+      'type [God] cannot represent value: 3.',
+    );
+  });
+
+  it('rejects variant names, which are not strings', () => {
+    const godType = sampleTypeRef<'data'>('God', defs);
+    const hades = { name: 'Hades', lifespan: { __typename: 7 } };
+
+    expect(validateDataValue(hades, godType)).toEqual([
+      {
+        message: 'type Lifespan expects __typename to be a string, found: 7.',
+        path: '.lifespan',
+        expectedType: 'Lifespan',
+        variant: 'God',
+      },
+    ]);
+    expect(() => typeCheckValue(hades, godType)).toThrow(
+      'type God cannot represent value:\n' +
+        '  at .lifespan: type Lifespan expects __typename to be a string, found: 7.',
+    );
+  });
+});
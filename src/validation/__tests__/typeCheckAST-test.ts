@@ -169,6 +169,9 @@ describe('valueFromAST', () => {
     );
     expectValueFrom('{ requiredBool: null }', testInputObj).toEqual(undefined);
     expectValueFrom('{ bool: true }', testInputObj).toEqual(undefined);
+    expectValueFrom('{ requiredBool: true, bogus: 2 }', testInputObj).toEqual(
+      undefined,
+    );
   });
 
   it('accepts variable values assuming already coerced', () => {
@@ -0,0 +1,122 @@
+import { irisSchema } from '../../index';
+import { buildSchema } from '../../types/schema';
+import { toJSONDeep } from '../../utils/toJSONDeep';
+
+import { validateResolverMap } from '../validateResolverMap';
+
+const schema = buildSchema(`
+  data Lifespan = Immortal {} | Mortal {}
+
+  resolver God = {
+    name: String
+    lifespan: Lifespan
+  }
+
+  resolver Deity = God | Titan { name: String }
+
+  resolver Query = {
+    deities: [Deity]
+    god(name: String): God?
+  }
+`);
+
+const messages = (errors: ReadonlyArray<Error>) =>
+  errors.map(({ message }) => message);
+
+describe('validateResolverMap', () => {
+  it('accepts resolvers of variants and fields', () => {
+    expect(
+      validateResolverMap(schema, {
+        Query: { deities: () => [], god: () => null },
+        God: { name: () => 'Zeus', lifespan: () => 'Immortal' },
+        Titan: { name: () => 'Cronos' },
+      }),
+    ).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports unknown variants and fields', () => {
+    expect(
+      messages(
+        validateResolverMap(schema, {
+          Queries: { deities: () => [] },
+          Query: { deity: () => [] },
+          Lifespan: {},
+          God: 'Zeus',
+        }).errors,
+      ),
+    ).toMatchSnapshot();
+  });
+
+  it('accepts subscribe resolvers only for fields of Subscription', () => {
+    const subscription = buildSchema(`
+      resolver Query = { hello: String }
+      resolver Subscription = { ticks: Int, beats: Int, greetings: String }
+    `);
+    const subscribe = async function* () {
+      yield await Promise.resolve(1);
+    };
+
+    expect(
+      messages(
+        validateResolverMap(subscription, {
+          Query: { hello: { subscribe } },
+          Subscription: {
+            ticks: { subscribe, resolve: (tick: number) => tick },
+            beats: { resolve: (beat: number) => beat },
+            greetings: () => 'hello',
+          },
+        }).errors,
+      ),
+    ).toEqual([
+      'Resolver "Query.hello" must be a function.',
+      'Resolver "Subscription.beats" must be a function or an object with a "subscribe" function.',
+    ]);
+  });
+
+  it('warns about fields without resolvers', () => {
+    expect(
+      toJSONDeep(
+        validateResolverMap(schema, { God: { name: () => 'Zeus' } }).warnings,
+      ),
+    ).toMatchSnapshot();
+  });
+
+  it('warns about fields of variants without resolvers', () => {
+    expect(
+      messages(
+        validateResolverMap(schema, {
+          Query: { deities: () => [], god: () => null },
+        }).warnings,
+      ),
+    ).toEqual([
+      'Field "God.name" has no resolver and is resolved by the default property.',
+      'Field "God.lifespan" has no resolver and is resolved by the default property.',
+      'Field "Titan.name" has no resolver and is resolved by the default property.',
+    ]);
+  });
+
+  it('reports warnings to the caller of the transpiler', () => {
+    const warnings: Array<Error> = [];
+
+    irisSchema('resolver Query = { hello: String, bye: String }', {
+      resolvers: { Query: { hello: () => 'world' } },
+      onWarning: (warning) => warnings.push(warning),
+    });
+
+    expect(messages(warnings)).toEqual([
+      'Field "Query.bye" has no resolver and is resolved by the default property.',
+    ]);
+  });
+
+  it('rejects invalid resolvers unless they are assumed valid', () => {
+    const src = 'resolver Query = { hello: String }';
+    const resolvers = { Query: { hallo: () => 'world' } };
+
+    expect(() => irisSchema(src, { resolvers })).toThrow(
+      'Resolver "Query.hallo" is defined for an unknown field. Did you mean "hello"?',
+    );
+    expect(() =>
+      irisSchema(src, { resolvers, assumeValidResolvers: true }),
+    ).not.toThrow();
+  });
+});
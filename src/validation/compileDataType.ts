@@ -0,0 +1,190 @@
+import type { IrisTypeDefinition, IrisTypeRef } from '../types/definition';
+import { isIterableObject, isObjectLike } from '../utils/ObjMap';
+
+import { cannotRepresent, dataValueError, variantName } from './typeCheckValue';
+
+/**
+ * Validates and serializes values of a data type like `typeCheckValue`.
+ */
+export type DataSerializer = (value: unknown) => unknown;
+
+type CompiledVariant = {
+  fields: ReadonlyArray<[string, DataSerializer]>;
+  hasRequiredFields: boolean;
+};
+
+type Compiler = {
+  types: Map<IrisTypeDefinition<'data'>, DataSerializer>;
+};
+
+const { propertyIsEnumerable } = Object.prototype;
+
+// variant values contain only own enumerable fields, like an object rest.
+const fieldValue = (value: object, name: string): unknown =>
+  propertyIsEnumerable.call(value, name)
+    ? (value as Record<string, unknown>)[name]
+    : undefined;
+
+const countFields = (value: object): number => {
+  let count = 0;
+  for (const key of Object.keys(value)) {
+    if (key !== '__typename') {
+      count++;
+    }
+  }
+  return count;
+};
+
+const compileTypeRef = (
+  compiler: Compiler,
+  type: IrisTypeRef<'data'>,
+): DataSerializer => {
+  switch (type.kind) {
+    case 'MAYBE': {
+      const serialize = compileTypeRef(compiler, type.ofType);
+      return (value) => (value == null ? null : serialize(value));
+    }
+    case 'LIST': {
+      const serialize = compileTypeRef(compiler, type.ofType);
+      const listName = `[${type.ofType}]`;
+      return (value) => {
+        if (!isIterableObject(value)) {
+          throw cannotRepresent(value, listName);
+        }
+
+        const result = [];
+        for (const item of value) {
+          result.push(serialize(item));
+        }
+        return result;
+      };
+    }
+    case 'NAMED':
+      return compileNamedType(compiler, type.ofType);
+  }
+};
+
+const compileVariants = (
+  compiler: Compiler,
+  type: IrisTypeDefinition<'data'>,
+): Map<string, CompiledVariant> =>
+  new Map(
+    type.variants().map((variant) => {
+      const variantType = variant.type ? variant.type.variantBy() : variant;
+      const fields = Object.values(variantType.fields ?? {});
+
+      return [
+        variant.name,
+        {
+          fields: fields.map(({ name, type: fieldType }) => [
+            name,
+            compileTypeRef(compiler, fieldType),
+          ]),
+          hasRequiredFields: fields.some(
+            ({ type: fieldType }) => fieldType.kind !== 'MAYBE',
+          ),
+        },
+      ];
+    }),
+  );
+
+const compileNamedType = (
+  compiler: Compiler,
+  type: IrisTypeDefinition<'data'>,
+): DataSerializer => {
+  const cached = compiler.types.get(type);
+  if (cached) {
+    return cached;
+  }
+
+  // recursive types reference the serializer before it is compiled.
+  let serialize: DataSerializer = () => undefined;
+  compiler.types.set(type, (value) => serialize(value));
+
+  const { boxedScalar } = type;
+
+  if (boxedScalar) {
+    serialize = (value) => {
+      if (value == null) {
+        throw cannotRepresent(value, type);
+      }
+
+      const serialized = boxedScalar.serialize(value);
+
+      if (typeof serialized === 'number' && !Number.isFinite(serialized)) {
+        throw cannotRepresent(value, type);
+      }
+
+      return serialized;
+    };
+
+    return serialize;
+  }
+
+  const variants = compileVariants(compiler, type);
+  const [singleVariant] =
+    variants.size === 1 ? [...variants.values()] : [undefined];
+
+  // unknown or missing names are looked up by the type to throw its errors.
+  const lookup = (name: unknown): CompiledVariant =>
+    (typeof name === 'string' && variants.get(name)) ||
+    (!name && singleVariant) ||
+    (variants.get(type.variantBy(name as string).name) as CompiledVariant);
+
+  serialize = (value) => {
+    if (value == null) {
+      throw cannotRepresent(value, type);
+    }
+
+    let name: unknown = value;
+    let fields: object | undefined;
+
+    if (typeof value !== 'string') {
+      if (!isObjectLike(value) || isIterableObject(value)) {
+        throw cannotRepresent(value, type.name);
+      }
+
+      name = variantName(value.__typename, type.name);
+      fields = value;
+    }
+
+    const variant = lookup(name);
+
+    if (
+      name &&
+      !variant.hasRequiredFields &&
+      (fields === undefined || countFields(fields) === 0)
+    ) {
+      return name;
+    }
+
+    const result: Record<string, unknown> = name ? { __typename: name } : {};
+    for (const [fieldName, serializeField] of variant.fields) {
+      result[fieldName] = serializeField(
+        fields && fieldValue(fields, fieldName),
+      );
+    }
+    return result;
+  };
+
+  return serialize;
+};
+
+/**
+ * Compiles a data type into a serializer, which returns the same values and
+ * throws the same errors as `typeCheckValue`, but resolves variants and
+ * wrapping types only once.
+ */
+export const compileDataType = (
+  typeRef: IrisTypeRef<'data'>,
+): DataSerializer => {
+  const serialize = compileTypeRef({ types: new Map() }, typeRef);
+
+  return (value) => {
+    try {
+      return serialize(value);
+    } catch (error) {
+      throw dataValueError(error, value, typeRef);
+    }
+  };
+};
@@ -2,11 +2,19 @@ import { Kind } from 'graphql';
 
 import { irisError } from '../../error';
 import type {
+  NamedTypeNode,
+  NameNode,
+  Role,
   TypeDefinitionNode,
+  TypeExtensionNode,
   VariantDefinitionNode,
 } from '../../types/ast';
-import { isTypeVariantNode } from '../../types/ast';
-import { scalarNames } from '../../types/definition';
+import {
+  findDefinition,
+  getTypeParameters,
+  isTypeExtensionNode,
+  isTypeVariantNode,
+} from '../../types/ast';
 import { IrisKind } from '../../types/kinds';
 import type { ASTVisitor } from '../../types/visitor';
 
@@ -19,46 +27,118 @@ const makeScalar = (name: string): TypeDefinitionNode => ({
   variants: [],
 });
 
-const defaultTypes: Record<string, TypeDefinitionNode> = Object.fromEntries(
-  scalarNames.map((name) => [name, makeScalar(name)]),
-);
-
 export function IncludeOnlyVariantTypes(
   context: IrisValidationContext,
 ): ASTVisitor {
   const doc = context.getDocument().definitions;
+  const defaultTypes: Record<string, TypeDefinitionNode> = Object.fromEntries(
+    Object.keys(context.getScalars()).map((name) => [name, makeScalar(name)]),
+  );
+
+  // type parameters of the currently visited type definition or extension
+  let parameters: ReadonlyArray<NameNode> = [];
 
   return {
     TypeDefinition: checkVariantUniqueness,
+    TypeExtension: checkVariantUniqueness,
+    NamedType: checkIncludedArguments,
   };
 
-  function checkVariantUniqueness(type: TypeDefinitionNode) {
+  function checkVariantUniqueness(
+    type: TypeDefinitionNode | TypeExtensionNode,
+  ) {
     const typeName = type.name.value;
+    parameters = getTypeParameters(doc, type);
 
     type.variants.forEach((v: VariantDefinitionNode) => {
       const name = v.name.value;
       const member =
-        !v.fields &&
-        (defaultTypes[name] ?? doc.find((x) => x.name.value === name));
+        !v.fields && (defaultTypes[name] ?? findDefinition(doc, name));
+
+      if (member) {
+        checkMember(type.role, typeName, member, v);
+      }
+    });
+  }
+
+  function checkMember(
+    role: Role,
+    typeName: string,
+    member: TypeDefinitionNode,
+    node: VariantDefinitionNode | NamedTypeNode,
+  ) {
+    if (
+      member.kind !== IrisKind.TYPE_DEFINITION ||
+      member.role !== role ||
+      !isTypeVariantNode(member)
+    ) {
+      context.reportError(
+        irisError(
+          `${role} ${typeName} can only include ${role} variantTypes, it cannot include ${member.role} ${member.name.value}.`,
+          { nodes: node },
+        ),
+      );
+    }
+  }
+
+  // type arguments of parameters, which are included as variants, become
+  // variants of the instance.
+  function checkIncludedArguments(node: NamedTypeNode) {
+    const typeName = node.name.value;
+    const type = findDefinition(doc, typeName);
+
+    if (type?.kind !== IrisKind.TYPE_DEFINITION || !node.arguments) {
+      return;
+    }
+
+    const variants = doc
+      .filter(isTypeExtensionNode)
+      .filter((extension) => extension.name.value === typeName)
+      .reduce(
+        (acc, extension) => acc.concat(extension.variants),
+        type.variants,
+      );
+
+    (type.parameters ?? []).forEach(({ value: param }, i) => {
+      const arg = node.arguments?.[i];
+      const isIncluded = variants.some(
+        (v) => !v.fields && v.name.value === param,
+      );
 
-      if (!member) {
-        return undefined;
+      if (!arg || !isIncluded) {
+        return;
       }
 
-      if (
-        member.kind !== IrisKind.TYPE_DEFINITION ||
-        member.role !== type.role ||
-        !isTypeVariantNode(member)
-      ) {
+      if (arg.kind !== IrisKind.NAMED_TYPE) {
         context.reportError(
           irisError(
-            `${type.role} ${typeName} can only include ${type.role} variantTypes, it cannot include ${member.role} ${member.name.value}.`,
-            { nodes: v },
+            `Type parameter "${param}" of "${typeName}" is included as a variant and accepts only named types.`,
+            { nodes: arg },
           ),
         );
+        return;
+      }
+
+      const name = arg.name.value;
+
+      if (parameters.some(({ value }) => value === name) || arg.arguments) {
+        return;
       }
-    });
 
-    return false;
+      if (variants.some((v) => v.name.value === name)) {
+        context.reportError(
+          irisError(
+            `Type argument "${name}" of "${typeName}" is included as a variant, but "${typeName}" already has a variant "${name}".`,
+            { nodes: arg },
+          ),
+        );
+      }
+
+      const member = defaultTypes[name] ?? findDefinition(doc, name);
+
+      if (member) {
+        checkMember(type.role, typeName, member, arg);
+      }
+    });
   }
 }
@@ -69,6 +69,7 @@ function getDirectiveLocationForASTPath(
     case IrisKind.FIELD_DEFINITION:
       return IrisDirectiveLocation.FIELD_DEFINITION;
     case IrisKind.TYPE_DEFINITION:
+    case IrisKind.TYPE_EXTENSION:
       return appliedTo.role === 'resolver'
         ? IrisDirectiveLocation.RESOLVER_DEFINITION
         : IrisDirectiveLocation.DATA_DEFINITION;
@@ -77,6 +78,7 @@ function getDirectiveLocationForASTPath(
       invariant('kind' in parentNode);
       const kinds: ReadonlyArray<IrisKind | Kind> = [
         IrisKind.TYPE_DEFINITION,
+        IrisKind.TYPE_EXTENSION,
         IrisKind.VARIANT_DEFINITION,
       ];
       return kinds.includes(parentNode.kind)
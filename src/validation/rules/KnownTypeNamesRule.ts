@@ -1,10 +1,11 @@
 import { irisError } from '../../error';
 import type { ASTNode } from '../../types/ast';
 import {
+  getTypeParameters,
   isTypeDefinitionNode,
+  isTypeExtensionNode,
   isTypeSystemDefinitionNode,
 } from '../../types/ast';
-import { scalarNames } from '../../types/definition';
 import type { ASTVisitor } from '../../types/visitor';
 import { didYouMean, suggestionList } from '../../utils/legacy';
 
@@ -19,14 +20,29 @@ import type { IrisValidationContext } from '../ValidationContext';
  * See https://spec.graphql.org/draft/#sec-Fragment-Spread-Type-Existence
  */
 export function KnownTypeNamesRule(context: IrisValidationContext): ASTVisitor {
+  const { definitions } = context.getDocument();
   const definedTypes = Object.create(null);
-  for (const def of context.getDocument().definitions) {
+  for (const def of definitions) {
     if (isTypeDefinitionNode(def)) {
       definedTypes[def.name.value] = true;
     }
   }
 
   const typeNames = [...Object.keys(definedTypes)];
+  const scalarNames = Object.keys(context.getScalars());
+
+  // type parameters are known only inside of their type definition and its
+  // extensions.
+  const isTypeParameter = (
+    definitionNode: ASTNode | ReadonlyArray<ASTNode>,
+    typeName: string,
+  ): boolean =>
+    'kind' in definitionNode &&
+    (isTypeDefinitionNode(definitionNode) ||
+      isTypeExtensionNode(definitionNode)) &&
+    getTypeParameters(definitions, definitionNode).some(
+      ({ value }) => value === typeName,
+    );
 
   return {
     NamedType(node, _1, parent, _2, ancestors) {
@@ -38,6 +54,10 @@ export function KnownTypeNamesRule(context: IrisValidationContext): ASTVisitor {
           return;
         }
 
+        if (isTypeParameter(definitionNode, typeName)) {
+          return;
+        }
+
         const suggestedTypes = suggestionList(
           typeName,
           isSDL ? scalarNames.concat(typeNames) : typeNames,
@@ -63,6 +83,11 @@ export function KnownTypeNamesRule(context: IrisValidationContext): ASTVisitor {
           return;
         }
 
+        // variants can include types passed as type arguments.
+        if (isTypeParameter(definitionNode, typeName)) {
+          return;
+        }
+
         const suggestedTypes = suggestionList(
           typeName,
           isSDL ? scalarNames.concat(typeNames) : typeNames,
@@ -79,5 +104,8 @@ export function KnownTypeNamesRule(context: IrisValidationContext): ASTVisitor {
 }
 
 function isSDLNode(value: ASTNode | ReadonlyArray<ASTNode>): boolean {
-  return 'kind' in value && isTypeSystemDefinitionNode(value);
+  return (
+    'kind' in value &&
+    (isTypeSystemDefinitionNode(value) || isTypeExtensionNode(value))
+  );
 }
@@ -0,0 +1,71 @@
+import { irisError } from '../../error';
+import {
+  findDefinition,
+  isTypeDefinitionNode,
+  isTypeVariantNode,
+} from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+import { didYouMean, suggestionList } from '../../utils/legacy';
+
+import type { IrisValidationContext } from '../ValidationContext';
+
+/**
+ * Possible type extension
+ *
+ * A type extension is only valid if the type is defined and has the same role.
+ * Types with fields can only be extended with fields and types with variants
+ * can only be extended with variants.
+ */
+export function PossibleTypeExtensionsRule(
+  context: IrisValidationContext,
+): ASTVisitor {
+  const definitions = context.getDocument().definitions;
+  const typeNames = definitions
+    .filter(isTypeDefinitionNode)
+    .map((def) => def.name.value);
+
+  return {
+    TypeExtension(node) {
+      const typeName = node.name.value;
+      const def = findDefinition(definitions, typeName);
+
+      if (!def || !isTypeDefinitionNode(def)) {
+        context.reportError(
+          irisError(
+            `Cannot extend type "${typeName}" because it is not defined.` +
+              didYouMean(suggestionList(typeName, typeNames)),
+            { nodes: node.name },
+          ),
+        );
+        return;
+      }
+
+      if (def.role !== node.role) {
+        context.reportError(
+          irisError(
+            `Cannot extend ${def.role} type "${typeName}" with a ${node.role} extension.`,
+            { nodes: [def.name, node.name] },
+          ),
+        );
+        return;
+      }
+
+      if (node.variants.length === 0) {
+        return;
+      }
+
+      const hasFields = isTypeVariantNode(def);
+
+      if (hasFields !== isTypeVariantNode(node)) {
+        context.reportError(
+          irisError(
+            `Type "${typeName}" can only be extended with ${
+              hasFields ? 'fields' : 'variants'
+            }.`,
+            { nodes: node.variants },
+          ),
+        );
+      }
+    },
+  };
+}
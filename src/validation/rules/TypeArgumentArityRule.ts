@@ -0,0 +1,85 @@
+import { irisError } from '../../error';
+import type {
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+  TypeNode,
+} from '../../types/ast';
+import { getTypeParameters, isTypeDefinitionNode } from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+import type { ObjMap } from '../../utils/ObjMap';
+
+import type { IrisValidationContext } from '../ValidationContext';
+
+/**
+ * Type argument arity
+ *
+ * A type reference is only valid if it provides exactly as many type arguments
+ * as the referenced type has type parameters.
+ */
+export function TypeArgumentArityRule(
+  context: IrisValidationContext,
+): ASTVisitor {
+  const { definitions } = context.getDocument();
+  const arities: ObjMap<number> = {};
+
+  for (const name of Object.keys(context.getScalars())) {
+    arities[name] = 0;
+  }
+
+  for (const def of definitions) {
+    if (isTypeDefinitionNode(def)) {
+      arities[def.name.value] = def.parameters?.length ?? 0;
+    }
+  }
+
+  const checkArity = (
+    name: NameNode,
+    args: ReadonlyArray<TypeNode>,
+    parameters: ReadonlyArray<NameNode>,
+  ) => {
+    const typeName = name.value;
+    const isParameter = parameters.some(({ value }) => value === typeName);
+    const arity = isParameter ? 0 : arities[typeName];
+
+    // unknown types are reported by KnownTypeNamesRule
+    if (arity === undefined || arity === args.length) {
+      return;
+    }
+
+    context.reportError(
+      irisError(
+        arity === 0
+          ? `Type "${typeName}" does not accept type arguments.`
+          : `Type "${typeName}" expects ${arity} type ${
+              arity === 1 ? 'argument' : 'arguments'
+            }, but got ${args.length}.`,
+        { nodes: name },
+      ),
+    );
+  };
+
+  // type parameters of the currently visited type definition or extension
+  let parameters: ReadonlyArray<NameNode> = [];
+  const typeVisitor = {
+    enter(type: TypeDefinitionNode | TypeExtensionNode) {
+      parameters = getTypeParameters(definitions, type);
+    },
+    leave() {
+      parameters = [];
+    },
+  };
+
+  return {
+    TypeDefinition: typeVisitor,
+    TypeExtension: typeVisitor,
+    VariantDefinition(variant) {
+      if (!variant.fields) {
+        checkArity(variant.name, [], parameters);
+      }
+    },
+    NamedType(node) {
+      checkArity(node.name, node.arguments ?? [], parameters);
+    },
+  };
+}
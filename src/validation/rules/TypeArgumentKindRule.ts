@@ -0,0 +1,141 @@
+import { irisError } from '../../error';
+import type {
+  NamedTypeNode,
+  NameNode,
+  Role,
+  TypeDefinitionNode,
+  TypeNode,
+} from '../../types/ast';
+import { getRefTypeName, isTypeDefinitionNode } from '../../types/ast';
+import { IrisKind } from '../../types/kinds';
+import type { ASTVisitor } from '../../types/visitor';
+import type { ObjMap } from '../../utils/ObjMap';
+
+import type { IrisValidationContext } from '../ValidationContext';
+
+const namedTypes = (node: TypeNode): Array<NamedTypeNode> => {
+  switch (node.kind) {
+    case IrisKind.LIST_TYPE:
+    case IrisKind.MAYBE_TYPE:
+      return namedTypes(node.type);
+    case IrisKind.NAMED_TYPE:
+      return [node, ...(node.arguments ?? []).flatMap(namedTypes)];
+  }
+};
+
+const fieldTypes = (type: TypeDefinitionNode): Array<TypeNode> =>
+  type.variants.flatMap((variant) =>
+    (variant.fields ?? []).map((field) => field.type),
+  );
+
+const argumentTypes = (type: TypeDefinitionNode): Array<TypeNode> =>
+  type.variants.flatMap((variant) =>
+    (variant.fields ?? []).flatMap((field) =>
+      (field.arguments ?? []).map((arg) => arg.type),
+    ),
+  );
+
+/**
+ * Type argument kinds
+ *
+ * Type parameters of data types and type parameters used in data positions
+ * (e.g. as types of arguments) can be instantiated only with data types. Other
+ * type parameters of resolver types accept data and resolver types.
+ */
+export function TypeArgumentKindRule(
+  context: IrisValidationContext,
+): ASTVisitor {
+  const definitions = context
+    .getDocument()
+    .definitions.filter(isTypeDefinitionNode);
+  const roles: ObjMap<Role> = {};
+  // names of type parameters, which accept only data types
+  const dataParameters: ObjMap<Set<string>> = {};
+
+  for (const def of definitions) {
+    roles[def.name.value] = def.role;
+    dataParameters[def.name.value] = new Set(
+      def.role === 'data'
+        ? (def.parameters ?? []).map(({ value }) => value)
+        : [],
+    );
+  }
+
+  const isDataParameter = (typeName: string, index: number): boolean => {
+    const def = definitions.find(({ name }) => name.value === typeName);
+    const param = def?.parameters?.[index]?.value;
+    return param !== undefined && Boolean(dataParameters[typeName]?.has(param));
+  };
+
+  // parameters passed to data parameters of other types are data parameters
+  // too, which is inferred until no parameter is added.
+  const inferDataParameters = (type: TypeDefinitionNode): boolean => {
+    const parameters = dataParameters[type.name.value];
+    const isParameter = (node: TypeNode) =>
+      type.parameters?.some(
+        ({ value }) => value === getRefTypeName(node).value,
+      ) ?? false;
+    const size = parameters.size;
+
+    for (const node of argumentTypes(type).flatMap(namedTypes)) {
+      if (isParameter(node)) {
+        parameters.add(node.name.value);
+      }
+    }
+
+    for (const node of fieldTypes(type)
+      .concat(argumentTypes(type))
+      .flatMap(namedTypes)) {
+      (node.arguments ?? []).forEach((arg, i) => {
+        if (isParameter(arg) && isDataParameter(node.name.value, i)) {
+          parameters.add(getRefTypeName(arg).value);
+        }
+      });
+    }
+
+    return parameters.size !== size;
+  };
+
+  const generics = definitions.filter(
+    (def) => def.role === 'resolver' && def.parameters?.length,
+  );
+
+  let isChanged = true;
+  while (isChanged) {
+    isChanged = generics.map(inferDataParameters).some(Boolean);
+  }
+
+  let parameters: ReadonlyArray<NameNode> = [];
+
+  return {
+    TypeDefinition: {
+      enter(type) {
+        parameters = type.parameters ?? [];
+      },
+      leave() {
+        parameters = [];
+      },
+    },
+    NamedType(node) {
+      const typeName = node.name.value;
+
+      (node.arguments ?? []).forEach((arg, i) => {
+        const argName = getRefTypeName(arg).value;
+        const isParameter = parameters.some(({ value }) => value === argName);
+
+        if (
+          !isParameter &&
+          roles[argName] === 'resolver' &&
+          isDataParameter(typeName, i)
+        ) {
+          context.reportError(
+            irisError(
+              `Type argument "${argName}" of "${typeName}" must be a data type.`,
+              { nodes: arg },
+            ),
+          );
+        }
+      });
+    },
+  };
+}
@@ -1,5 +1,5 @@
 import { irisError } from '../../error';
-import { isTypeDefinitionNode } from '../../types/ast';
+import { isTypeDefinitionNode, isTypeExtensionNode } from '../../types/ast';
 import { specifiedDirectives } from '../../types/directives';
 import { IrisKind } from '../../types/kinds';
 import type { ASTVisitor } from '../../types/visitor';
@@ -42,7 +42,7 @@ export function UniqueDirectivesPerLocationRule(
       }
 
       let seenDirectives;
-      if (isTypeDefinitionNode(node)) {
+      if (isTypeDefinitionNode(node) || isTypeExtensionNode(node)) {
         const typeName = node.name.value;
         seenDirectives = typeDirectivesMap[typeName];
         if (seenDirectives === undefined) {
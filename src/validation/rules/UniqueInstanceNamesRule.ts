@@ -0,0 +1,133 @@
+import { irisError } from '../../error';
+import type {
+  NamedTypeNode,
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+  TypeNode,
+} from '../../types/ast';
+import { getTypeParameters, isTypeDefinitionNode } from '../../types/ast';
+import type { InstanceTypeRef } from '../../types/definition';
+import { instanceName } from '../../types/definition';
+import { IrisKind } from '../../types/kinds';
+import type { ASTVisitor } from '../../types/visitor';
+import type { ObjMap } from '../../utils/ObjMap';
+
+import type { IrisValidationContext } from '../ValidationContext';
+
+// instances in type arguments are named by their own type arguments.
+const instanceTypeRef = (node: TypeNode): InstanceTypeRef => {
+  switch (node.kind) {
+    case IrisKind.LIST_TYPE:
+      return { kind: 'LIST', ofType: instanceTypeRef(node.type) };
+    case IrisKind.MAYBE_TYPE:
+      return { kind: 'MAYBE', ofType: instanceTypeRef(node.type) };
+    case IrisKind.NAMED_TYPE:
+      return {
+        kind: 'NAMED',
+        ofType: {
+          name: instanceName(
+            node.name.value,
+            (node.arguments ?? []).map(instanceTypeRef),
+          ),
+        },
+      };
+  }
+};
+
+const printTypeRef = (node: TypeNode): string => {
+  switch (node.kind) {
+    case IrisKind.LIST_TYPE:
+      return `[${printTypeRef(node.type)}]`;
+    case IrisKind.MAYBE_TYPE:
+      return `${printTypeRef(node.type)}?`;
+    case IrisKind.NAMED_TYPE:
+      return node.arguments?.length
+        ? `${node.name.value}<${node.arguments.map(printTypeRef).join(', ')}>`
+        : node.name.value;
+  }
+};
+
+const refersTo = (node: TypeNode, names: ReadonlyArray<NameNode>): boolean => {
+  switch (node.kind) {
+    case IrisKind.LIST_TYPE:
+    case IrisKind.MAYBE_TYPE:
+      return refersTo(node.type, names);
+    case IrisKind.NAMED_TYPE:
+      return (
+        names.some(({ value }) => value === node.name.value) ||
+        (node.arguments ?? []).some((arg) => refersTo(arg, names))
+      );
+  }
+};
+
+/**
+ * Unique instance names
+ *
+ * Instances of generic types get concrete names, which must not be shared with
+ * declared types or with instances for other type arguments.
+ */
+export function UniqueInstanceNamesRule(
+  context: IrisValidationContext,
+): ASTVisitor {
+  const { definitions } = context.getDocument();
+  const typeNames = new Set(Object.keys(context.getScalars()));
+
+  for (const def of definitions) {
+    if (isTypeDefinitionNode(def)) {
+      typeNames.add(def.name.value);
+    }
+  }
+
+  // printed type reference of the first instance with a given name
+  const instances: ObjMap<string> = {};
+
+  // type parameters of the currently visited type definition or extension
+  let parameters: ReadonlyArray<NameNode> = [];
+  const typeVisitor = {
+    enter(type: TypeDefinitionNode | TypeExtensionNode) {
+      parameters = getTypeParameters(definitions, type);
+    },
+    leave() {
+      parameters = [];
+    },
+  };
+
+  return {
+    TypeDefinition: typeVisitor,
+    TypeExtension: typeVisitor,
+    NamedType(node: NamedTypeNode) {
+      // names of instances with type parameters depend on their arguments.
+      if (!node.arguments?.length || refersTo(node, parameters)) {
+        return;
+      }
+
+      const name = instanceName(
+        node.name.value,
+        node.arguments.map(instanceTypeRef),
+      );
+      const typeRef = printTypeRef(node);
+      const instance = instances[name];
+
+      if (instance === undefined) {
+        instances[name] = typeRef;
+
+        if (typeNames.has(name)) {
+          context.reportError(
+            irisError(
+              `Instance "${typeRef}" is named "${name}", which conflicts with the type "${name}".`,
+              { nodes: node },
+            ),
+          );
+        }
+      } else if (instance !== typeRef) {
+        context.reportError(
+          irisError(
+            `Instances "${instance}" and "${typeRef}" are both named "${name}".`,
+            { nodes: node },
+          ),
+        );
+      }
+    },
+  };
+}
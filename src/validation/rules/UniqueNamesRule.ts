@@ -1,7 +1,12 @@
 import { forEachObjIndexed, groupBy } from 'ramda';
 
 import { irisError } from '../../error';
-import type { NameNode, TypeDefinitionNode } from '../../types/ast';
+import type {
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+} from '../../types/ast';
+import { stdScalars } from '../../types/definition';
 import type { ASTVisitor } from '../../types/visitor';
 
 import type { IrisValidationContext } from '../ValidationContext';
@@ -51,30 +56,57 @@ export function UniqueNamesRule(context: IrisValidationContext): ASTVisitor {
   const registerType = registerUniq(context, 'type');
   const registerDirective = registerUniq(context, 'directive');
 
-  return {
-    TypeDefinition(type: TypeDefinitionNode) {
-      const typeName = type.name.value;
+  const checkVariants = (type: TypeDefinitionNode | TypeExtensionNode) => {
+    const typeName = type.name.value;
 
-      registerType(type.name);
-      uniq(type.variants, (name) => `Variant "${typeName}.${name}"`);
+    uniq(type.variants, (name) => `Variant "${typeName}.${name}"`);
 
-      for (const variant of type.variants) {
-        const variantName = variant.name.value;
-        const fields = variant.fields ?? [];
+    for (const variant of type.variants) {
+      const variantName = variant.name.value;
+      const fields = variant.fields ?? [];
 
-        uniq(fields, (name) => `Field "${variantName}.${name}"`);
+      uniq(fields, (name) => `Field "${variantName}.${name}"`);
 
-        for (const field of fields) {
-          const fieldName = field.name.value;
-          const args = field.arguments ?? [];
+      for (const field of fields) {
+        const fieldName = field.name.value;
+        const args = field.arguments ?? [];
 
-          uniq(
-            args,
-            (name) => `Argument "${variantName}.${fieldName}(${name}:)"`,
-          );
-        }
+        uniq(
+          args,
+          (name) => `Argument "${variantName}.${fieldName}(${name}:)"`,
+        );
       }
+    }
+  };
+
+  // custom scalars replace only types declared without variants.
+  const scalars = context.getScalars();
+  const checkScalar = (type: TypeDefinitionNode) => {
+    const typeName = type.name.value;
+
+    if (scalars[typeName] && !stdScalars[typeName] && type.variants.length) {
+      context.reportError(
+        irisError(
+          `Type "${typeName}" is declared with variants, but is also registered as a custom scalar.`,
+          { nodes: type.name },
+        ),
+      );
+    }
+  };
+
+  return {
+    TypeDefinition(type) {
+      const typeName = type.name.value;
+
+      registerType(type.name);
+      checkScalar(type);
+      uniq(
+        (type.parameters ?? []).map((name) => ({ name })),
+        (name) => `Type parameter "${typeName}<${name}>"`,
+      );
+      checkVariants(type);
     },
+    TypeExtension: checkVariants,
     DirectiveDefinition(node) {
       const directiveName = node.name.value;
       const args = node.arguments ?? [];
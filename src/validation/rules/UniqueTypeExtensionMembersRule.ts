@@ -0,0 +1,83 @@
+import { irisError } from '../../error';
+import type {
+  NameNode,
+  TypeDefinitionNode,
+  TypeExtensionNode,
+  VariantDefinitionNode,
+} from '../../types/ast';
+import { isTypeDefinitionNode } from '../../types/ast';
+import type { ASTVisitor } from '../../types/visitor';
+import type { ObjMap } from '../../utils/ObjMap';
+
+import type { IrisValidationContext } from '../ValidationContext';
+
+type MemberNode = TypeDefinitionNode | TypeExtensionNode;
+
+type Member = [key: string, name: NameNode, description: string];
+
+const isFieldsExtension = (type: MemberNode, variant: VariantDefinitionNode) =>
+  variant.fields !== undefined && variant.name.value === type.name.value;
+
+/**
+ * Unique type extension members
+ *
+ * A type extension is only valid if it does not add variants or fields, which
+ * are already defined by the type or by its other extensions. Duplicates
+ * inside of a single definition are reported by UniqueNamesRule.
+ */
+export function UniqueTypeExtensionMembersRule(
+  context: IrisValidationContext,
+): ASTVisitor {
+  const knownMembers: ObjMap<NameNode> = {};
+
+  const members = (type: MemberNode): Array<Member> =>
+    type.variants.flatMap((variant) => {
+      const typeName = type.name.value;
+      const variantName = variant.name.value;
+
+      if (!isFieldsExtension(type, variant)) {
+        return [
+          [
+            `${typeName}|${variantName}`,
+            variant.name,
+            `Variant "${typeName}.${variantName}"`,
+          ],
+        ];
+      }
+
+      return (variant.fields ?? []).map(
+        ({ name }): Member => [
+          `${typeName}|${variantName}.${name.value}`,
+          name,
+          `Field "${variantName}.${name.value}"`,
+        ],
+      );
+    });
+
+  const register = (type: MemberNode) =>
+    members(type).forEach(([key, node]) => {
+      knownMembers[key] = knownMembers[key] ?? node;
+    });
+
+  context
+    .getDocument()
+    .definitions.filter(isTypeDefinitionNode)
+    .forEach(register);
+
+  return {
+    TypeExtension(node) {
+      for (const [key, name, description] of members(node)) {
+        const knownName = knownMembers[key];
+        if (knownName) {
+          context.reportError(
+            irisError(`${description} can only be defined once.`, {
+              nodes: [knownName, name],
+            }),
+          );
+        }
+      }
+
+      register(node);
+    },
+  };
+}
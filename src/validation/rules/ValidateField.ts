@@ -1,5 +1,10 @@
 import { irisError } from '../../error';
-import { getRefTypeName, isTypeDefinitionNode } from '../../types/ast';
+import type { TypeDefinitionNode, TypeExtensionNode } from '../../types/ast';
+import {
+  findDefinition,
+  getRefTypeName,
+  isTypeDefinitionNode,
+} from '../../types/ast';
 import type { ASTVisitor } from '../../types/visitor';
 
 import type { IrisValidationContext } from '../ValidationContext';
@@ -7,65 +12,68 @@ import type { IrisValidationContext } from '../ValidationContext';
 export function ValidateField(ctx: IrisValidationContext): ASTVisitor {
   const doc = ctx.getDocument().definitions;
 
-  return {
-    TypeDefinition(type) {
-      for (const variant of type.variants) {
-        for (const field of variant.fields ?? []) {
-          const refTypeName = getRefTypeName(field.type).value;
-          const fieldType = doc.find((x) => x.name.value === refTypeName);
-          const fieldPath = `${variant.name.value}.${field.name.value}`;
+  const validateType = (type: TypeDefinitionNode | TypeExtensionNode) => {
+    for (const variant of type.variants) {
+      for (const field of variant.fields ?? []) {
+        const refTypeName = getRefTypeName(field.type).value;
+        const fieldType = findDefinition(doc, refTypeName);
+        const fieldPath = `${variant.name.value}.${field.name.value}`;
+
+        if (!fieldType || !isTypeDefinitionNode(fieldType)) {
+          return undefined;
+        }
+
+        if (type.role === 'data' && fieldType.role === 'resolver') {
+          ctx.reportError(
+            irisError(
+              `The type of ${fieldPath} must be data Type but got: ${refTypeName}.`,
+              { nodes: field.type },
+            ),
+          );
+        }
 
-          if (!fieldType || !isTypeDefinitionNode(fieldType)) {
+        for (const arg of field.arguments ?? []) {
+          const argName = arg.name.value;
+          const argTypeName = getRefTypeName(arg.type).value;
+          const argType = findDefinition(doc, argTypeName);
+
+          if (!argType || !isTypeDefinitionNode(argType)) {
             return undefined;
           }
 
-          if (type.role === 'data' && fieldType.role === 'resolver') {
+          if (argType.role === 'resolver') {
             ctx.reportError(
               irisError(
-                `The type of ${fieldPath} must be data Type but got: ${refTypeName}.`,
-                { nodes: field.type },
+                `The type of ${fieldPath}(${argName}:) must be Input Type but got: ${argTypeName}.`,
+                { nodes: arg.type },
               ),
             );
           }
 
-          for (const arg of field.arguments ?? []) {
-            const argName = arg.name.value;
-            const argTypeName = getRefTypeName(arg.type).value;
-            const argType = doc.find((x) => x.name.value === argTypeName);
-
-            if (!argType || !isTypeDefinitionNode(argType)) {
-              return undefined;
-            }
-
-            if (argType.role === 'resolver') {
-              ctx.reportError(
-                irisError(
-                  `The type of ${fieldPath}(${argName}:) must be Input Type but got: ${argTypeName}.`,
-                  { nodes: arg.type },
-                ),
-              );
-            }
-
-            // TODO:
-            //   if (isRequiredArgument(arg) && arg.deprecationReason != null) {
-            //     ctx.reportError(
-            //       `Required argument ${variantName}.${field.name}(${argName}:) cannot be deprecated.`,
-            //       [getDeprecatedDirectiveNode(arg.astNode), arg.astNode?.type],
-            //     );
-            //   }
-          }
+          // TODO:
+          //   if (isRequiredArgument(arg) && arg.deprecationReason != null) {
+          //     ctx.reportError(
+          //       `Required argument ${variantName}.${field.name}(${argName}:) cannot be deprecated.`,
+          //       [getDeprecatedDirectiveNode(arg.astNode), arg.astNode?.type],
+          //     );
+          //   }
         }
       }
+    }
 
-      return false;
-    },
+    return false;
+  };
+
+  return {
+    TypeDefinition: validateType,
+    TypeExtension: validateType,
 
     DirectiveDefinition(directive) {
       const directiveName = directive.name.value;
       for (const arg of directive.arguments ?? []) {
         const argName = arg.name.value;
         const argTypeName = getRefTypeName(arg.type).value;
-        const argType = doc.find((x) => x.name.value === argTypeName);
+        const argType = findDefinition(doc, argTypeName);
 
         if (!argType || !isTypeDefinitionNode(argType)) {
           return undefined;
@@ -1,6 +1,6 @@
 import { Kind } from 'graphql';
 
-import type { ObjectValueNode, ValueNode } from '../types/ast';
+import type { ObjectFieldNode, ValueNode } from '../types/ast';
 import type {
   IrisTypeDefinition,
   IrisTypeRef,
@@ -109,8 +109,21 @@ function parseTypeDefinition(
       return undefined;
     }
 
-    const variant = type.variantBy(variantName?.value);
-    return parseVariantValue(variant, valueNode, variables);
+    const variant = resolveVariant(type, variantName?.value);
+    const value = parseVariantValue(variant, valueNode.fields, variables);
+
+    return variantName && value
+      ? { __typename: variantName.value, ...value }
+      : value;
+  }
+
+  // Variants without required fields can be written as enum values,
+  // which are represented by their names (e.g. `Immortal`).
+  if (valueNode.kind === Kind.ENUM && !type.boxedScalar) {
+    const variant = resolveVariant(type, valueNode.value);
+    const value = parseVariantValue(variant, [], variables);
+
+    return value ? valueNode.value : undefined;
   }
 
   // Scalars and Enums fulfill parsing a literal value via parseLiteral().
@@ -118,7 +131,7 @@ function parseTypeDefinition(
   // no value is returned.
   let result;
   try {
-    result = type.boxedScalar?.parseLiteral(valueNode);
+    result = type.boxedScalar?.parseLiteral(valueNode, variables);
   } catch (_error) {
     return; // Invalid: intentionally return no value.
   }
@@ -140,13 +153,28 @@ function isMissingVariable(
   );
 }
 
+const resolveVariant = (
+  type: IrisTypeDefinition<'data'>,
+  name?: string,
+): IrisVariant<'data'> => {
+  const variant = type.variantBy(name);
+  return variant.type ? variant.type.variantBy() : variant;
+};
+
 const parseVariantValue = (
   variant: IrisVariant<'data'>,
-  valueNode: ObjectValueNode,
+  fields: ReadonlyArray<ObjectFieldNode>,
   variables: Maybe<ObjMap<unknown>>,
-): Maybe<ObjectValueNode> => {
+): Maybe<ObjMap<unknown>> => {
   const coercedObj = Object.create(null);
-  const fieldNodes = keyMap(valueNode.fields, (field) => field.name.value);
+  const fieldNodes = keyMap(fields, (field) => field.name.value);
+
+  for (const { name } of fields) {
+    if (name.value !== '__typename' && !variant.fields?.[name.value]) {
+      return; // Invalid: unknown field.
+    }
+  }
+
   for (const field of Object.values(variant.fields ?? {})) {
     const fieldNode = fieldNodes[field.name];
     if (!fieldNode || isMissingVariable(fieldNode.value, variables)) {
@@ -7,24 +7,103 @@ import type {
   IrisTypeRef,
   IrisVariant,
 } from '../types/definition';
-import { inspect } from '../utils/legacy';
+import { inspect, suggestionList } from '../utils/legacy';
 import { isIterableObject, isObjectLike } from '../utils/ObjMap';
 import type { IrisMaybe, Maybe } from '../utils/type-level';
 
-const cannotRepresent = <T>(value: unknown, type: T) =>
+export const cannotRepresent = <T>(value: unknown, type: T) =>
   irisError(`type ${type} cannot represent value: ${inspect(value)}.`);
 
 type JSON = unknown;
 
 type Serializer<T> = (value: unknown, type: T) => Maybe<JSON>;
 
+/**
+ * Invalid part of a data value found by validateDataValue.
+ */
+export type DataValueError = {
+  message: string;
+  /**
+   * JSON path of the invalid part, e.g. `[12].lifespan.max`, which is empty
+   * for the value itself. Like JavaScript accessors, fields start with a dot,
+   * also at the top level, e.g. `.children` of an object value.
+   */
+  path: string;
+  /**
+   * Type expected at the path, e.g. `Int` or `[Lifespan]`.
+   */
+  expectedType: string;
+  /**
+   * Variant, which fields contain the invalid part.
+   */
+  variant?: string;
+  /**
+   * Variants with names similar to an unknown variant name.
+   */
+  suggestions?: ReadonlyArray<string>;
+};
+
+// errors listed in messages of typeCheckValue.
+const MAX_REPORTED_ERRORS = 3;
+
+/**
+ * Validates values like `typeCheckValue`, but returns all errors instead of
+ * throwing the first one.
+ */
+export const validateDataValue = (
+  value: unknown,
+  type: IrisTypeRef<'data'>,
+): ReadonlyArray<DataValueError> => {
+  const state: ValidationState = { path: [], errors: [] };
+  validateValue(state, value, type);
+  return state.errors;
+};
+
+/**
+ * Replaces the error of an invalid value by an error listing the first
+ * errors of validateDataValue with their paths. Errors of the value itself
+ * are kept.
+ */
+export const dataValueError = (
+  error: Error,
+  value: unknown,
+  type: IrisTypeRef<'data'>,
+): Error => {
+  const errors = validateDataValue(value, type);
+
+  if (errors.length === 0 || (errors.length === 1 && errors[0].path === '')) {
+    return error;
+  }
+
+  const reported = errors
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map(({ path, message }) => `  at ${path}: ${message}`);
+  const more = errors.length - MAX_REPORTED_ERRORS;
+
+  return irisError(
+    [
+      `type ${type} cannot represent value:`,
+      ...reported,
+      ...(more > 0 ? [`  and ${more} more.`] : []),
+    ].join('\n'),
+  );
+};
+
 export const typeCheckValue: Serializer<IrisTypeRef<'data'>> = (
   value,
   type,
 ) => {
+  try {
+    return serializeValue(value, type);
+  } catch (error) {
+    throw dataValueError(error, value, type);
+  }
+};
+
+const serializeValue: Serializer<IrisTypeRef<'data'>> = (value, type) => {
   switch (type.kind) {
     case 'MAYBE':
-      return isNil(value) ? null : typeCheckValue(value, type.ofType);
+      return isNil(value) ? null : serializeValue(value, type.ofType);
     case 'LIST': {
       return serializeList(value, type.ofType);
     }
@@ -40,7 +119,7 @@ const serializeList: Serializer<IrisTypeRef<'data'>> = (value, type) => {
 
   const valuesNodes = [];
   for (const item of value) {
-    valuesNodes.push(typeCheckValue(item, type));
+    valuesNodes.push(serializeValue(item, type));
   }
 
   return valuesNodes;
@@ -80,6 +159,25 @@ export const parseVariantWith = <T>(
   return f(object, variantType);
 };
 
+/**
+ * Checks the `__typename` of an object value, which is optional for types
+ * with a single variant.
+ */
+export const variantName = (
+  typename: unknown,
+  typeName: string,
+): string | undefined => {
+  if (isNil(typename) || typeof typename === 'string') {
+    return typename ?? undefined;
+  }
+
+  throw irisError(
+    `type ${typeName} expects __typename to be a string, found: ${inspect(
+      typename,
+    )}.`,
+  );
+};
+
 const toVariantObject = (
   value: unknown,
   typeName: string,
@@ -90,7 +188,7 @@ const toVariantObject = (
 
   if (isObjectLike(value) && !isIterableObject(value)) {
     const { __typename, ...fields } = value;
-    return { name: __typename as string, fields };
+    return { name: variantName(__typename, typeName), fields };
   }
 
   throw cannotRepresent(value, typeName);
@@ -118,8 +216,128 @@ const parseVariantValue = (
   const fieldNodes: Record<string, JSON> = __typename ? { __typename } : {};
 
   for (const { name, type } of variantFields) {
-    fieldNodes[name] = typeCheckValue(fields[name], type);
+    fieldNodes[name] = serializeValue(fields[name], type);
   }
 
   return fieldNodes;
 };
+
+type ValidationState = {
+  path: Array<string | number>;
+  errors: Array<DataValueError>;
+};
+
+const printPath = (path: ReadonlyArray<string | number>): string =>
+  path
+    .map((key) =>
+      typeof key === 'number'
+        ? `[${key}]`
+        : /^[_a-zA-Z][_a-zA-Z0-9]*$/.test(key)
+        ? `.${key}`
+        : `[${JSON.stringify(key)}]`,
+    )
+    .join('');
+
+const report = (
+  state: ValidationState,
+  message: string,
+  expectedType: { toString: () => string },
+  variant?: string,
+  suggestions?: ReadonlyArray<string>,
+) => {
+  state.errors.push({
+    message,
+    path: printPath(state.path),
+    expectedType: expectedType.toString(),
+    ...(variant ? { variant } : {}),
+    ...(suggestions?.length ? { suggestions } : {}),
+  });
+};
+
+const validateValue = (
+  state: ValidationState,
+  value: unknown,
+  type: IrisTypeRef<'data'>,
+  variant?: string,
+): void => {
+  switch (type.kind) {
+    case 'MAYBE':
+      if (!isNil(value)) {
+        validateValue(state, value, type.ofType, variant);
+      }
+      return;
+    case 'LIST': {
+      if (!isIterableObject(value)) {
+        const message = cannotRepresent(value, type).message;
+        return report(state, message, type, variant);
+      }
+
+      let index = 0;
+      for (const item of value) {
+        state.path.push(index++);
+        validateValue(state, item, type.ofType, variant);
+        state.path.pop();
+      }
+      return;
+    }
+    case 'NAMED':
+      return validateDataType(state, value, type.ofType, variant);
+  }
+};
+
+const validateDataType = (
+  state: ValidationState,
+  value: unknown,
+  type: IrisTypeDefinition<'data'>,
+  parentVariant?: string,
+): void => {
+  const fail = (message: string, suggestions?: ReadonlyArray<string>) =>
+    report(state, message, type, parentVariant, suggestions);
+
+  if (isNil(value)) {
+    return fail(cannotRepresent(value, type).message);
+  }
+
+  if (type.boxedScalar) {
+    try {
+      parseDataType(value, type);
+    } catch (error) {
+      fail(error.message);
+    }
+    return;
+  }
+
+  let object: IrisVariantValue;
+  let variant: IrisVariant<'data'>;
+
+  try {
+    object = toVariantObject(value, type.name);
+  } catch (error) {
+    return fail(error.message);
+  }
+
+  try {
+    variant = type.variantBy(object.name);
+  } catch (error) {
+    const names = type.variants().map(({ name }) => name);
+    return fail(
+      error.message,
+      typeof object.name === 'string'
+        ? suggestionList(object.name, names)
+        : undefined,
+    );
+  }
+
+  const variantType = variant.type ? variant.type.variantBy() : variant;
+  const variantFields = Object.values(variantType.fields ?? {});
+
+  if (isEmptyVariant(object, variantFields)) {
+    return;
+  }
+
+  for (const { name, type: fieldType } of variantFields) {
+    state.path.push(name);
+    validateValue(state, object.fields[name], fieldType, variant.name);
+    state.path.pop();
+  }
+};
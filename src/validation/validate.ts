@@ -7,12 +7,20 @@ import { KnownArgumentNamesOnDirectivesRule } from './rules/KnownArgumentNamesRu
 import { KnownDirectivesRule } from './rules/KnownDirectivesRule';
 import { KnownTypeNamesRule } from './rules/KnownTypeNamesRule';
 import { ObjectRootTypes } from './rules/ObjectRootTypes';
+import { PossibleTypeExtensionsRule } from './rules/PossibleTypeExtensionsRule';
 import { ProvidedRequiredArgumentsOnDirectivesRule } from './rules/ProvidedRequiredArgumentsRule';
+import { TypeArgumentArityRule } from './rules/TypeArgumentArityRule';
+import { TypeArgumentKindRule } from './rules/TypeArgumentKindRule';
 import { UniqueDirectivesPerLocationRule } from './rules/UniqueDirectivesPerLocationRule';
 import { UniqueInputFieldNamesRule } from './rules/UniqueInputFieldNamesRule';
+import { UniqueInstanceNamesRule } from './rules/UniqueInstanceNamesRule';
 import { UniqueNamesRule } from './rules/UniqueNamesRule';
+import { UniqueTypeExtensionMembersRule } from './rules/UniqueTypeExtensionMembersRule';
 import { ValidateField } from './rules/ValidateField';
-import type { SDLValidationRule } from './ValidationContext';
+import type {
+  SDLValidationOptions,
+  SDLValidationRule,
+} from './ValidationContext';
 import { IrisValidationContext } from './ValidationContext';
 
 export const specifiedSDLRules: ReadonlyArray<SDLValidationRule> =
@@ -28,6 +36,11 @@ export const specifiedSDLRules: ReadonlyArray<SDLValidationRule> =
     IncludeOnlyVariantTypes,
     ValidateField,
     ObjectRootTypes,
+    PossibleTypeExtensionsRule,
+    UniqueTypeExtensionMembersRule,
+    TypeArgumentArityRule,
+    TypeArgumentKindRule,
+    UniqueInstanceNamesRule,
   ]);
 
 /**
@@ -36,8 +49,9 @@ export const specifiedSDLRules: ReadonlyArray<SDLValidationRule> =
 export function validateSDL(
   documentAST: DocumentNode,
   rules: ReadonlyArray<SDLValidationRule> = specifiedSDLRules,
+  options?: SDLValidationOptions,
 ): ReadonlyArray<IrisError> {
-  const context = new IrisValidationContext(documentAST);
+  const context = new IrisValidationContext(documentAST, options);
 
   const visitors = rules.map((rule) => rule(context));
   visit(documentAST, visitInParallel(visitors));
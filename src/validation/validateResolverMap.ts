@@ -0,0 +1,154 @@
+import type { IrisError } from '../error';
+import { irisError } from '../error';
+import type { IrisVariant } from '../types/definition';
+import type { IrisSchema } from '../types/schema';
+import { didYouMean, suggestionList } from '../utils/legacy';
+import { isObjectLike } from '../utils/ObjMap';
+
+export type ResolverMapReport = {
+  /**
+   * Resolvers, which do not match any variant or field of the schema.
+   */
+  errors: ReadonlyArray<IrisError>;
+  /**
+   * Fields of resolver variants without resolvers, which are resolved by the
+   * default property of their parent value.
+   */
+  warnings: ReadonlyArray<IrisError>;
+};
+
+/**
+ * Fields of `Subscription` can be resolved by an object with a `subscribe`
+ * function, which returns an async iterator of payloads, and an optional
+ * `resolve` function, which maps each payload to the value of the field.
+ */
+export type SubscriptionResolver = {
+  subscribe: (...args: Array<never>) => unknown;
+  resolve?: (...args: Array<never>) => unknown;
+};
+
+export const isSubscriptionResolver = (
+  resolver: unknown,
+): resolver is SubscriptionResolver =>
+  isObjectLike(resolver) &&
+  typeof resolver.subscribe === 'function' &&
+  (resolver.resolve === undefined || typeof resolver.resolve === 'function');
+
+const resolverShapeError = (
+  variantName: string,
+  fieldName: string,
+  resolver: unknown,
+): string | undefined => {
+  if (resolver === undefined || typeof resolver === 'function') {
+    return undefined;
+  }
+
+  if (variantName !== 'Subscription') {
+    return `Resolver "${variantName}.${fieldName}" must be a function.`;
+  }
+
+  return isSubscriptionResolver(resolver)
+    ? undefined
+    : `Resolver "${variantName}.${fieldName}" must be a function or an object with a "subscribe" function.`;
+};
+
+/**
+ * Validates a resolver map against the schema. Resolvers are keyed by names
+ * of resolver variants, e.g. `{ Query: { deities: () => [] } }`.
+ */
+export const validateResolverMap = (
+  schema: IrisSchema,
+  resolverMap: Record<string, unknown>,
+): ResolverMapReport => {
+  const errors: Array<IrisError> = [];
+  const warnings: Array<IrisError> = [];
+
+  const variants: Record<string, IrisVariant<'resolver'>> = {};
+  for (const type of Object.values(schema.types)) {
+    if (type.role === 'resolver') {
+      for (const variant of type.variants()) {
+        if (variant.fields) {
+          variants[variant.name] = variant as IrisVariant<'resolver'>;
+        }
+      }
+    }
+  }
+
+  const variantNames = Object.keys(variants);
+
+  for (const [name, resolvers] of Object.entries(resolverMap)) {
+    const variant = variants[name];
+    const type = schema.types[name];
+
+    if (!variant) {
+      errors.push(
+        irisError(
+          type?.role === 'data'
+            ? `Resolvers cannot be defined for data type "${name}".`
+            : `Resolvers are defined for unknown variant "${name}".` +
+                didYouMean(suggestionList(name, variantNames)),
+          { nodes: type?.astNode ?? undefined },
+        ),
+      );
+      continue;
+    }
+
+    if (!isObjectLike(resolvers)) {
+      errors.push(
+        irisError(`Resolvers of "${name}" must be an object.`, {
+          nodes: variant.astNode,
+        }),
+      );
+      continue;
+    }
+
+    const fields = variant.fields ?? {};
+    const fieldNames = Object.keys(fields);
+
+    for (const fieldName of Object.keys(resolvers)) {
+      const field = fields[fieldName];
+
+      if (!field) {
+        errors.push(
+          irisError(
+            `Resolver "${name}.${fieldName}" is defined for an unknown field.` +
+              didYouMean(suggestionList(fieldName, fieldNames)),
+            { nodes: variant.astNode },
+          ),
+        );
+        continue;
+      }
+
+      const shapeError = resolverShapeError(
+        name,
+        fieldName,
+        resolvers[fieldName],
+      );
+
+      if (shapeError) {
+        errors.push(irisError(shapeError, { nodes: field.astNode }));
+      }
+    }
+  }
+
+  for (const [name, variant] of Object.entries(variants)) {
+    const resolvers = resolverMap[name] ?? {};
+
+    if (!isObjectLike(resolvers)) {
+      continue;
+    }
+
+    for (const field of Object.values(variant.fields ?? {})) {
+      if (resolvers[field.name] === undefined) {
+        warnings.push(
+          irisError(
+            `Field "${name}.${field.name}" has no resolver and is resolved by the default property.`,
+            { nodes: field.astNode },
+          ),
+        );
+      }
+    }
+  }
+
+  return { errors, warnings };
+};